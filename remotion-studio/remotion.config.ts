@@ -0,0 +1,5 @@
+// Settings for the Remotion CLI (studio, render, still). See https://www.remotion.dev/docs/config
+import {Config} from '@remotion/cli/config';
+
+Config.setVideoImageFormat('jpeg');
+Config.setOverwriteOutput(true);
@@ -1,15 +1,47 @@
-// Minimal dependency-free backend server that proxies prompts to OpenAI (gpt-5 by default)
-// Requires Node.js 18+ (for global fetch) and OPENAI_API_KEY in env.
+// Minimal dependency-free backend server that proxies prompts to an LLM provider (OpenAI gpt-5 by default)
+// Requires Node.js 18+ (for global fetch). Providers live in server/providers.js; the offline one needs no key.
 
 const http = require('http');
 const fs = require('fs');
 const path = require('path');
+const { validateProject, applyLintFixes, formatDiagnostics, loadLinter } = require('./server/validate');
+const { openEventStream, extractPartialFiles } = require('./server/stream');
+const { createProviders, parseModelJSON } = require('./server/providers');
+const { synthesizeBlockParams } = require('./server/offline');
+const { applyEdits, applySettings, refineMessages, normalizeRefinement } = require('./server/refine');
+const { parameterizeProject } = require('./server/parameterize');
+const { createRenderQueue } = require('./server/render');
+const { createBlockStore } = require('./server/blockStore');
+const { createAssetStore, describeAssets } = require('./server/assetStore');
+const { normalizeParamDefs } = require('./server/params');
+const { prepareInputs, userContent } = require('./server/inputs');
+const { readScaffold } = require('./server/scaffold');
+const { normalizeScenes, blockSceneProps, sceneKey, sceneFiles, assembleStoryboard } = require('./server/storyboard');
+const { createLogger } = require('./server/logger');
+const { createAccessControl } = require('./server/access');
+const { createRequestContext, scopeProvider, modelConfig } = require('./server/requestContext');
+const { createGenerationCache, cacheKey } = require('./server/generationCache');
+const { variantSamplings, mapSettled } = require('./server/variants');
+const { requestedFormat, describeFormat, adaptProjectFormats } = require('./server/formats');
+const { createBrandStore, describeBrand, brandPalette, brandParamDefaults } = require('./server/brandKit');
 
 const PORT = Number(process.env.PORT || 3003);
 const HOST = process.env.HOST || '0.0.0.0';
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY || '';
-const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-5';
 const DEV_FALLBACK = String(process.env.DEV_FALLBACK || '').toLowerCase();
+const MAX_REPAIR_ROUNDS = Number.isFinite(Number(process.env.MAX_REPAIR_ROUNDS ?? 2)) ? Math.max(0, Math.floor(Number(process.env.MAX_REPAIR_ROUNDS ?? 2))) : 2;
+// Generation requests carry the guidance image and block attachments, so they may be larger than other bodies
+const INPUT_MAX_BYTES = Number(process.env.INPUT_MAX_BYTES) > 0 ? Number(process.env.INPUT_MAX_BYTES) : 16 * 1024 * 1024;
+const IMAGE_MAX_SIDE = Number(process.env.IMAGE_MAX_SIDE) > 0 ? Number(process.env.IMAGE_MAX_SIDE) : 1568;
+const ATTACHMENT_MAX_CHARS = Number(process.env.ATTACHMENT_MAX_CHARS) > 0 ? Number(process.env.ATTACHMENT_MAX_CHARS) : 20000;
+// Most variants one /api/generate/variants request may ask for, and how many of them are generated at the same time
+const MAX_VARIANTS = Number(process.env.MAX_VARIANTS) >= 1 ? Math.floor(Number(process.env.MAX_VARIANTS)) : 4;
+const VARIANT_CONCURRENCY = Number(process.env.VARIANT_CONCURRENCY) >= 1 ? Math.floor(Number(process.env.VARIANT_CONCURRENCY)) : 2;
+const providers = createProviders(process.env);
+const logger = createLogger({ level: process.env.LOG_LEVEL });
+const access = createAccessControl(process.env);
+// Routes that call a model or start a render; they count against the per-client rate and concurrency limits
+const LIMITED_ROUTE = /^\/api\/(generate(?:\/variants)?|storyboard|refine|blocks\/params|render|still)\/?(?:stream\/?)?(?:\?.*)?$/;
 
 // Example spec used for optional dev fallback (neutral scene)
 const exampleSpec = {
@@ -32,6 +64,20 @@ const exampleSpec = {
 
 const workspaceRoot = __dirname; // repo root
 const webDist = path.join(workspaceRoot, 'web', 'dist');
+const dataDir = process.env.DATA_DIR || path.join(workspaceRoot, 'data');
+const blockStore = createBlockStore(path.join(dataDir, 'blocks'), { log: logger });
+const assetStore = createAssetStore(path.join(dataDir, 'assets'), { maxBytes: process.env.ASSET_MAX_BYTES });
+const brandStore = createBrandStore(path.join(dataDir, 'brand.json'));
+const studioDir = path.join(workspaceRoot, 'remotion-studio');
+const generationCache = createGenerationCache(path.join(dataDir, 'cache'), { mode: process.env.GENERATION_CACHE });
+const renders = createRenderQueue({
+  assets: assetStore,
+  studioDir,
+  workDir: process.env.RENDER_DIR,
+  concurrency: process.env.RENDER_CONCURRENCY,
+  timeoutMs: process.env.RENDER_TIMEOUT_MS,
+  log: logger,
+});
 
 function sendJSON(res, status, data) {
   const body = JSON.stringify(data);
@@ -47,13 +93,13 @@ function sendText(res, status, text, contentType = 'text/plain; charset=utf-8')
   res.end(text);
 }
 
-function readBody(req) {
+function readBody(req, limit = 512 * 1024) {
   return new Promise((resolve, reject) => {
     let data = '';
     req.on('data', chunk => {
       data += chunk;
       // rudimentary protection against very large bodies
-      if (data.length > 512 * 1024) {
+      if (data.length > limit) {
         reject(Object.assign(new Error('Payload too large'), { code: 'PAYLOAD_TOO_LARGE' }));
         req.destroy();
       }
@@ -63,14 +109,27 @@ function readBody(req) {
   });
 }
 
-async function callOpenAI(prompt, opts) {
-  if (!OPENAI_API_KEY) {
-    const err = new Error('OPENAI_API_KEY is not set');
-    err.expose = true; err.status = 503;
-    throw err;
-  }
+// Binary request body (asset uploads), up to `limit` bytes
+function readRawBody(req, limit) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(Object.assign(new Error('Payload too large'), { code: 'PAYLOAD_TOO_LARGE' }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
 
-  const system = `# About Remotion
+// System prompt of project generation; cached generations are keyed by its hash, so editing it invalidates them
+const PROJECT_SYSTEM_PROMPT = `# About Remotion
 
 Remotion is a framework that can create videos programmatically.
 It is based on React.js. All output should be valid React code and be written in TypeScript.
@@ -109,7 +168,8 @@ export const Root: React.FC = () => {
 
 A <Composition> defines a video that can be rendered. It consists of a React "component", an "id", a "durationInFrames", a "width", a "height" and a frame rate "fps".
 The default frame rate should be 30.
-The default height should be 1080 and the default width should be 1920.
+The default height should be 1080 and the default width should be 1920. When the request names an output format, use its width and height instead.
+Size and position elements relative to the width and height returned by useVideoConfig() rather than fixed pixel values, so the composition also works in other aspect ratios.
 The default "id" should be "MyComp".
 The "defaultProps" must be in the shape of the React props the "component" expects.
 
@@ -270,65 +330,269 @@ No markdown code fences or comments outside code. Only JSON.
 - Avoid reading properties of possibly undefined variables (e.g., colors[i % colors.length] requires colors to be defined and non-empty).
 - The returned files must be self-contained and compile in strict TypeScript without additional imports. Keep it single-file for MyComp unless explicitly asked otherwise.`;
 
-  const body = {
-    model: (opts && opts.modelOverride) || OPENAI_MODEL || "gpt-5",
+// Ask the selected provider for a Remotion project (opts.provider, defaults to the server's default provider)
+async function callModel(prompt, opts) {
+  const provider = (opts && opts.provider) || providers.get();
+  const message = await provider.chat({
+    task: 'project',
     messages: [
-      { role: 'system', content: system },
-      { role: 'user', content: prompt }
+      { role: 'system', content: PROJECT_SYSTEM_PROMPT },
+      { role: 'user', content: userContent(prompt, opts && opts.images) },
+      ...((opts && opts.followUp) || [])
     ],
-    response_format: { type: 'json_object' },
-  };
-
-  const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${OPENAI_API_KEY}`
-    },
-    body: JSON.stringify(body)
+    model: opts && opts.modelOverride,
+    json: true,
+    temperature: opts && opts.temperature,
+    seed: opts && opts.seed,
+    signal: opts && opts.signal,
+    onDelta: opts && opts.onDelta,
   });
-
-  if (!resp.ok) {
-    const text = await resp.text().catch(() => '');
-    const err = new Error(`OpenAI error: ${resp.status} ${resp.statusText} ${text}`.trim());
+  if (!message) {
+    const err = new Error(`${provider.label} returned no content`);
     err.status = 502;
     throw err;
   }
+  return parseModelJSON(message);
+}
 
-  const data = await resp.json();
-  const message = data.choices?.[0]?.message?.content;
-  if (!message) {
-    const err = new Error('OpenAI returned no content');
-    err.status = 502;
-    throw err;
+// Generate a project, then feed compile/resolve diagnostics back to the model for a bounded number of repair rounds.
+// opts.onEvent(stage, data) reports progress; opts.onDelta(content, attempt) receives streamed tokens.
+async function generateWithRepair(prompt, opts) {
+  const onEvent = (opts && opts.onEvent) || (() => {});
+  const onDelta = opts && opts.onDelta;
+  let followUp = [];
+  let attempts = 0;
+  while (true) {
+    attempts++;
+    onEvent('upstream', { attempt: attempts });
+    const { spec, fixed } = applyLintFixes(await callModel(prompt, { ...opts, followUp, onDelta: onDelta && ((content) => onDelta(content, attempts)) }));
+    onEvent('validate', { attempt: attempts });
+    const diagnostics = [...fixed, ...validateProject(spec, opts && opts.lint)];
+    const errors = diagnostics.filter(d => d.severity === 'error');
+    if (!errors.length || attempts > MAX_REPAIR_ROUNDS) {
+      return { spec, validation: { ok: errors.length === 0, attempts, diagnostics } };
+    }
+    onEvent('repair', { attempt: attempts + 1, diagnostics: errors });
+    // Only the latest attempt is sent back so the conversation stays bounded
+    followUp = [
+      { role: 'assistant', content: JSON.stringify(spec) },
+      { role: 'user', content: `The project you returned does not compile. Fix every problem below and return the complete corrected project JSON in the same schema.\n\n${formatDiagnostics(errors)}` }
+    ];
   }
+}
 
-  let spec;
-  try {
-    spec = JSON.parse(message);
-  } catch (e) {
-    const err = new Error('Failed to parse JSON from model');
-    err.status = 502;
-    throw err;
+// Ask for edits to an existing project, apply them and validate the result. Compile errors introduced by the edits
+// go back to the model as a follow-up instruction against the edited files, like generateWithRepair does.
+async function refineWithRepair(project, instruction, thread, opts) {
+  const provider = opts.provider;
+  let current = project;
+  let request = instruction;
+  let history = thread;
+  const edits = [];
+  const summaries = [];
+  let attempts = 0;
+  while (true) {
+    attempts++;
+    const content = await provider.chat({
+      task: 'refine',
+      messages: refineMessages(current, request, history, opts.assets),
+      model: opts.modelOverride,
+      json: true,
+      signal: opts.signal,
+    });
+    const refinement = normalizeRefinement(parseModelJSON(content));
+    const linted = applyLintFixes(applySettings({ ...current, files: applyEdits(current.files, refinement.edits) }, refinement.settings));
+    current = linted.spec;
+    edits.push(...refinement.edits);
+    if (refinement.summary) summaries.push(refinement.summary);
+    const diagnostics = [...linted.fixed, ...validateProject(current)];
+    const errors = diagnostics.filter(d => d.severity === 'error');
+    if (!errors.length || attempts > MAX_REPAIR_ROUNDS || !refinement.edits.length) {
+      return { project: current, edits, summary: summaries.join(' '), validation: { ok: errors.length === 0, attempts, diagnostics } };
+    }
+    history = [...history, { instruction: request, summary: refinement.summary }];
+    request = `The project no longer compiles after your edits. Fix every problem below with further edits.\n\n${formatDiagnostics(errors)}`;
   }
-  return spec;
 }
 
-function buildParamFallback(project) {
-  const code = (project && project.files && project.files['src/MyComp.tsx']) || '';
-  const m = code.match(/>([^<]{3,40})<\//);
-  const name = m ? ('Block: ' + m[1].trim()) : 'Quick Block';
+// One entry of the "Blocks Context" section of a generation prompt. `inputs` is the result of prepareInputs for the
+// request; `index` is the block's position there when it differs from its number in the prompt.
+function describeBlock(b, i, inputs, index = i) {
+  // Image params hold public/ file names; an inline data URL from an older client would paste its bytes into the prompt
+  const shown = (v) => typeof v === 'string' && v.startsWith('data:') ? '"(inline image omitted)"' : JSON.stringify(v);
+  const p = (b.params || []).map(x => `${x.key}=${shown(x.value ?? x.default ?? null)}`).join(', ');
+  const files = (b.project && b.project.files) ? b.project.files : {};
+  const filesDump = Object.entries(files).map(([path, content])=>`--- ${path} ---\n${content}`).join('\n\n');
+  // Natural language effects based on explain templates (if provided)
+  const explains = (b.def && Array.isArray(b.def.params)) ? b.def.params.map((defParam)=>{
+    const val = (b.params || []).find(pp=>pp.key===defParam.key);
+    const v = (val && (val.value!=null ? val.value : val.default)) ?? defParam.default;
+    const tpl = String(defParam.explain || 'set ' + defParam.key + ' to {value}');
+    return tpl.replace('{value}', shown(v));
+  }).join('\n') : '';
+  // Include optional per-block context (URL or uploaded data)
+  const ctxUrl = b.context && (b.context.url || '');
+  const ctxPart = ctxUrl ? `\nContext URL: ${ctxUrl}` : '';
+  const document = inputs && inputs.documents[index];
+  const image = inputs && inputs.images.find(img => img.label.startsWith(`Block ${index + 1} (`));
+  const dataPart = document ? `\nContext Attachment (extracted text):\n${document}`
+    : image ? `\nContext Attachment: an image, attached to this message as "${image.label}"`
+    : '';
+  return `Block ${i+1}: ${b.name} (id:${b.id})\nParameters: ${p}${explains ? `\nEffects:\n${explains}` : ''}${ctxPart}${dataPart}${filesDump ? `\nFiles:\n${filesDump}` : ''}`;
+}
+
+// Turn a /api/generate request body into the augmented prompt, model and cache key (shared by the JSON and streaming
+// endpoints)
+function composeGeneration(json, log) {
+  const promptIn = String(json.prompt || '').trim();
+  const blocksIn = Array.isArray(json.blocks) ? json.blocks : [];
+  blockStore.recordUsage(blocksIn.map(b => b && b.id).filter(id => typeof id === 'string'));
+  const durationHintSec = Number(json.durationHintSec || 0);
+  const format = requestedFormat(json);
+  const brand = requestBrand(json);
+  const { provider, model } = modelConfig(providers, json, log);
+  const inputs = prepareInputs({ guidanceImage: json.guidanceImage, blocks: blocksIn }, inputLimits(provider));
+
+  // Compose augmented prompt
+  // If no prompt text but blocks exist, synthesize a concise base instruction
+  const basePrompt = promptIn || (blocksIn.length ? 'Create a Remotion video based on the following blocks and effects. Combine them coherently.' : '');
+  const blocksCtx = blocksIn.map((b, i) => describeBlock(b, i, inputs)).join('\n\n');
+  // Build augmented system/user message with optional duration hint
+  const augmented = [basePrompt,
+    inputs.images.some(img => img.label === 'Guidance image') ? 'Guidance image: attached to this message; match its look (layout, colors, typography).' : '',
+    blocksCtx ? `Blocks Context:\n${blocksCtx}` : '',
+    describeAssets(json.assets),
+    describeBrand(brand),
+    describeFormat(format),
+    durationHintSec ? `Target total duration: ~${durationHintSec} seconds. Use fps=30 to compute durationInFrames and allocate time proportionally across blocks.` : ''
+  ].filter(Boolean).join('\n\n');
+  const parts = { kind: 'project', provider: provider.id, model, system: PROJECT_SYSTEM_PROMPT, prompt: augmented, images: inputs.images, repairRounds: MAX_REPAIR_ROUNDS };
+  const label = basePrompt.split('\n')[0].slice(0, 80) || blocksIn.map(b => String(b && b.name || '')).join(', ').slice(0, 80);
+  return { augmented, images: inputs.images, inputs: inputs.inputs, model, provider, lint: brandLint(brand), cache: { key: cacheKey(parts), parts, meta: { kind: 'project', provider: provider.id, model, label } } };
+}
+
+// The stored brand kit, unless the request opts out with `brand: false`
+function requestBrand(json) {
+  return json.brand === false ? null : brandStore.get();
+}
+
+// Lint options that report colors outside the brand palette
+function brandLint(brand) {
+  return brand && brand.palette.length ? { palette: brandPalette(brand) } : undefined;
+}
+
+// One variant of a composed generation: the same prompt with its own sampling, so also its own cache entry
+function variantGeneration(generation, { index, seed, temperature }) {
+  const { parts, meta } = generation.cache;
+  return { ...generation, seed, temperature, cache: { key: cacheKey({ ...parts, seed, temperature }), parts, meta: { ...meta, label: `${meta.label} · variant ${index + 1}` } } };
+}
+
+function inputLimits(provider) {
+  return { vision: Boolean(provider.vision), maxSide: IMAGE_MAX_SIDE, maxChars: ATTACHMENT_MAX_CHARS };
+}
+
+// Storyboard mode: generate or reuse each scene on its own, then assemble them into one project.
+// Scenes come back with their key and files so the client can send them as `previous` next time; a scene whose
+// key still matches is reused unless `regenerate` is set. opts.onEvent(stage, data) reports progress.
+async function generateStoryboard(json, opts) {
+  const onEvent = opts.onEvent || (() => {});
+  const fps = Math.min(60, Math.max(1, Math.round(Number(json.fps) || 30)));
+  const width = Math.min(3840, Math.max(16, Math.round(Number(json.width) || 1920)));
+  const height = Math.min(3840, Math.max(16, Math.round(Number(json.height) || 1080)));
+  const brief = String(json.brief || '').trim();
+  const scenes = normalizeScenes(json.scenes, fps);
+  const brand = requestBrand(json);
+  const lint = brandLint(brand);
+  const { provider, model } = modelConfig(providers, json, opts.log);
+  blockStore.recordUsage(scenes.map(s => s.block.id).filter(id => typeof id === 'string'));
+
+  const finished = [];
+  const received = [];
+  let attempts = 0;
+  for (const [i, scene] of scenes.entries()) {
+    // A changed brand kit makes generated scenes stale, like a changed brief
+    const key = sceneKey(scene, [brief, describeBrand(brand)].filter(Boolean).join('\n\n'), { width, height, fps });
+    const name = String(scene.block.name || `Scene ${i + 1}`);
+    const props = blockSceneProps(scene);
+    let source, files;
+    if (props) {
+      source = 'block';
+      files = sceneFiles(scene.block.project.files);
+    } else if (scene.previous && scene.previous.key === key && !scene.regenerate) {
+      source = 'cached';
+      files = sceneFiles(scene.previous.files);
+    } else {
+      source = 'generated';
+      onEvent('scene', { index: i, id: scene.id, status: 'generating' });
+      const inputs = prepareInputs({ blocks: [scene.block] }, inputLimits(provider));
+      received.push(...inputs.inputs.map(input => ({ ...input, label: input.label.replace(/^Block 1/, `Scene ${i + 1}`) })));
+      const prompt = [
+        brief,
+        scene.notes,
+        brief || scene.notes ? '' : `Create a scene based on the block "${name}".`,
+        `Blocks Context:\n${describeBlock(scene.block, 0, inputs)}`,
+        describeAssets(json.assets),
+        describeBrand(brand),
+        describeFormat(width !== 1920 || height !== 1080 ? { width, height } : null),
+        `This is scene ${i + 1} of ${scenes.length} of a storyboard. Create only this scene as a complete composition; the scenes are joined with transitions afterwards, so do not fade in or out at its start or end.`,
+        `Target total duration: ~${scene.durationInFrames / fps} seconds. Use fps=${fps} and durationInFrames=${scene.durationInFrames}.`,
+      ].filter(Boolean).join('\n\n');
+      const result = await generateWithRepair(prompt, {
+        provider, modelOverride: model, signal: opts.signal, images: inputs.images, lint,
+        onEvent: (stage, data) => onEvent(stage, { ...data, scene: i }),
+      });
+      if (!isProjectShape(result.spec) || typeof result.spec.files['src/MyComp.tsx'] !== 'string') {
+        throw Object.assign(new Error(`Scene ${i + 1} (${name}): model returned unexpected format`), { status: 502, expose: true });
+      }
+      attempts += result.validation.attempts;
+      files = sceneFiles(result.spec.files);
+    }
+    onEvent('scene', { index: i, id: scene.id, status: 'done', source });
+    finished.push({ id: scene.id, key, source, name, files, props: props || {}, durationInFrames: scene.durationInFrames, transition: scene.transition, assets: props ? scene.block.project.assets : undefined });
+  }
+
+  onEvent('validate', {});
+  const project = assembleStoryboard(finished, { fps, width, height });
+  const diagnostics = validateProject(project, lint);
+  const validation = { ok: !diagnostics.some(d => d.severity === 'error'), attempts: Math.max(1, attempts), diagnostics };
   return {
-    id: 'blk_' + Math.random().toString(36).slice(2,10),
-    name,
-    params: [
-      { name: 'colorPrimary', type: 'color', default: '#6ea8fe', explain: 'make the primary color {value}' },
-      { name: 'title', type: 'text', default: 'Hello', explain: 'set the title text to {value}' },
-      { name: 'speed', type: 'number', default: 1, explain: 'set the animation speed to {value}' }
-    ]
+    project: { ...project, validation },
+    scenes: finished.map(({ id, key, source, files }) => ({ id, key, source, files })),
+    inputs: received,
+    provider: provider.id,
+    model,
   };
 }
 
+// generateWithRepair through the generation cache; only answers of the right shape are stored
+async function cachedGeneration(generation, opts, log) {
+  const answer = await generationCache.run(generation.cache.key, generation.cache.meta, () => generateWithRepair(generation.augmented, {
+    provider: generation.provider,
+    modelOverride: generation.model,
+    images: generation.images,
+    seed: generation.seed,
+    temperature: generation.temperature,
+    lint: generation.lint,
+    ...opts,
+  }), (result) => isProjectShape(result.spec));
+  if (answer.cache.status !== 'off') log.info('cache', { kind: 'project', status: answer.cache.status, key: answer.cache.key });
+  return answer;
+}
+
+function isProjectShape(spec) {
+  return Boolean(spec && spec.kind === 'remotion-project' && spec.files && typeof spec.files === 'object' && typeof spec.files['src/index.ts'] === 'string' && typeof spec.files['src/Root.tsx'] === 'string');
+}
+
+function devFallbackEnabled() {
+  return DEV_FALLBACK === '1' || DEV_FALLBACK === 'true' || DEV_FALLBACK === 'on';
+}
+
+// DEV_FALLBACK: when the selected provider fails, answer with the offline provider instead
+async function generateOffline(augmented, log) {
+  const { spec, validation } = await generateWithRepair(augmented, { provider: scopeProvider(providers.get('offline'), log) });
+  return { ...spec, validation };
+}
+
 function serveStatic(req, res) {
   // Serve Vite build if present, otherwise legacy index.html at repo root
   let reqPath = decodeURIComponent(new URL(req.url, `http://${req.headers.host}`).pathname);
@@ -357,22 +621,69 @@ function serveStatic(req, res) {
       ext === '.svg' ? 'image/svg+xml' :
       'application/octet-stream'
     );
-    res.writeHead(200, { 'Content-Type': type });
+    // The preview sandbox has an opaque origin, so its module scripts are cross-origin requests (Origin: null)
+    res.writeHead(200, { 'Content-Type': type, 'Access-Control-Allow-Origin': '*' });
     res.end(buf);
   });
 }
 
+// System prompt of /api/blocks/params
+const BLOCK_PARAMS_SYSTEM_PROMPT = `Analyze the given Remotion project files and extract exactly 3 high-impact, user-facing parameters that best control the animation (for example: color, speed/duration, title/text, size). Return ONLY JSON in this shape:
+{
+  id: string,
+  name: string, // concise human-readable block name
+  params: [
+    { name: string, type: 'color'|'text'|'number'|'select'|'boolean'|'font'|'easing'|'duration'|'image', default: any, explain: string,
+      min?: number, max?: number, step?: number, unit?: string, // number and duration only
+      options?: string[] } // select only
+  ]
+}
+Types:
+- color: a hex color such as "#6ea8fe". text: any string. boolean: true or false (e.g. whether a progress bar is shown).
+- number: give min, max and step for the range that makes sense in the animation, and a unit when there is one (e.g. "px", "°", "x").
+- duration: a length of time in seconds (e.g. how long the intro lasts); give min and max, unit "s".
+- select: a fixed set of choices such as a layout or direction; list every value in options, default must be one of them.
+- font: a CSS font-family such as "Inter, sans-serif". easing: a CSS easing such as "ease-in-out" or "cubic-bezier(0.34, 1.56, 0.64, 1)".
+- image: a URL of an image used in the code, or a file name under public/ used with staticFile().
+Rules:
+- The 3 parameters must be specific to the animation semantics found in the code.
+- When a brand kit is given, prefer parameters it covers (colors, fonts, the brand name); their defaults still come from the code, the brand kit's values are applied afterwards.
+- Each name must be a camelCase identifier: it becomes a prop of MyComp. If the code declares a constant for the value (e.g. const speed = 1), use that constant's name.
+- Each default must be the value exactly as it appears in the code (e.g. the same hex color string or title text), so it can be replaced by the prop.
+- The explain string must be a short natural-language sentence template describing how the parameter modifies the block, and must include the placeholder {value} where the value will be substituted (e.g., "make the color of the square {value}" or "set the spin speed to {value}").`;
+
+// 401 and 429 answers from the access checks, with their WWW-Authenticate or Retry-After header
+function sendRejection(res, err) {
+  for (const [name, value] of Object.entries(err.headers || {})) res.setHeader(name, value);
+  sendJSON(res, err.status, { error: err.message });
+}
+
 const server = http.createServer(async (req, res) => {
+  const ctx = createRequestContext(req, res, logger);
   try {
     const { method, url } = req;
-    // Basic CORS support for dev if served from a different origin
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-    if (method === 'OPTIONS') { res.writeHead(204); res.end(); return; }
+    if (access.cors(req, res)) return;
+    try { new URL(url, 'http://localhost'); } catch { return sendJSON(res, 400, { error: 'Malformed request URL' }); }
 
+    // Health tells the web app whether it has to ask for an API key, so it answers without one
     if (method === 'GET' && url.startsWith('/api/health')) {
-      sendJSON(res, 200, { ok: true, model: OPENAI_MODEL, hasKey: Boolean(OPENAI_API_KEY) });
+      sendJSON(res, 200, { ok: true, model: providers.get().model, hasKey: Boolean(OPENAI_API_KEY), provider: providers.defaultId, providers: providers.list(), auth: access.authRequired, limits: access.limits, variants: { max: MAX_VARIANTS, concurrency: VARIANT_CONCURRENCY }, images: { maxSide: IMAGE_MAX_SIDE } });
+      return;
+    }
+
+    // Stored assets are content-addressed (unguessable URLs) and loaded by <img>/<audio> tags, which cannot send a key
+    if (url.startsWith('/api/') && !(method === 'GET' && /^\/api\/assets\/[a-f0-9]{64}\/?(?:\?.*)?$/.test(url))) {
+      try {
+        ctx.client = access.identify(req, new URL(url, 'http://localhost'));
+        if (method === 'POST' && LIMITED_ROUTE.test(url)) res.on('close', access.acquire(ctx.client));
+      } catch (e) {
+        return sendRejection(res, e);
+      }
+    }
+
+    // Configuration files a project export needs around src/ and public/
+    if (method === 'GET' && url.startsWith('/api/scaffold')) {
+      sendJSON(res, 200, { files: readScaffold(studioDir) });
       return;
     }
 
@@ -384,122 +695,349 @@ const server = http.createServer(async (req, res) => {
       if (!project || !project.files || typeof project.files['src/MyComp.tsx'] !== 'string') {
         return sendJSON(res, 400, { error: 'Missing project files' });
       }
+      let provider;
+      try { ({ provider } = modelConfig(providers, json, ctx.log)); } catch (e) { return sendJSON(res, 400, { error: e.message }); }
+      const brand = requestBrand(json);
+      // Bind the params as props of MyComp so the client can change them without regenerating; defaults come from
+      // the brand kit where it has a matching color, font or name
+      const withProps = (def) => {
+        const params = brandParamDefaults(normalizeParamDefs(def.params), brand);
+        const result = parameterizeProject(project, params);
+        const defs = params.map(({ codeValue: _code, ...p }) => p);
+        if (!result) return { ...def, params: defs.map(p => ({ ...p, bound: false })) };
+        return { ...def, params: defs.map(p => ({ ...p, bound: Boolean(result.bound[p.name || p.key]) })), project: result.project };
+      };
+      try {
+        const brandContext = brand && { name: brand.name, palette: brand.palette, typography: brand.typography, motion: brand.motion };
+        const user = JSON.stringify(brand ? { brand: brandContext, files: project.files } : { files: project.files }).slice(0,12000);
+        const key = cacheKey({ kind: 'block-params', provider: provider.id, model: provider.fastModel, system: BLOCK_PARAMS_SYSTEM_PROMPT, prompt: user });
+        const { result: content, cache } = await generationCache.run(key, { kind: 'block-params', provider: provider.id, model: provider.fastModel, label: 'Block params' }, () => provider.chat({
+          task: 'block-params',
+          messages: [ {role:'system', content: BLOCK_PARAMS_SYSTEM_PROMPT}, {role:'user', content: user} ],
+          model: provider.fastModel,
+          json: true,
+        }), (content) => Boolean(content));
+        res.setHeader('X-Cache', cache.status.toUpperCase());
+        if (cache.status !== 'off') ctx.log.info('cache', { kind: 'block-params', status: cache.status, key });
+        const parsed = parseModelJSON(content);
+        // Always fallback to keep UX smooth
+        if (!parsed || typeof parsed !== 'object') return sendJSON(res, 200, withProps(synthesizeBlockParams(project)));
+        if (!parsed.id) parsed.id = `blk_${Math.random().toString(36).slice(2,10)}`;
+        return sendJSON(res, 200, { ...withProps(parsed), cache });
+      } catch (e) {
+        ctx.log.warn('block params failed, using the offline synthesis', { error: e });
+        return sendJSON(res, 200, withProps(synthesizeBlockParams(project)));
+      }
+    }
+
+    // Generation cache: GET /api/cache (entries without their answers), DELETE /api/cache/:key,
+    // DELETE /api/cache[?kind=project|block-params][&before=<ISO date>]
+    const cacheRoute = url.match(/^\/api\/cache(?:\/([a-f0-9]{64}))?\/?(?:\?.*)?$/);
+    if (cacheRoute) {
+      const [, key] = cacheRoute;
+      const query = new URL(url, 'http://localhost').searchParams;
+      if (method === 'GET' && !key) {
+        const entries = generationCache.list();
+        return sendJSON(res, 200, { mode: generationCache.mode, count: entries.length, bytes: entries.reduce((n, e) => n + e.size, 0), entries });
+      }
+      if (method === 'DELETE' && key) {
+        return generationCache.evict(key) ? sendJSON(res, 200, { ok: true, removed: 1 }) : sendJSON(res, 404, { error: 'Unknown cache entry' });
+      }
+      if (method === 'DELETE' && !key) {
+        const removed = generationCache.clear({ kind: query.get('kind') || undefined, before: query.get('before') || undefined });
+        ctx.log.info('cache cleared', { removed, kind: query.get('kind') || undefined, before: query.get('before') || undefined });
+        return sendJSON(res, 200, { ok: true, removed });
+      }
+      return sendText(res, 405, 'Method Not Allowed');
+    }
+
+    // Block library: GET/POST /api/blocks, GET/PUT/DELETE /api/blocks/:id, POST /api/blocks/:id/restore
+    // (/api/blocks/params is handled above)
+    const blockRoute = url.match(/^\/api\/blocks(?:\/([\w-]+)(?:\/(restore))?)?\/?(?:\?.*)?$/);
+    if (blockRoute) {
+      const [, id, action] = blockRoute;
+      const readJSON = async () => {
+        const raw = await readBody(req);
+        try { return JSON.parse(raw || '{}'); }
+        catch { throw Object.assign(new Error('Invalid JSON'), { status: 400, expose: true }); }
+      };
       try {
-        if (!OPENAI_API_KEY) {
-          // No key configured: return a deterministic fallback so UX works in demos
-          return sendJSON(res, 200, buildParamFallback(project));
+        if (method === 'GET' && !id) {
+          const query = new URL(url, 'http://localhost').searchParams;
+          return sendJSON(res, 200, { blocks: blockStore.list({ q: query.get('q'), tag: query.get('tag'), sort: query.get('sort') }), tags: blockStore.tags() });
         }
-        // Use faster model via callOpenAI with a specialized prompt inline to keep code simple
-        const fastModel = process.env.OPENAI_FAST_MODEL || 'gpt-5-nano';
-        const sys = `Analyze the given Remotion project files and extract exactly 3 high-impact, user-facing parameters that best control the animation (for example: color, speed/duration, title/text, size). Return ONLY JSON in this shape:
-{
-  id: string,
-  name: string, // concise human-readable block name
-  params: [
-    { name: string, type: 'color'|'text'|'number'|'select', default: any, explain: string }
-  ]
-}
-Rules:
-- The 3 parameters must be specific to the animation semantics found in the code.
-- The explain string must be a short natural-language sentence template describing how the parameter modifies the block, and must include the placeholder {value} where the value will be substituted (e.g., "make the color of the square {value}" or "set the spin speed to {value}").`;
-        const body = { model: fastModel, messages: [ {role:'system', content: sys}, {role:'user', content: JSON.stringify({ files: project.files }).slice(0,12000)} ], response_format: {type:'json_object'}};
-        const resp = await fetch('https://api.openai.com/v1/chat/completions', { method:'POST', headers:{'Content-Type':'application/json','Authorization':`Bearer ${OPENAI_API_KEY}`}, body: JSON.stringify(body) });
-        if (!resp.ok){
-          // Always fallback to keep UX smooth
-          return sendJSON(res, 200, buildParamFallback(project));
+        if (method === 'POST' && !id) return sendJSON(res, 201, blockStore.create(await readJSON()));
+        if (method === 'GET' && id && !action) return sendJSON(res, 200, blockStore.get(id));
+        if (method === 'PUT' && id && !action) return sendJSON(res, 200, blockStore.update(id, await readJSON()));
+        if (method === 'DELETE' && id && !action) { blockStore.remove(id); return sendJSON(res, 200, { ok: true }); }
+        if (method === 'POST' && action === 'restore') return sendJSON(res, 200, blockStore.restore(id, (await readJSON()).version));
+        return sendText(res, 405, 'Method Not Allowed');
+      } catch (e) {
+        if (e.code === 'PAYLOAD_TOO_LARGE') return sendJSON(res, 413, { error: 'Payload too large' });
+        if (!e.expose) ctx.log.error('block store failed', { error: e });
+        return sendJSON(res, e.status || 500, { error: e.expose ? e.message : 'Server error' });
+      }
+    }
+
+    // Brand kit: GET /api/brand, PUT /api/brand (the whole kit), DELETE /api/brand
+    if (/^\/api\/brand\/?(?:\?.*)?$/.test(url)) {
+      if (method === 'GET') return sendJSON(res, 200, { brand: brandStore.get() });
+      if (method === 'PUT') {
+        const raw = await readBody(req);
+        let json;
+        try { json = JSON.parse(raw || '{}'); }
+        catch { return sendJSON(res, 400, { error: 'Invalid JSON' }); }
+        try {
+          const brand = brandStore.set(json);
+          ctx.log.info('brand kit saved', { colors: brand.palette.length, logo: Boolean(brand.logo) });
+          return sendJSON(res, 200, { brand });
+        } catch (e) {
+          if (!e.expose) ctx.log.error('brand kit failed', { error: e });
+          return sendJSON(res, e.status || 500, { error: e.expose ? e.message : 'Server error' });
         }
+      }
+      if (method === 'DELETE') return sendJSON(res, 200, { ok: true, removed: brandStore.clear() });
+      return sendText(res, 405, 'Method Not Allowed');
+    }
+
+    // Asset store: POST /api/assets (raw bytes, Content-Type of the file), GET /api/assets/:hash
+    const assetRoute = url.match(/^\/api\/assets(?:\/([a-f0-9]{64}))?\/?(?:\?.*)?$/);
+    if (assetRoute) {
+      const [, hash] = assetRoute;
+      if (method === 'POST' && !hash) {
+        try {
+          const bytes = await readRawBody(req, assetStore.maxBytes);
+          return sendJSON(res, 201, assetStore.put(bytes, req.headers['content-type']));
+        } catch (e) {
+          if (e.code === 'PAYLOAD_TOO_LARGE') return sendJSON(res, 413, { error: 'Asset too large' });
+          if (!e.expose) ctx.log.error('asset store failed', { error: e });
+          return sendJSON(res, e.status || 500, { error: e.expose ? e.message : 'Server error' });
+        }
+      }
+      if (method === 'GET' && hash) {
+        const asset = assetStore.get(hash);
+        if (!asset) return sendJSON(res, 404, { error: 'Unknown asset' });
+        // Content-addressed, so the bytes behind a URL never change. Uploads are served from the app's origin without
+        // a key, so an opened document (an SVG with a script, HTML sniffed from text) must not run in it.
+        res.writeHead(200, {
+          'Content-Type': asset.type,
+          'Content-Length': asset.size,
+          'Cache-Control': 'public, max-age=31536000, immutable',
+          'Content-Security-Policy': "sandbox; default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'",
+          'X-Content-Type-Options': 'nosniff',
+        });
+        fs.createReadStream(asset.path).pipe(res);
+        return;
+      }
+      return sendText(res, 405, 'Method Not Allowed');
+    }
+
+    // Render jobs: POST /api/render | /api/still, GET /api/render[/:id[/file]], POST /api/render/:id/cancel
+    const renderRoute = url.match(/^\/api\/(render|still)(?:\/([\w-]+)(?:\/(file|cancel))?)?\/?(?:\?.*)?$/);
+    if (renderRoute) {
+      const [, kind, id, action] = renderRoute;
+      if (method === 'POST' && !id) {
+        const raw = await readBody(req);
+        let json;
+        try { json = JSON.parse(raw || '{}'); }
+        catch { return sendJSON(res, 400, { error: 'Invalid JSON' }); }
         try {
-          const data = await resp.json();
-          const content = data.choices?.[0]?.message?.content;
-          if (!content) return sendJSON(res, 200, buildParamFallback(project));
-          let parsed = JSON.parse(content);
-          if (!parsed || typeof parsed !== 'object') return sendJSON(res, 200, buildParamFallback(project));
-          if (!parsed.id) parsed.id = `blk_${Math.random().toString(36).slice(2,10)}`;
-          return sendJSON(res, 200, parsed);
-        } catch {
-          return sendJSON(res, 200, buildParamFallback(project));
+          const format = kind === 'still' ? 'png' : String(json.format || 'mp4');
+          return sendJSON(res, 202, renders.enqueue({ project: json.project, format, frame: json.frame, inputProps: json.inputProps, requestId: ctx.id }));
+        } catch (e) {
+          return sendJSON(res, e.status || 500, { error: e.expose ? e.message : 'Server error' });
         }
+      }
+      if (kind === 'render' && method === 'GET' && !id) return sendJSON(res, 200, { jobs: renders.list() });
+      if (kind === 'render' && method === 'GET' && id && !action) {
+        const job = renders.get(id);
+        return job ? sendJSON(res, 200, job) : sendJSON(res, 404, { error: 'Unknown render job' });
+      }
+      if (kind === 'render' && method === 'POST' && action === 'cancel') {
+        const job = renders.cancel(id);
+        return job ? sendJSON(res, 200, job) : sendJSON(res, 404, { error: 'Unknown render job' });
+      }
+      if (kind === 'render' && method === 'GET' && action === 'file') {
+        const output = renders.output(id);
+        if (!output) return sendJSON(res, 404, { error: 'Render output not available' });
+        const stat = fs.statSync(output.path);
+        res.writeHead(200, {
+          'Content-Type': output.type,
+          'Content-Length': stat.size,
+          'Content-Disposition': `attachment; filename="${output.name}"`
+        });
+        fs.createReadStream(output.path).pipe(res);
+        return;
+      }
+      return sendText(res, 405, 'Method Not Allowed');
+    }
+
+    // Adapt a project to more output formats: one composition per format in src/Root.tsx, no model call
+    if (method === 'POST' && url.startsWith('/api/formats')) {
+      const raw = await readBody(req);
+      let json;
+      try { json = JSON.parse(raw || '{}'); }
+      catch { return sendJSON(res, 400, { error: 'Invalid JSON' }); }
+      if (!isProjectShape(json.project)) return sendJSON(res, 400, { error: 'Missing project files' });
+      try {
+        const { validation: _previous, ...project } = json.project;
+        const result = adaptProjectFormats(project, json.formats);
+        const diagnostics = validateProject(result.project);
+        sendJSON(res, 200, { project: { ...result.project, validation: { ok: !diagnostics.some(d => d.severity === 'error'), attempts: 1, diagnostics } }, fitted: result.fitted });
       } catch (e) {
-        console.error('Param model error', e);
-        return sendJSON(res, 200, buildParamFallback(project));
+        sendJSON(res, e.status || 500, { error: e.expose ? e.message : 'Server error' });
       }
+      return;
     }
 
-    if (method === 'POST' && url.startsWith('/api/generate')) {
+    if (method === 'POST' && url.startsWith('/api/refine')) {
       const raw = await readBody(req);
       let json;
       try { json = JSON.parse(raw || '{}'); }
       catch { return sendJSON(res, 400, { error: 'Invalid JSON' }); }
+      const instruction = String(json.instruction || '').trim();
+      if (!isProjectShape(json.project)) return sendJSON(res, 400, { error: 'Missing project files' });
+      if (!instruction) return sendJSON(res, 400, { error: 'Missing instruction' });
+      try {
+        const { provider, model } = modelConfig(providers, json, ctx.log);
+        const { validation: _previous, ...project } = json.project;
+        const result = await refineWithRepair(project, instruction, Array.isArray(json.thread) ? json.thread : [], { provider, modelOverride: model, assets: json.assets });
+        sendJSON(res, 200, { project: { ...result.project, validation: result.validation }, edits: result.edits, summary: result.summary, provider: provider.id, model });
+      } catch (e) {
+        ctx.log.error('refine failed', { error: e });
+        const status = e.status || 500;
+        sendJSON(res, status === 500 ? 502 : status, { error: e.expose ? e.message : 'Upstream error' });
+      }
+      return;
+    }
+
+    if (method === 'POST' && url.startsWith('/api/storyboard/stream')) {
+      const raw = await readBody(req, INPUT_MAX_BYTES);
+      let json;
+      try { json = JSON.parse(raw || '{}'); }
+      catch { return sendJSON(res, 400, { error: 'Invalid JSON' }); }
+      try { normalizeScenes(json.scenes, 30); providers.get(json.provider); }
+      catch (e) { return sendJSON(res, e.status || 400, { error: e.message }); }
+
+      const events = openEventStream(res);
+      const upstream = new AbortController();
+      res.on('close', () => { if (!res.writableEnded) upstream.abort(); });
+      try {
+        const result = await generateStoryboard(json, { log: ctx.log, signal: upstream.signal, onEvent: (stage, data) => events.send(stage, data) });
+        events.send('done', result);
+      } catch (e) {
+        if (upstream.signal.aborted) return events.close();
+        ctx.log.error('storyboard failed', { error: e });
+        events.send('error', { error: e.expose ? e.message : 'Upstream error' });
+      }
+      events.close();
+      return;
+    }
+
+    if (method === 'POST' && url.startsWith('/api/generate/variants/stream')) {
+      const raw = await readBody(req, INPUT_MAX_BYTES);
+      let json;
+      try { json = JSON.parse(raw || '{}'); }
+      catch { return sendJSON(res, 400, { error: 'Invalid JSON' }); }
+      let generation, samplings;
+      try { samplings = variantSamplings(json, MAX_VARIANTS); generation = composeGeneration(json, ctx.log); }
+      catch (e) { return sendJSON(res, e.status || 400, { error: e.message }); }
+
+      const events = openEventStream(res);
+      const upstream = new AbortController();
+      res.on('close', () => { if (!res.writableEnded) upstream.abort(); });
+      events.send('prompt', { provider: generation.provider.id, model: generation.model, chars: generation.augmented.length, inputs: generation.inputs, variants: samplings });
+      // Variants are independent: one that fails is reported and the others still finish
+      const exposed = (e) => (e && e.expose ? e.message : 'Upstream error');
+      const results = await mapSettled(samplings, VARIANT_CONCURRENCY, async (sampling) => {
+        if (upstream.signal.aborted) throw Object.assign(new Error('Aborted'), { name: 'AbortError' });
+        events.send('variant', { index: sampling.index, status: 'generating' });
+        try {
+          const { result: { spec, validation }, cache } = await cachedGeneration(variantGeneration(generation, sampling), {
+            signal: upstream.signal,
+            onEvent: (stage, data) => events.send(stage, { ...data, variant: sampling.index }),
+          }, ctx.log);
+          if (!isProjectShape(spec)) throw Object.assign(new Error('Model returned unexpected format'), { status: 502, expose: true });
+          const variant = { ...sampling, project: { ...spec, validation }, cache };
+          events.send('variant', { ...variant, status: 'done' });
+          return variant;
+        } catch (e) {
+          if (!upstream.signal.aborted) {
+            ctx.log.error('variant failed', { error: e, variant: sampling.index });
+            events.send('variant', { ...sampling, status: 'error', error: exposed(e) });
+          }
+          throw e;
+        }
+      });
+      if (upstream.signal.aborted) return events.close();
+      const variants = results.map((r, i) => r.value || { ...samplings[i], error: exposed(r.error) });
+      ctx.log.info('variants', { count: variants.length, failed: variants.filter(v => v.error).length });
+      if (variants.every(v => v.error)) events.send('error', { error: variants[0].error });
+      else events.send('done', { variants, inputs: generation.inputs, provider: generation.provider.id, model: generation.model });
+      events.close();
+      return;
+    }
 
-      const promptIn = String(json.prompt || '').trim();
-      const guidanceImage = typeof json.guidanceImage === 'string' ? json.guidanceImage : '';
-      if (guidanceImage && guidanceImage.length > 2 * 1024 * 1024) {
-        return sendJSON(res, 413, { error: 'Guidance image too large (max ~2MB as data URL)' });
+    if (method === 'POST' && url.startsWith('/api/generate/stream')) {
+      const raw = await readBody(req, INPUT_MAX_BYTES);
+      let json;
+      try { json = JSON.parse(raw || '{}'); }
+      catch { return sendJSON(res, 400, { error: 'Invalid JSON' }); }
+      let generation;
+      try { generation = composeGeneration(json, ctx.log); }
+      catch (e) { return sendJSON(res, e.status || 400, { error: e.message }); }
+
+      const events = openEventStream(res);
+      // Closing the response before we end it means the client cancelled: abort the upstream request
+      const upstream = new AbortController();
+      res.on('close', () => { if (!res.writableEnded) upstream.abort(); });
+      events.send('prompt', { provider: generation.provider.id, model: generation.model, chars: generation.augmented.length, inputs: generation.inputs });
+      let lastTokens = 0;
+      try {
+        const { result: { spec, validation }, cache } = await cachedGeneration(generation, {
+          signal: upstream.signal,
+          onEvent: (stage, data) => events.send(stage, data),
+          onDelta: (content, attempt) => {
+            const now = Date.now();
+            if (now - lastTokens < 150) return;
+            lastTokens = now;
+            events.send('tokens', { attempt, chars: content.length, files: extractPartialFiles(content) });
+          }
+        }, ctx.log);
+        if (!isProjectShape(spec)) events.send('error', { error: 'Model returned unexpected format', validation });
+        else events.send('done', { project: { ...spec, validation }, inputs: generation.inputs, cache });
+      } catch (e) {
+        if (upstream.signal.aborted) return events.close();
+        ctx.log.error('generation failed', { error: e, fallback: devFallbackEnabled() && generation.provider.id !== 'offline' });
+        if (devFallbackEnabled() && generation.provider.id !== 'offline') events.send('done', { project: await generateOffline(generation.augmented, ctx.log), fallback: true });
+        else events.send('error', { error: e.expose ? e.message : 'Upstream error' });
       }
-      const blocksIn = Array.isArray(json.blocks) ? json.blocks : [];
-      const durationHintSec = Number(json.durationHintSec || 0);
-      const fast = Boolean(json.fast);
+      events.close();
+      return;
+    }
 
-      // Optional: allow passing model override (supports fast model)
-      const model = String(json.model || (fast ? (process.env.OPENAI_FAST_MODEL || 'gpt-5-nano') : OPENAI_MODEL));
-      process.env.OPENAI_MODEL = model; // set for callOpenAI
+    if (method === 'POST' && url.startsWith('/api/generate')) {
+      const raw = await readBody(req, INPUT_MAX_BYTES);
+      let json;
+      try { json = JSON.parse(raw || '{}'); }
+      catch { return sendJSON(res, 400, { error: 'Invalid JSON' }); }
 
+      let generation;
       try {
-        // Compose augmented prompt
-        // If no prompt text but blocks exist, synthesize a concise base instruction
-        const basePrompt = promptIn || (blocksIn.length ? 'Create a Remotion video based on the following blocks and effects. Combine them coherently.' : '');
-        const blocksCtx = blocksIn.map((b, i) => {
-          const p = (b.params || []).map(x => `${x.key}=${JSON.stringify(x.value ?? x.default ?? null)}`).join(', ');
-          const files = (b.project && b.project.files) ? b.project.files : {};
-          const filesDump = Object.entries(files).map(([path, content])=>`--- ${path} ---\n${content}`).join('\n\n');
-          // Natural language effects based on explain templates (if provided)
-          const explains = (b.def && Array.isArray(b.def.params)) ? b.def.params.map((defParam)=>{
-            const val = (b.params || []).find(pp=>pp.key===defParam.key);
-            const v = (val && (val.value!=null ? val.value : val.default)) ?? defParam.default;
-            const tpl = String(defParam.explain || 'set ' + defParam.key + ' to {value}');
-            return tpl.replace('{value}', JSON.stringify(v));
-          }).join('\n') : '';
-          // Include optional per-block context (URL or uploaded data)
-          const ctxUrl = b.context && (b.context.url || '');
-          const ctxData = b.context && (b.context.data || '');
-          const ctxPart = ctxUrl ? `\nContext URL: ${ctxUrl}` : '';
-          const dataPart = ctxData ? (`\nContext Attachment (data URL start):\n${String(ctxData).slice(0,500)}...`) : '';
-          return `Block ${i+1}: ${b.name} (id:${b.id})\nParameters: ${p}${explains ? `\nEffects:\n${explains}` : ''}${ctxPart}${dataPart}${filesDump ? `\nFiles:\n${filesDump}` : ''}`;
-        }).join('\n\n');
-        // Build augmented system/user message with optional duration hint
-        const augmented = [basePrompt,
-          guidanceImage ? `Guidance image (data URL follows):\n${guidanceImage}` : '',
-          blocksCtx ? `Blocks Context:\n${blocksCtx}` : '',
-          durationHintSec ? `Target total duration: ~${durationHintSec} seconds. Use fps=${OPENAI_MODEL? '30' : '30'} to compute durationInFrames and allocate time proportionally across blocks.` : ''
-        ].filter(Boolean).join('\n\n');
-
-        let spec = await callOpenAI(augmented, { modelOverride: model });
+        generation = composeGeneration(json, ctx.log);
+        const { result: { spec, validation }, cache } = await cachedGeneration(generation, {}, ctx.log);
+        res.setHeader('X-Cache', cache.status.toUpperCase());
         // Validate Remotion project shape
-        const valid = spec && spec.kind === 'remotion-project' && spec.files && typeof spec.files === 'object' && typeof spec.files['src/index.ts'] === 'string' && typeof spec.files['src/Root.tsx'] === 'string';
-        if (!valid) {
-          return sendJSON(res, 502, { error: 'Model returned unexpected format' });
+        if (!isProjectShape(spec)) {
+          return sendJSON(res, 502, { error: 'Model returned unexpected format', validation });
         }
-        sendJSON(res, 200, spec);
+        sendJSON(res, 200, { ...spec, validation, inputs: generation.inputs, cache });
       } catch (e) {
-        // Log the full error server-side for debugging
-        console.error('OpenAI proxy error:', e && (e.stack || e));
+        ctx.log.error('generation failed', { error: e, fallback: Boolean(generation && generation.provider.id !== 'offline' && devFallbackEnabled()) });
         // Optional dev fallback when upstream is unreachable or blocked
-        if (DEV_FALLBACK === '1' || DEV_FALLBACK === 'true' || DEV_FALLBACK === 'on') {
+        if (generation && generation.provider.id !== 'offline' && devFallbackEnabled()) {
           res.setHeader('X-Backend-Fallback', '1');
-          const fallback = {
-            kind: 'remotion-project',
-            files: {
-              'src/index.ts': "import {registerRoot} from 'remotion';\nimport {Root} from './Root';\nregisterRoot(Root);\n",
-              'src/Root.tsx': "import React from 'react';\nimport {Composition} from 'remotion';\nimport {MyComp} from './MyComp';\nexport const Root: React.FC = () => {\n  return (\n    <>\n      <Composition id=\"MyComp\" component={MyComp} durationInFrames={150} width={1920} height={1080} fps={30} defaultProps={{}} />\n    </>\n  );\n};\n",
-              'src/MyComp.tsx': "import React from 'react';\nimport {AbsoluteFill, interpolate, useCurrentFrame, useVideoConfig} from 'remotion';\nexport const MyComp: React.FC = () => {\n  const frame = useCurrentFrame();\n  const {durationInFrames} = useVideoConfig();\n  const progress = interpolate(frame, [0, durationInFrames], [0, 100], {extrapolateLeft: 'clamp', extrapolateRight: 'clamp'});\n  return (\n    <AbsoluteFill style={{background: 'linear-gradient(135deg,#0b0f14,#0a0e15)'}}>\n      <div style={{display:'flex',height:'100%',alignItems:'center',justifyContent:'center',gap:20}}>{[0,1,2].map(i=>{\n        const y = interpolate(frame + i*5, [0, 30, 60], [0, -40, 0], {extrapolateLeft:'clamp', extrapolateRight:'clamp'});\n        return <div key={i} style={{width:80,height:80,borderRadius:16,background:i===1?'#a07bff':'#6ea8fe', transform:`translateY(${y}px)`}}/>;})}</div>\n      <div style={{position:'absolute', left:20, right:20, bottom:30, height:10, border:'1px solid rgba(255,255,255,0.3)', borderRadius:6}}>\n        <div style={{height:'100%', width: progress + '%', background:'#6ea8fe', borderRadius:6}}/>\n      </div>\n    </AbsoluteFill>\n  );\n};\n"
-            },
-            compositionId: 'MyComp',
-            width: 1920,
-            height: 1080,
-            fps: 30,
-            durationInFrames: 150,
-          };
-          return sendJSON(res, 200, fallback);
+          return sendJSON(res, 200, await generateOffline(generation.augmented, ctx.log));
         }
         const status = e.status || 500;
         const expose = e.expose || false;
@@ -516,10 +1054,13 @@ Rules:
 
     sendText(res, 405, 'Method Not Allowed');
   } catch (e) {
-    try { sendJSON(res, 500, { error: 'Server error' }); } catch(_) {}
+    if (!(e && e.code === 'PAYLOAD_TOO_LARGE')) ctx.log.error('request failed', { error: e });
+    try { sendJSON(res, e && e.code === 'PAYLOAD_TOO_LARGE' ? 413 : 500, { error: e && e.code === 'PAYLOAD_TOO_LARGE' ? 'Payload too large' : 'Server error' }); } catch(_) {}
   }
 });
 
-server.listen(PORT, HOST, () => {
-  console.log(`Server listening on http://${HOST}:${PORT}`);
-});
+loadLinter()
+  .catch((e) => logger.warn('lint rules not loaded, continuing without them', { error: e }))
+  .then(() => server.listen(PORT, HOST, () => {
+    logger.info('listening', { url: `http://${HOST}:${PORT}`, provider: providers.defaultId, auth: access.authRequired, ...access.limits });
+  }));
@@ -0,0 +1,130 @@
+// Who may call the API and how much: optional API keys, CORS origins, and per-client rate and concurrency limits
+// for the expensive routes (model calls and renders). Everything is off or permissive by default except the limits,
+// so a local checkout keeps working without configuration.
+//
+//   API_KEYS                comma-separated keys; when set, /api/* needs `Authorization: Bearer <key>` or `X-API-Key`
+//                           (GET requests may pass ?api_key=, for links such as render downloads)
+//   CORS_ORIGINS            comma-separated origins allowed to call the API from another origin, or *; unset means
+//                           same-origin only (the Vite dev server proxies /api, so it needs none)
+//   RATE_LIMIT_PER_MINUTE   expensive requests per client per minute (default 30, 0 disables)
+//   MAX_CONCURRENT_PER_CLIENT  expensive requests a client may have running at once (default 2, 0 disables)
+//   TRUST_PROXY             1 to take the client address from X-Forwarded-For
+
+const crypto = require('crypto');
+
+function accessError(message, status, headers) {
+  return Object.assign(new Error(message), { status, expose: true, headers });
+}
+
+function list(value) {
+  return String(value || '').split(',').map(s => s.trim()).filter(Boolean);
+}
+
+function limit(value, fallback) {
+  const n = Number(value);
+  return value === undefined || value === '' || !Number.isFinite(n) ? fallback : Math.max(0, Math.floor(n));
+}
+
+// Compare without leaking the position of the first differing byte
+function sameKey(a, b) {
+  const x = crypto.createHash('sha256').update(a).digest();
+  const y = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(x, y);
+}
+
+function createAccessControl(env) {
+  const keys = list(env.API_KEYS);
+  const origins = list(env.CORS_ORIGINS);
+  const perMinute = limit(env.RATE_LIMIT_PER_MINUTE, 30);
+  const maxConcurrent = limit(env.MAX_CONCURRENT_PER_CLIENT, 2);
+  const trustProxy = /^(1|true|on)$/i.test(String(env.TRUST_PROXY || ''));
+  // Token buckets (capacity perMinute, refilled continuously) and running requests, by client
+  const buckets = new Map();
+  const running = new Map();
+
+  function presentedKey(req, url) {
+    const auth = String(req.headers['authorization'] || '');
+    if (/^Bearer\s+/i.test(auth)) return auth.replace(/^Bearer\s+/i, '').trim();
+    if (req.headers['x-api-key']) return String(req.headers['x-api-key']).trim();
+    if (req.method === 'GET') return url.searchParams.get('api_key') || '';
+    return '';
+  }
+
+  function address(req) {
+    const forwarded = trustProxy && String(req.headers['x-forwarded-for'] || '').split(',')[0].trim();
+    return forwarded || req.socket.remoteAddress || 'unknown';
+  }
+
+  function pruneBuckets(now) {
+    if (buckets.size < 1000) return;
+    for (const [client, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.at) / 60000 * perMinute >= perMinute) buckets.delete(client);
+    }
+  }
+
+  return {
+    authRequired: keys.length > 0,
+    limits: { perMinute, maxConcurrent },
+
+    // Sets the CORS headers for an allowed Origin; returns true when the request was a preflight and is answered
+    cors(req, res) {
+      const origin = req.headers['origin'];
+      const allowed = origin && (origins.includes('*') || origins.includes(origin));
+      if (allowed) {
+        res.setHeader('Access-Control-Allow-Origin', origins.includes('*') ? '*' : origin);
+        res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,DELETE,OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, X-Request-Id');
+        res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id, Retry-After, X-Cache');
+        if (!origins.includes('*')) res.setHeader('Vary', 'Origin');
+      }
+      if (req.method !== 'OPTIONS') return false;
+      res.writeHead(allowed ? 204 : 403);
+      res.end();
+      return true;
+    },
+
+    // The client a request counts against: its API key (hashed, so logs do not carry it) or its address.
+    // Throws a 401 when keys are configured and the request has none of them.
+    identify(req, url) {
+      if (!keys.length) return `ip:${address(req)}`;
+      const key = presentedKey(req, url);
+      const match = key && keys.find(k => sameKey(k, key));
+      if (!match) throw accessError(key ? 'Invalid API key' : 'API key required', 401, { 'WWW-Authenticate': 'Bearer' });
+      return `key:${crypto.createHash('sha256').update(match).digest('hex').slice(0, 12)}`;
+    },
+
+    // Take a slot for an expensive request; returns the function that gives it back. Throws a 429 when the client
+    // is over its rate or already has maxConcurrent requests running.
+    acquire(client) {
+      const now = Date.now();
+      if (perMinute) {
+        pruneBuckets(now);
+        const bucket = buckets.get(client) || { tokens: perMinute, at: now };
+        bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.at) / 60000 * perMinute);
+        bucket.at = now;
+        buckets.set(client, bucket);
+        if (bucket.tokens < 1) {
+          const wait = Math.ceil((1 - bucket.tokens) * 60 / perMinute);
+          throw accessError(`Rate limit exceeded (${perMinute} requests per minute); retry in ${wait} s`, 429, { 'Retry-After': String(wait) });
+        }
+        bucket.tokens -= 1;
+      }
+      const count = running.get(client) || 0;
+      if (maxConcurrent && count >= maxConcurrent) {
+        // The request did not run, so it does not use up the rate either
+        if (perMinute) buckets.get(client).tokens += 1;
+        throw accessError(`Too many requests in progress (at most ${maxConcurrent} at a time)`, 429, { 'Retry-After': '5' });
+      }
+      running.set(client, count + 1);
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        const left = (running.get(client) || 1) - 1;
+        if (left > 0) running.set(client, left); else running.delete(client);
+      };
+    },
+  };
+}
+
+module.exports = { createAccessControl };
@@ -0,0 +1,89 @@
+// Content-addressed store for project assets (images, audio, video, fonts). Uploaded bytes are kept once per
+// sha256 under <dir>/<hash>, with their media type in <dir>/<hash>.json; projects refer to them by URL
+// (`/api/assets/<hash>`) from project.assets, so large media never travels inside project JSON.
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const HASH = /^[a-f0-9]{64}$/;
+const MEDIA = /^(image|audio|video|font)\/[\w.+-]+$|^application\/(font-woff2?|x-font-ttf|x-font-otf|vnd\.ms-fontobject)$/;
+
+function storeError(message, status) {
+  const err = new Error(message);
+  err.status = status || 400;
+  err.expose = true;
+  return err;
+}
+
+// The asset a project URL or data URL points at: { type, bytes } (null when it is neither)
+function decodeDataUrl(data) {
+  const m = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(String(data));
+  if (!m) return null;
+  return { type: m[1], bytes: m[2] ? Buffer.from(m[3], 'base64') : Buffer.from(decodeURIComponent(m[3])) };
+}
+
+function formatSize(bytes) {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+// Prompt section listing the project's assets, from the [{ path, type, size }] manifest the client sends
+function describeAssets(manifest) {
+  const list = (Array.isArray(manifest) ? manifest : [])
+    .filter(a => a && typeof a.path === 'string' && /^public\/[^/]/.test(a.path)).slice(0, 100);
+  if (!list.length) return '';
+  const lines = list.map(a => `- ${a.path.slice(7)} (${String(a.type || 'unknown type')}${Number(a.size) > 0 ? `, ${formatSize(Number(a.size))}` : ''})`);
+  return `Project assets (files in public/; reference them only with staticFile('<name>'): <Img> for images, <Audio> for audio, <OffthreadVideo> for video, and a FontFace loaded from staticFile('<name>') for fonts):\n${lines.join('\n')}`;
+}
+
+function createAssetStore(dir, { maxBytes } = {}) {
+  const limit = Number(maxBytes) > 0 ? Number(maxBytes) : 25 * 1024 * 1024;
+  fs.mkdirSync(dir, { recursive: true });
+
+  function meta(hash) {
+    if (!HASH.test(hash)) return null;
+    try { return JSON.parse(fs.readFileSync(path.join(dir, `${hash}.json`), 'utf8')); }
+    catch { return null; }
+  }
+
+  return {
+    maxBytes: limit,
+
+    // Returns { hash, type, size, url }
+    put(bytes, type) {
+      const mediaType = String(type || '').split(';')[0].trim().toLowerCase();
+      if (!MEDIA.test(mediaType)) throw storeError('Only image, audio, video and font files can be uploaded', 415);
+      if (!bytes.length) throw storeError('Empty upload');
+      if (bytes.length > limit) throw storeError(`Asset too large (max ${Math.round(limit / 1024 / 1024)} MB)`, 413);
+      const hash = crypto.createHash('sha256').update(bytes).digest('hex');
+      const file = path.join(dir, hash);
+      if (!fs.existsSync(file)) {
+        const tmp = `${file}.${process.pid}.tmp`;
+        fs.writeFileSync(tmp, bytes);
+        fs.renameSync(tmp, file);
+      }
+      fs.writeFileSync(path.join(dir, `${hash}.json`), JSON.stringify({ type: mediaType, size: bytes.length }));
+      return { hash, type: mediaType, size: bytes.length, url: `/api/assets/${hash}` };
+    },
+
+    // { path, type, size } or null
+    get(hash) {
+      const info = meta(hash);
+      return info ? { path: path.join(dir, hash), type: info.type, size: info.size } : null;
+    },
+
+    // Bytes of a project asset, whether it is stored here or inlined as a data URL
+    read(asset) {
+      const data = String(asset && asset.data || '');
+      const stored = /^\/api\/assets\/([a-f0-9]{64})$/.exec(data);
+      if (stored) {
+        const info = this.get(stored[1]);
+        return info ? fs.readFileSync(info.path) : null;
+      }
+      const decoded = decodeDataUrl(data);
+      return decoded ? decoded.bytes : null;
+    },
+  };
+}
+
+module.exports = { createAssetStore, decodeDataUrl, describeAssets };
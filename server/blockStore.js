@@ -0,0 +1,166 @@
+// File-based block library: one JSON document per block in <dir>/<id>.json, loaded into memory at startup.
+// A block keeps its previous definitions in `versions` whenever its name, params or project change.
+//
+// Stored shape:
+//   { id, name, hue, tags, params, project, version, createdAt, updatedAt, usageCount, lastUsedAt,
+//     versions: [{ version, name, params, project, createdAt }] }
+
+const fs = require('fs');
+const path = require('path');
+
+const MAX_VERSIONS = 20;
+const ID = /^[\w-]{1,64}$/;
+
+function storeError(message, status) {
+  const err = new Error(message);
+  err.status = status || 400;
+  err.expose = true;
+  return err;
+}
+
+function normalizeTags(tags) {
+  if (!Array.isArray(tags)) return [];
+  return Array.from(new Set(tags.map(t => String(t).trim().toLowerCase()).filter(Boolean))).slice(0, 20);
+}
+
+function checkDefinition({ name, params, project }) {
+  if (name != null && (typeof name !== 'string' || !name.trim())) throw storeError('"name" must be a non-empty string');
+  if (params != null && !Array.isArray(params)) throw storeError('"params" must be an array');
+  if (project != null && (typeof project !== 'object' || !project.files || typeof project.files !== 'object')) throw storeError('"project" must have files');
+}
+
+// Blocks as returned by list(): everything except the version history
+function summary(block) {
+  const { versions, ...rest } = block;
+  return { ...rest, versionCount: versions.length };
+}
+
+function createBlockStore(dir, { log } = {}) {
+  const blocks = new Map();
+  fs.mkdirSync(dir, { recursive: true });
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith('.json')) continue;
+    try {
+      const block = JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8'));
+      if (block && ID.test(block.id)) blocks.set(block.id, block);
+    } catch (e) {
+      if (log) log.warn('skipping unreadable block file', { file: name, error: e.message });
+    }
+  }
+
+  function persist(block) {
+    const file = path.join(dir, `${block.id}.json`);
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(block));
+    fs.renameSync(tmp, file);
+  }
+
+  function find(id) {
+    const block = blocks.get(id);
+    if (!block) throw storeError('Unknown block', 404);
+    return block;
+  }
+
+  return {
+    // q matches name, tags and param names; tag filters exactly; sort is 'updated' (default), 'usage' or 'name'
+    list({ q, tag, sort } = {}) {
+      const needle = String(q || '').trim().toLowerCase();
+      const wanted = String(tag || '').trim().toLowerCase();
+      let out = [...blocks.values()];
+      if (needle) {
+        out = out.filter(b => [b.name, ...b.tags, ...b.params.map(p => p && (p.key || p.name))]
+          .some(s => typeof s === 'string' && s.toLowerCase().includes(needle)));
+      }
+      if (wanted) out = out.filter(b => b.tags.includes(wanted));
+      const order = sort === 'usage' ? (a, b) => b.usageCount - a.usageCount || b.updatedAt - a.updatedAt
+        : sort === 'name' ? (a, b) => a.name.localeCompare(b.name)
+        : (a, b) => b.updatedAt - a.updatedAt;
+      return out.sort(order).map(summary);
+    },
+
+    get(id) {
+      return find(id);
+    },
+
+    has(id) {
+      return blocks.has(id);
+    },
+
+    tags() {
+      const counts = {};
+      for (const b of blocks.values()) for (const t of b.tags) counts[t] = (counts[t] || 0) + 1;
+      return counts;
+    },
+
+    // `id` is kept when given and free (used when importing existing blocks)
+    create(input) {
+      checkDefinition(input);
+      if (!input.name || !input.project) throw storeError('"name" and "project" are required');
+      let id = input.id && ID.test(input.id) && !blocks.has(input.id) ? input.id : null;
+      if (!id) id = `blk_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+      const now = Date.now();
+      const block = {
+        id,
+        name: input.name.trim(),
+        hue: Number.isFinite(Number(input.hue)) ? Number(input.hue) : Math.floor(Math.random() * 360),
+        tags: normalizeTags(input.tags),
+        params: input.params || [],
+        project: input.project,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+        usageCount: Math.max(0, Number(input.usageCount) || 0),
+        lastUsedAt: null,
+        versions: [],
+      };
+      blocks.set(id, block);
+      persist(block);
+      return block;
+    },
+
+    update(id, patch) {
+      const block = find(id);
+      checkDefinition(patch);
+      const changed = ['name', 'params', 'project'].filter(k => patch[k] != null && JSON.stringify(patch[k]) !== JSON.stringify(block[k]));
+      if (changed.length) {
+        block.versions = [...block.versions, { version: block.version, name: block.name, params: block.params, project: block.project, createdAt: block.updatedAt }].slice(-MAX_VERSIONS);
+        block.version++;
+        if (patch.name != null) block.name = patch.name.trim();
+        if (patch.params != null) block.params = patch.params;
+        if (patch.project != null) block.project = patch.project;
+      }
+      if (patch.tags != null) block.tags = normalizeTags(patch.tags);
+      if (patch.hue != null && Number.isFinite(Number(patch.hue))) block.hue = Number(patch.hue);
+      block.updatedAt = Date.now();
+      persist(block);
+      return block;
+    },
+
+    // Restoring makes the old definition the newest version, so nothing is lost
+    restore(id, version) {
+      const block = find(id);
+      const old = block.versions.find(v => v.version === Number(version));
+      if (!old) throw storeError(`Block has no version ${version}`, 404);
+      return this.update(id, { name: old.name, params: old.params, project: old.project });
+    },
+
+    remove(id) {
+      find(id);
+      blocks.delete(id);
+      fs.rmSync(path.join(dir, `${id}.json`), { force: true });
+    },
+
+    recordUsage(ids) {
+      const now = Date.now();
+      for (const id of new Set(ids)) {
+        const block = blocks.get(id);
+        if (!block) continue;
+        block.usageCount++;
+        block.lastUsedAt = now;
+        persist(block);
+      }
+    },
+  };
+}
+
+module.exports = { createBlockStore };
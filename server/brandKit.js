@@ -0,0 +1,141 @@
+// The team's brand kit: palette, typography, logo, motion style and safe margins, kept in one JSON file and applied
+// to every generation and block. It reaches the model as a "Brand kit" section of the prompt (see describeBrand),
+// gives block parameters their defaults (brandParamDefaults) and drives the off-brand-color lint rule.
+//
+// Stored shape:
+//   { name, palette: [{ name, color }], typography: { heading, body }, logo: { name, type, url, size } | null,
+//     motion: { style, easing }, safeMargin, updatedAt }
+
+const fs = require('fs');
+const path = require('path');
+
+const MAX_COLORS = 8;
+const MAX_MARGIN = 20;
+const HEX = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// What each motion style asks of the model; the offline provider maps them to an animation speed
+const MOTION_STYLES = {
+  calm: 'slow, gentle fades and long eases with little movement',
+  smooth: 'fluid, eased transitions at a medium pace',
+  energetic: 'fast, punchy entrances with springy overshoot',
+  playful: 'bouncy springs, small rotations and staggered pops',
+};
+
+function brandError(message) {
+  return Object.assign(new Error(message), { status: 400, expose: true });
+}
+
+function text(value, max) {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, max) : '';
+}
+
+function hexColor(value) {
+  const color = String(value || '').trim().toLowerCase();
+  if (!HEX.test(color)) return null;
+  return color.length === 4 ? '#' + [...color.slice(1)].map(c => c + c).join('') : color;
+}
+
+// Validate and normalize a brand kit sent by the client; throws a 400 error for values that cannot be used
+function normalizeBrandKit(raw) {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw brandError('The brand kit must be an object');
+  if (raw.palette != null && !Array.isArray(raw.palette)) throw brandError('"palette" must be a list of { name, color }');
+  const palette = [];
+  for (const [i, entry] of (raw.palette || []).entries()) {
+    const color = hexColor(entry && entry.color);
+    if (!color) throw brandError(`Palette color ${i + 1} must be a hex color such as #6ea8fe`);
+    // Names end up in "name #hex" lists of the prompt, so they cannot carry the separators
+    const name = text(entry.name, 24).replace(/[^\w -]+/g, '').trim() || `color ${i + 1}`;
+    if (!palette.some(p => p.color === color)) palette.push({ name, color });
+  }
+  if (palette.length > MAX_COLORS) throw brandError(`A palette can have at most ${MAX_COLORS} colors`);
+
+  const typography = { heading: text(raw.typography && raw.typography.heading, 80), body: text(raw.typography && raw.typography.body, 80) };
+
+  let logo = null;
+  if (raw.logo) {
+    const name = text(raw.logo.name, 80);
+    const url = typeof raw.logo.url === 'string' ? raw.logo.url : '';
+    const type = text(raw.logo.type, 60).toLowerCase();
+    if (!/^[\w.-]+$/.test(name) || !/^image\//.test(type) || !/^(?:\/api\/assets\/[a-f0-9]{64}|data:image\/)/.test(url)) {
+      throw brandError('"logo" must be an uploaded image: { name, type, url }');
+    }
+    logo = { name, type, url, ...(Number(raw.logo.size) > 0 ? { size: Math.round(Number(raw.logo.size)) } : {}) };
+  }
+
+  const style = text(raw.motion && raw.motion.style, 20).toLowerCase();
+  if (style && !MOTION_STYLES[style]) throw brandError(`"motion.style" must be one of ${Object.keys(MOTION_STYLES).join(', ')}`);
+  const motion = { style: style || 'smooth', easing: text(raw.motion && raw.motion.easing, 80) };
+
+  const margin = raw.safeMargin == null || raw.safeMargin === '' ? 5 : Number(raw.safeMargin);
+  if (!Number.isFinite(margin) || margin < 0 || margin > MAX_MARGIN) throw brandError(`"safeMargin" must be a percentage between 0 and ${MAX_MARGIN}`);
+
+  return { name: text(raw.name, 60), palette, typography, logo, motion, safeMargin: Math.round(margin * 10) / 10 };
+}
+
+function createBrandStore(file) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  let kit = null;
+  try { kit = JSON.parse(fs.readFileSync(file, 'utf8')); } catch { kit = null; }
+
+  return {
+    get() { return kit; },
+    set(raw) {
+      kit = { ...normalizeBrandKit(raw), updatedAt: Date.now() };
+      const tmp = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(kit));
+      fs.renameSync(tmp, file);
+      return kit;
+    },
+    clear() {
+      const had = kit !== null;
+      kit = null;
+      fs.rmSync(file, { force: true });
+      return had;
+    },
+  };
+}
+
+// The "Brand kit" section of a generation prompt, or '' without a kit
+function describeBrand(kit) {
+  if (!kit) return '';
+  const lines = [];
+  if (kit.name) lines.push(`- Name: ${kit.name}`);
+  if (kit.palette.length) lines.push(`- Palette: ${kit.palette.map(p => `${p.name} ${p.color}`).join(', ')}. Use only these colors, plus black, white and grays.`);
+  const fonts = [kit.typography.heading && `headings "${kit.typography.heading}"`, kit.typography.body && `body text "${kit.typography.body}"`].filter(Boolean);
+  if (fonts.length) lines.push(`- Typography: ${fonts.join('; ')}`);
+  if (kit.logo) lines.push(`- Logo: staticFile('${kit.logo.name}') (${kit.logo.type}); show it with <Img> where the brand appears, such as the intro or the end card.`);
+  lines.push(`- Motion: ${kit.motion.style} (${MOTION_STYLES[kit.motion.style]})${kit.motion.easing ? `; easing ${kit.motion.easing}` : ''}`);
+  if (kit.safeMargin > 0) lines.push(`- Safe margins: keep text and the logo at least ${kit.safeMargin}% of the frame's width and height away from its edges.`);
+  return `Brand kit (follow it unless the request asks for something else):\n${lines.join('\n')}`;
+}
+
+// Colors the off-brand-color lint rule accepts
+function brandPalette(kit) {
+  return kit ? kit.palette.map(p => p.color) : [];
+}
+
+// Block parameter definitions with their defaults taken from the brand kit: color params get palette colors (one
+// whose name appears in the param's name first, then the next unused one), font params the heading or body font,
+// and text params about the brand its name. A changed param keeps the value found in the code as `codeValue`, which
+// parameterizeProject replaces by the prop.
+function brandParamDefaults(params, kit) {
+  if (!kit) return params;
+  const used = new Set();
+  const pickColor = (name) => {
+    const named = kit.palette.find(p => name.includes(p.name.toLowerCase().replace(/[\s_-]+/g, '')) && !used.has(p.color));
+    const color = named ? named.color : (kit.palette.find(p => !used.has(p.color)) || kit.palette[0]).color;
+    used.add(color);
+    return color;
+  };
+  return params.map(p => {
+    const name = String(p.name || p.key || '').toLowerCase();
+    let value = null;
+    if (p.type === 'color' && kit.palette.length) value = pickColor(name);
+    else if (p.type === 'font') value = /body|text|copy|paragraph/.test(name) ? kit.typography.body || kit.typography.heading : kit.typography.heading || kit.typography.body;
+    else if (p.type === 'text' && kit.name && /brand|company|organi[sz]ation/.test(name)) value = kit.name;
+    if (!value || String(value).toLowerCase() === String(p.default).toLowerCase()) return p;
+    return { ...p, default: value, codeValue: p.default };
+  });
+}
+
+module.exports = { createBrandStore, normalizeBrandKit, describeBrand, brandPalette, brandParamDefaults, MOTION_STYLES };
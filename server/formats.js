@@ -0,0 +1,163 @@
+// Output formats. Generation requests may ask for another frame size than 1920×1080 (`width`, `height`), and an
+// existing project can be adapted to more formats without the model: src/Root.tsx then registers one <Composition>
+// per format, next to the original one, and the project lists them all in `compositions` ({ id, width, height, file,
+// component }) so the preview and renders can switch between them.
+//
+// A MyComp that lays itself out from useVideoConfig() is registered as it is in every format. One that was laid out
+// for a fixed frame is wrapped by src/Formats.tsx instead, which plays it at its original size scaled to fit the
+// new frame.
+
+const MIN_SIDE = 16;
+const MAX_SIDE = 3840;
+const MAX_FORMATS = 6;
+const FIT_FILE = 'src/Formats.tsx';
+const FIT_COMPONENT = 'FittedMyComp';
+
+function formatError(message) {
+  return Object.assign(new Error(message), { status: 400, expose: true });
+}
+
+function gcd(a, b) { return b ? gcd(b, a % b) : a; }
+
+// "9:16" for 1080×1920
+function aspectRatio({ width, height }) {
+  const d = gcd(width, height);
+  return `${width / d}:${height / d}`;
+}
+
+// A { width, height } with whole, even sides (video encoders need even sizes) within the supported range
+function normalizeFormat(value, what = 'format') {
+  const width = Math.round(Number(value && value.width) / 2) * 2;
+  const height = Math.round(Number(value && value.height) / 2) * 2;
+  if (![width, height].every(n => Number.isFinite(n) && n >= MIN_SIDE && n <= MAX_SIDE)) {
+    throw formatError(`${what}: width and height must be between ${MIN_SIDE} and ${MAX_SIDE} pixels`);
+  }
+  return { width, height };
+}
+
+// The format a generation request asks for ({ width, height } in its body), or null for the default 1920×1080
+function requestedFormat(json) {
+  if (json.width == null && json.height == null) return null;
+  return normalizeFormat(json, 'Output format');
+}
+
+// Prompt line telling the model the frame size to build for
+function describeFormat(format) {
+  if (!format) return '';
+  const orientation = format.width === format.height ? 'square' : format.width > format.height ? 'landscape' : 'vertical';
+  return `Output format: ${format.width}×${format.height} (${aspectRatio(format)}, ${orientation}). Use width=${format.width} and height=${format.height} in the project JSON and in src/Root.tsx, and lay everything out for this frame (keep text and key elements inside it with some margin).`;
+}
+
+// Whether MyComp sizes its layout from the frame it is given rather than from fixed pixel positions
+function isResponsive(code) {
+  return /\{[^}]*\b(?:width|height)\b[^}]*\}\s*=\s*useVideoConfig\(\s*\)/.test(code);
+}
+
+function fitFile(design) {
+  return `import React from 'react';
+import {AbsoluteFill, useVideoConfig} from 'remotion';
+import {MyComp} from './MyComp';
+
+// MyComp was laid out for a ${design.width}×${design.height} frame. The other formats play it at that size, scaled to fit and
+// centered, so nothing is cut off.
+const DESIGN_WIDTH = ${design.width};
+const DESIGN_HEIGHT = ${design.height};
+
+export const ${FIT_COMPONENT}: React.FC<any> = (props) => {
+  const {width, height} = useVideoConfig();
+  const scale = Math.min(width / DESIGN_WIDTH, height / DESIGN_HEIGHT);
+  return (
+    <AbsoluteFill style={{background: '#000', alignItems: 'center', justifyContent: 'center', overflow: 'hidden'}}>
+      <div style={{position: 'relative', flex: 'none', width: DESIGN_WIDTH, height: DESIGN_HEIGHT, transform: \`scale(\${scale})\`}}>
+        <MyComp {...props} />
+      </div>
+    </AbsoluteFill>
+  );
+};
+`;
+}
+
+// <Composition ... /> tags of a Root file with their id
+function compositionTags(code) {
+  const tags = [];
+  const re = /<Composition\b[\s\S]*?\/>/g;
+  for (let m = re.exec(code); m; m = re.exec(code)) {
+    const id = /\bid=(?:"([^"]*)"|'([^']*)'|\{\s*["']([^"']*)["']\s*\})/.exec(m[0]);
+    tags.push({ start: m.index, end: m.index + m[0].length, text: m[0], id: id ? id[1] || id[2] || id[3] : null });
+  }
+  return tags;
+}
+
+// Set one attribute of a JSX tag (a string or a single-level {expression}), adding it when the tag has none
+function setAttribute(tag, name, value) {
+  const re = new RegExp(`\\b${name}=(?:"[^"]*"|'[^']*'|\\{[^{}]*\\})`);
+  return re.test(tag) ? tag.replace(re, `${name}=${value}`) : tag.replace(/<Composition\b/, `<Composition ${name}=${value}`);
+}
+
+// Rewrite src/Root.tsx so it registers the project's own composition plus one per format in `formats` ([{ width,
+// height }], the complete list of extra formats: compositions added earlier and not listed are removed). Returns the
+// new project, or throws when Root.tsx has no composition to copy.
+function adaptProjectFormats(project, formats) {
+  const files = project && project.files;
+  if (!files || typeof files['src/Root.tsx'] !== 'string' || typeof files['src/MyComp.tsx'] !== 'string') throw formatError('Missing project files');
+  if (!Array.isArray(formats)) throw formatError('formats must be a list of { width, height }');
+  if (formats.length > MAX_FORMATS) throw formatError(`A project can have at most ${MAX_FORMATS} extra formats`);
+  const mainId = String(project.compositionId || 'MyComp');
+  const design = normalizeFormat(project, 'Project');
+  const wanted = [];
+  for (const [i, f] of formats.entries()) {
+    const format = normalizeFormat(f, `Format ${i + 1}`);
+    const same = (x) => x.width === format.width && x.height === format.height;
+    if (!same(design) && !wanted.some(same)) wanted.push(format);
+  }
+
+  // Start from the Root without the compositions a previous adaptation added
+  const previous = new Set((project.compositions || []).map(c => c.id).filter(id => id !== mainId));
+  let root = files['src/Root.tsx'];
+  for (const tag of compositionTags(root).reverse()) {
+    if (tag.id && previous.has(tag.id)) root = root.slice(0, tag.start).replace(/[ \t]*$/, '') + root.slice(tag.end).replace(/^[ \t]*\n/, '');
+  }
+  const tags = compositionTags(root);
+  const main = tags.find(t => t.id === mainId) || tags.find(t => /\bcomponent=\{\s*MyComp\s*\}/.test(t.text));
+  if (!main) throw formatError(`No <Composition id="${mainId}"> found in src/Root.tsx to copy`);
+
+  const fit = !isResponsive(files['src/MyComp.tsx']);
+  const taken = new Set(tags.map(t => t.id));
+  const indent = (/\n([ \t]*)$/.exec(root.slice(0, main.start)) || ['', ''])[1];
+  const compositions = [{ id: mainId, width: design.width, height: design.height, file: 'src/MyComp.tsx', component: 'MyComp' }];
+  const added = [];
+  for (const format of wanted) {
+    let id = `${mainId}-${format.width}x${format.height}`;
+    for (let n = 2; taken.has(id); n++) id = `${mainId}-${format.width}x${format.height}-${n}`;
+    taken.add(id);
+    const component = fit ? FIT_COMPONENT : 'MyComp';
+    let tag = setAttribute(main.text, 'id', `"${id}"`);
+    tag = setAttribute(tag, 'width', `{${format.width}}`);
+    tag = setAttribute(tag, 'height', `{${format.height}}`);
+    tag = setAttribute(tag, 'component', `{${component}}`);
+    added.push(tag);
+    compositions.push({ id, width: format.width, height: format.height, file: fit ? FIT_FILE : 'src/MyComp.tsx', component });
+  }
+  root = root.slice(0, main.end) + added.map(tag => `\n${indent}${tag}`).join('') + root.slice(main.end);
+
+  const nextFiles = { ...files };
+  const imports = new RegExp(`import\\s*\\{[^}]*\\b${FIT_COMPONENT}\\b[^}]*\\}\\s*from\\s*['"]\\./Formats['"];?\\n?`);
+  root = root.replace(imports, '');
+  if (fit && added.length) {
+    nextFiles[FIT_FILE] = fitFile(design);
+    const lastImport = [...root.matchAll(/^import[^\n]*\n/gm)].pop();
+    const at = lastImport ? lastImport.index + lastImport[0].length : 0;
+    root = root.slice(0, at) + `import {${FIT_COMPONENT}} from './Formats';\n` + root.slice(at);
+  } else if ((project.compositions || []).some(c => c.file === FIT_FILE)) {
+    delete nextFiles[FIT_FILE];
+  }
+  nextFiles['src/Root.tsx'] = root;
+
+  const next = { ...project, files: nextFiles };
+  delete next.validation;
+  if (added.length) next.compositions = compositions;
+  else delete next.compositions;
+  return { project: next, fitted: fit && added.length > 0 };
+}
+
+module.exports = { requestedFormat, describeFormat, adaptProjectFormats, aspectRatio, MAX_FORMATS };
@@ -0,0 +1,128 @@
+// Disk cache of model answers, so a request that was already answered (same prompt, blocks, images, provider, model
+// and system prompt) does not go upstream again, and recorded demos replay without network. Entries are JSON files
+// under <dir>/<key>.json, where the key is the sha256 of everything that shaped the answer.
+//
+// Modes (GENERATION_CACHE):
+//   off            never read or write (default)
+//   read-through   answer from the cache when possible, otherwise go upstream and store the answer
+//   record         always go upstream and store (overwrite) the answer
+//   replay         only answer from the cache; a miss is an error
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const MODES = ['off', 'read-through', 'record', 'replay'];
+const KEY = /^[a-f0-9]{64}$/;
+
+function cacheError(message, status) {
+  return Object.assign(new Error(message), { status: status || 400, expose: true });
+}
+
+const sha256 = (value) => crypto.createHash('sha256').update(value).digest('hex');
+
+function normalizeMode(value) {
+  const mode = String(value || 'off').trim().toLowerCase();
+  if (mode === 'on' || mode === '1' || mode === 'true') return 'read-through';
+  return MODES.includes(mode) ? mode : 'off';
+}
+
+// Cache key of one model request. `parts` holds everything that determines the answer: { kind, provider, model,
+// system, prompt, images, ... }; the system prompt enters as its hash (its version) and images by their bytes' hash.
+function cacheKey(parts) {
+  const { system, images, ...rest } = parts;
+  const material = {
+    ...rest,
+    systemVersion: system ? sha256(system).slice(0, 16) : null,
+    images: (images || []).map(img => ({ label: img.label, hash: sha256(JSON.stringify(img.part)) })),
+  };
+  // Sorted keys, so the same request always hashes the same
+  return sha256(JSON.stringify(Object.fromEntries(Object.entries(material).sort(([a], [b]) => a.localeCompare(b)))));
+}
+
+function createGenerationCache(dir, { mode } = {}) {
+  const cacheMode = normalizeMode(mode);
+  if (cacheMode !== 'off') fs.mkdirSync(dir, { recursive: true });
+  const file = (key) => path.join(dir, `${key}.json`);
+
+  function read(key) {
+    try { return JSON.parse(fs.readFileSync(file(key), 'utf8')); }
+    catch { return null; }
+  }
+
+  function write(entry) {
+    fs.mkdirSync(dir, { recursive: true });
+    const tmp = `${file(entry.key)}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(entry));
+    fs.renameSync(tmp, file(entry.key));
+  }
+
+  function summary(entry, size) {
+    const { result, ...rest } = entry;
+    return { ...rest, size };
+  }
+
+  return {
+    mode: cacheMode,
+
+    // Answer a request through the cache. `meta` ({ kind, provider, model, label }) is stored with the entry for
+    // listing; `produce()` goes upstream and resolves with a JSON-serializable result, which is stored unless
+    // `storable(result)` says otherwise (answers that failed validation, say).
+    // Resolves with { result, cache: { status: 'hit' | 'miss' | 'recorded' | 'off', key, createdAt? } }
+    async run(key, meta, produce, storable = () => true) {
+      if (cacheMode === 'off') return { result: await produce(), cache: { status: 'off', key } };
+      if (cacheMode === 'read-through' || cacheMode === 'replay') {
+        const entry = read(key);
+        if (entry && 'result' in entry) {
+          entry.hits = (entry.hits || 0) + 1;
+          entry.lastHitAt = new Date().toISOString();
+          try { write(entry); } catch { /* the hit still counts as one */ }
+          return { result: entry.result, cache: { status: 'hit', key, createdAt: entry.createdAt } };
+        }
+        if (cacheMode === 'replay') throw cacheError(`Not in the generation cache (replay mode): ${meta.label || key}`, 404);
+      }
+      const result = await produce();
+      if (!storable(result)) return { result, cache: { status: 'miss', key } };
+      const entry = { key, ...meta, createdAt: new Date().toISOString(), hits: 0, lastHitAt: null, result };
+      write(entry);
+      return { result, cache: { status: cacheMode === 'record' ? 'recorded' : 'miss', key, createdAt: entry.createdAt } };
+    },
+
+    // Entries without their results, newest first
+    list() {
+      let names = [];
+      try { names = fs.readdirSync(dir).filter(n => n.endsWith('.json')); } catch { return []; }
+      const entries = [];
+      for (const name of names) {
+        const key = name.slice(0, -5);
+        if (!KEY.test(key)) continue;
+        const entry = read(key);
+        if (!entry) continue;
+        let size = 0;
+        try { size = fs.statSync(file(key)).size; } catch {}
+        entries.push(summary(entry, size));
+      }
+      return entries.sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+    },
+
+    // Remove one entry; returns false when there was none
+    evict(key) {
+      if (!KEY.test(String(key))) throw cacheError('Invalid cache key');
+      try { fs.unlinkSync(file(key)); return true; }
+      catch (e) { if (e.code === 'ENOENT') return false; throw e; }
+    },
+
+    // Remove every entry (of one kind when given, older than a date when given); returns how many were removed
+    clear({ kind, before } = {}) {
+      let removed = 0;
+      for (const entry of this.list()) {
+        if (kind && entry.kind !== kind) continue;
+        if (before && !(String(entry.createdAt) < before)) continue;
+        if (this.evict(entry.key)) removed++;
+      }
+      return removed;
+    },
+  };
+}
+
+module.exports = { createGenerationCache, cacheKey, normalizeMode };
@@ -0,0 +1,192 @@
+// Image helpers for model inputs, without dependencies: the size of PNG, JPEG, GIF and WebP images from their
+// headers, and downscaling of PNGs (decoded with zlib, box-filtered and re-encoded as 8-bit RGBA). Other formats
+// cannot be decoded here; the web app downscales them before sending.
+
+const zlib = require('zlib');
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+// Decoding runs on the request thread and needs 4 bytes per pixel on top of the filtered rows; larger images are
+// not downscaled
+const MAX_DECODE_PIXELS = 16 * 1000 * 1000;
+
+// { type, width, height } of an image, or null when the bytes are not a recognized format
+function imageInfo(bytes) {
+  if (bytes.length >= 24 && bytes.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return { type: 'image/png', width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+  if (bytes.length >= 10 && bytes.toString('latin1', 0, 3) === 'GIF') {
+    return { type: 'image/gif', width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+  }
+  if (bytes.length >= 30 && bytes.toString('latin1', 0, 4) === 'RIFF' && bytes.toString('latin1', 8, 12) === 'WEBP') {
+    const chunk = bytes.toString('latin1', 12, 16);
+    if (chunk === 'VP8 ') return { type: 'image/webp', width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+    if (chunk === 'VP8L') {
+      const bits = bytes.readUInt32LE(21);
+      return { type: 'image/webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') return { type: 'image/webp', width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+    return null;
+  }
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    // Walk the JPEG segments up to the first start-of-frame marker
+    let i = 2;
+    while (i + 9 < bytes.length) {
+      if (bytes[i] !== 0xff) { i++; continue; }
+      const marker = bytes[i + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { type: 'image/jpeg', width: bytes.readUInt16BE(i + 7), height: bytes.readUInt16BE(i + 5) };
+      }
+      if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) { i += 2; continue; }
+      i += 2 + bytes.readUInt16BE(i + 2);
+    }
+    return null;
+  }
+  return null;
+}
+
+function paeth(a, b, c) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// RGBA pixels of a non-interlaced PNG: { width, height, pixels } or null
+function decodePng(bytes) {
+  let header = null, palette = null, alpha = null;
+  const data = [];
+  for (let i = 8; i + 8 <= bytes.length;) {
+    const length = bytes.readUInt32BE(i);
+    const type = bytes.toString('latin1', i + 4, i + 8);
+    const body = bytes.subarray(i + 8, i + 8 + length);
+    if (type === 'IHDR') header = { width: body.readUInt32BE(0), height: body.readUInt32BE(4), depth: body[8], color: body[9], interlace: body[12] };
+    else if (type === 'PLTE') palette = body;
+    else if (type === 'tRNS') alpha = body;
+    else if (type === 'IDAT') data.push(body);
+    else if (type === 'IEND') break;
+    i += 12 + length;
+  }
+  if (!header || header.interlace || header.width * header.height > MAX_DECODE_PIXELS) return null;
+  const { width, height, depth, color } = header;
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[color];
+  if (!channels || (color === 3 && !palette)) return null;
+  const bitsPerPixel = channels * depth;
+  const stride = Math.ceil(width * bitsPerPixel / 8);
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  // Never inflate more than the header's rows need, whatever the compressed stream claims
+  const raw = zlib.inflateSync(Buffer.concat(data), { maxOutputLength: (stride + 1) * height });
+  if (raw.length < (stride + 1) * height) return null;
+
+  const rows = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? rows[out + x - bpp] : 0;
+      const b = y ? rows[out - stride + x] : 0;
+      const c = x >= bpp && y ? rows[out - stride + x - bpp] : 0;
+      const v = raw[src + x];
+      rows[out + x] = filter === 1 ? v + a : filter === 2 ? v + b : filter === 3 ? v + ((a + b) >> 1) : filter === 4 ? v + paeth(a, b, c) : v;
+    }
+  }
+
+  const sample = (y, index) => {
+    if (depth === 8) return rows[y * stride + index];
+    if (depth === 16) return rows[y * stride + index * 2];
+    const bit = index * depth;
+    const value = (rows[y * stride + (bit >> 3)] >> (8 - depth - (bit & 7))) & ((1 << depth) - 1);
+    return color === 3 ? value : Math.round(value * 255 / ((1 << depth) - 1));
+  };
+  const pixels = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const s = x * channels;
+      if (color === 3) {
+        const p = sample(y, s);
+        pixels[o] = palette[p * 3]; pixels[o + 1] = palette[p * 3 + 1]; pixels[o + 2] = palette[p * 3 + 2];
+        pixels[o + 3] = alpha && p < alpha.length ? alpha[p] : 255;
+      } else if (color === 0 || color === 4) {
+        pixels[o] = pixels[o + 1] = pixels[o + 2] = sample(y, s);
+        pixels[o + 3] = color === 4 ? sample(y, s + 1) : 255;
+      } else {
+        pixels[o] = sample(y, s); pixels[o + 1] = sample(y, s + 1); pixels[o + 2] = sample(y, s + 2);
+        pixels[o + 3] = color === 6 ? sample(y, s + 3) : 255;
+      }
+    }
+  }
+  return { width, height, pixels };
+}
+
+// Average every source pixel under each target pixel (colors weighted by alpha, so transparent edges stay clean)
+function boxResize({ width, height, pixels }, targetWidth, targetHeight) {
+  const out = Buffer.alloc(targetWidth * targetHeight * 4);
+  const sx = width / targetWidth, sy = height / targetHeight;
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor(ty * sy), y1 = Math.max(y0 + 1, Math.floor((ty + 1) * sy));
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor(tx * sx), x1 = Math.max(x0 + 1, Math.floor((tx + 1) * sx));
+      let r = 0, g = 0, b = 0, a = 0, n = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const o = (y * width + x) * 4;
+          const w = pixels[o + 3];
+          r += pixels[o] * w; g += pixels[o + 1] * w; b += pixels[o + 2] * w; a += w; n++;
+        }
+      }
+      const o = (ty * targetWidth + tx) * 4;
+      if (a) { out[o] = Math.round(r / a); out[o + 1] = Math.round(g / a); out[o + 2] = Math.round(b / a); }
+      out[o + 3] = Math.round(a / n);
+    }
+  }
+  return out;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf) {
+  let c = 0xffffffff;
+  for (const byte of buf) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type, body) {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(body.length, 0);
+  head.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), body])), 0);
+  return Buffer.concat([head, body, crc]);
+}
+
+function encodePng(width, height, pixels) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; header[9] = 6;
+  // Every row uses the Up filter, which compresses photos and flat art alike reasonably well
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 2;
+    for (let x = 0; x < stride; x++) raw[y * (stride + 1) + 1 + x] = pixels[y * stride + x] - (y ? pixels[(y - 1) * stride + x] : 0);
+  }
+  return Buffer.concat([PNG_SIGNATURE, pngChunk('IHDR', header), pngChunk('IDAT', zlib.deflateSync(raw, { level: 9 })), pngChunk('IEND', Buffer.alloc(0))]);
+}
+
+// A PNG no larger than maxSide on either side: { bytes, width, height }, or null when it cannot be decoded
+function downscalePng(bytes, maxSide) {
+  let image;
+  try { image = decodePng(bytes); } catch { return null; }
+  if (!image) return null;
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  return { bytes: encodePng(width, height, boxResize(image, width, height)), width, height };
+}
+
+module.exports = { imageInfo, downscalePng };
@@ -0,0 +1,173 @@
+// Non-text inputs of a generation request: the guidance image and the files attached to blocks. Images become
+// image parts of the chat message (PNGs downscaled to IMAGE_MAX_SIDE first); .txt, .md and .pdf attachments
+// become extracted text in the block's description. Every input is recorded with what the model actually got,
+// so the client can show it next to the result.
+
+const zlib = require('zlib');
+const { decodeDataUrl } = require('./assetStore');
+const { imageInfo, downscalePng } = require('./images');
+
+// Image formats chat-completions providers accept
+const IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+function inputError(message, status) {
+  return Object.assign(new Error(message), { status: status || 400, expose: true });
+}
+
+function unescapePdfString(s) {
+  return s.replace(/\\(\r\n|\n|\r|[0-7]{1,3}|.)/g, (_, e) => {
+    if (/^[0-7]/.test(e)) return String.fromCharCode(parseInt(e, 8) & 0xff);
+    return { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }[e] ?? (/^[\r\n]/.test(e) ? '' : e);
+  });
+}
+
+function hexPdfString(hex) {
+  const clean = hex.replace(/\s+/g, '');
+  const bytes = Buffer.from(clean.length % 2 ? clean + '0' : clean, 'hex');
+  // Two-byte strings are usually UTF-16BE (with or without a byte order mark)
+  if (bytes.length >= 2 && bytes.length % 2 === 0 && (bytes[0] === 0xfe && bytes[1] === 0xff || bytes.filter((b, i) => i % 2 === 0 && b === 0).length > bytes.length / 4)) {
+    const swapped = Buffer.from(bytes);
+    swapped.swap16();
+    return swapped.toString('utf16le').replace(/^﻿/, '');
+  }
+  return bytes.toString('latin1');
+}
+
+// Text shown by one content stream: the strings of Tj/TJ/'/" operators, with line breaks where the text moves down
+function contentText(stream) {
+  const tokens = stream.match(/\((?:\\[\s\S]|[^\\()]|\((?:\\[\s\S]|[^\\()])*\))*\)|<[0-9A-Fa-f\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g) || [];
+  let out = '';
+  let operands = [];
+  let array = null;
+  for (const t of tokens) {
+    if (t === '[') { array = []; continue; }
+    if (t === ']') { operands.push(array || []); array = null; continue; }
+    const value = t[0] === '(' ? unescapePdfString(t.slice(1, -1)) : t[0] === '<' ? hexPdfString(t.slice(1, -1)) : /^-?\d*\.?\d+$/.test(t) ? Number(t) : null;
+    if (value !== null) { (array || operands).push(value); continue; }
+    if (array) continue;
+    if (t === 'Tj' || t === "'" || t === '"') out += (t === 'Tj' ? '' : '\n') + String(operands[operands.length - 1] ?? '');
+    else if (t === 'TJ') out += (operands[operands.length - 1] || []).map(v => typeof v === 'string' ? v : v < -200 ? ' ' : '').join('');
+    else if (t === 'T*' || t === 'ET') out += '\n';
+    else if (t === 'Td' || t === 'TD') out += operands[1] ? '\n' : ' ';
+    operands = [];
+  }
+  return out;
+}
+
+// Best-effort text of a PDF: every Flate-compressed or plain content stream is scanned for text operators.
+// PDFs whose fonts use custom encodings (and scanned PDFs) yield little or nothing.
+function extractPdfText(bytes) {
+  const source = bytes.toString('latin1');
+  const parts = [];
+  const re = /<<((?:[^<>]|<<(?:[^<>]|<<[^<>]*>>)*>>|<[^<>]*>)*)>>\s*stream\r?\n/g;
+  for (let m = re.exec(source); m; m = re.exec(source)) {
+    const dict = m[1];
+    const start = m.index + m[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) break;
+    re.lastIndex = end;
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(?:XRef|ObjStm|Metadata)/.test(dict)) continue;
+    const filters = (dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/) || [])[1] || '';
+    if (filters && filters.replace(/\/FlateDecode/g, '').replace(/[[\]\s]/g, '')) continue;
+    let data = bytes.subarray(start, end);
+    if (filters) {
+      try { data = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH }); } catch { continue; }
+    }
+    const text = data.toString('latin1');
+    if (/\bBT\b/.test(text)) parts.push(contentText(text));
+  }
+  return parts.join('\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/[\u0000-\u0008\u000b-\u001f\u007f-\u009f]/g, '')
+    .replace(/ *\n[\n ]*/g, '\n')
+    .trim();
+}
+
+function readable(text) {
+  const letters = (text.match(/[\p{L}\p{N}]/gu) || []).length;
+  return text.length >= 20 && letters / text.length > 0.5;
+}
+
+// One image input: { part, record } where part is null when the image is not sent
+function prepareImage(data, label, limits) {
+  const decoded = decodeDataUrl(data);
+  if (!decoded) return { part: null, record: { label, kind: 'image', status: 'skipped', detail: 'not a data URL' } };
+  const info = imageInfo(decoded.bytes);
+  if (!info || !IMAGE_TYPES.has(info.type)) return { part: null, record: { label, kind: 'image', status: 'skipped', detail: `unsupported image type ${info ? info.type : decoded.type}` } };
+  const size = `${info.width}×${info.height}`;
+  if (!limits.vision) return { part: null, record: { label, kind: 'image', status: 'skipped', detail: `${size}; the provider does not take image input` } };
+  const part = (bytes, type, detail) => ({ type: 'image_url', image_url: { url: `data:${type};base64,${bytes.toString('base64')}`, detail } });
+  if (Math.max(info.width, info.height) <= limits.maxSide) {
+    return { part: part(decoded.bytes, info.type, 'auto'), record: { label, kind: 'image', status: 'sent', detail: size } };
+  }
+  const scaled = info.type === 'image/png' ? downscalePng(decoded.bytes, limits.maxSide) : null;
+  if (scaled) {
+    return { part: part(scaled.bytes, 'image/png', 'auto'), record: { label, kind: 'image', status: 'downscaled', detail: `${size} → ${scaled.width}×${scaled.height}` } };
+  }
+  // Other formats cannot be decoded here; the web app downscales them before sending, so one this large is skipped
+  return { part: null, record: { label, kind: 'image', status: 'skipped', detail: `${size} is over the ${limits.maxSide} px limit (only PNGs are downscaled on the server)` } };
+}
+
+// Text of a .txt/.md/.pdf attachment: { text, record }
+function prepareDocument(decoded, label, limits) {
+  const type = decoded.type.toLowerCase();
+  let text;
+  if (type === 'application/pdf') text = extractPdfText(decoded.bytes);
+  else text = decoded.bytes.toString('utf8').replace(/^﻿/, '').trim();
+  if (!readable(text)) {
+    return { text: '', record: { label, kind: 'text', status: 'skipped', detail: type === 'application/pdf' ? 'no extractable text (scanned or custom-encoded PDF)' : 'empty or not text' } };
+  }
+  if (text.length > limits.maxChars) {
+    return { text: text.slice(0, limits.maxChars), record: { label, kind: 'text', status: 'truncated', detail: `${limits.maxChars} of ${text.length} characters` } };
+  }
+  return { text, record: { label, kind: 'text', status: 'extracted', detail: `${text.length} characters` } };
+}
+
+function isDocument(type) {
+  return /^text\/(plain|markdown|x-markdown)$/i.test(type) || /^application\/pdf$/i.test(type);
+}
+
+// Prepare the guidance image and block attachments of a request.
+// limits: { vision (the provider takes image parts), maxSide (px), maxChars (per attachment) }
+// Returns { images: [{ label, part }], documents: { <block index>: text }, inputs: [{ label, kind, status, detail }] }
+function prepareInputs({ guidanceImage, blocks }, limits) {
+  const images = [];
+  const documents = {};
+  const inputs = [];
+  const addImage = (data, label) => {
+    const { part, record } = prepareImage(data, label, limits);
+    if (part) images.push({ label, part });
+    inputs.push(record);
+  };
+  if (typeof guidanceImage === 'string' && guidanceImage) {
+    if (!guidanceImage.startsWith('data:image/')) throw inputError('Guidance image must be an image data URL');
+    addImage(guidanceImage, 'Guidance image');
+  }
+  (Array.isArray(blocks) ? blocks : []).forEach((b, i) => {
+    const data = b && b.context && b.context.data;
+    if (!data) return;
+    const label = `Block ${i + 1} (${String(b.name || b.id || 'block')}) attachment`;
+    const decoded = decodeDataUrl(data);
+    if (!decoded) inputs.push({ label, kind: 'text', status: 'skipped', detail: 'not a data URL' });
+    else if (decoded.type.startsWith('image/')) addImage(data, label);
+    else if (isDocument(decoded.type)) {
+      const { text, record } = prepareDocument(decoded, label, limits);
+      if (text) documents[i] = text;
+      inputs.push(record);
+    } else inputs.push({ label, kind: 'text', status: 'skipped', detail: `unsupported attachment type ${decoded.type}` });
+  });
+  return { images, documents, inputs };
+}
+
+// Content of the user message: plain text, or text followed by labelled image parts
+function userContent(text, images) {
+  if (!images || !images.length) return text;
+  return [{ type: 'text', text }, ...images.flatMap(img => [{ type: 'text', text: `${img.label}:` }, img.part])];
+}
+
+// The text of a message whatever its content shape
+function messageText(content) {
+  return Array.isArray(content) ? content.filter(p => p && p.type === 'text').map(p => p.text).join('\n\n') : String(content || '');
+}
+
+module.exports = { prepareInputs, extractPdfText, userContent, messageText };
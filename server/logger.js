@@ -0,0 +1,45 @@
+// Structured logs: one JSON object per line ({ time, level, msg, ...fields }), info and below on stdout and
+// warnings and errors on stderr. child(fields) returns a logger that adds fields (a request id) to every line.
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Log fields for an error: exposed errors are expected (bad input, unknown ids), so they go without a stack
+function errorFields(err) {
+  if (!err || typeof err !== 'object') return { error: String(err) };
+  const fields = { error: err.message || String(err) };
+  if (err.status) fields.errorStatus = err.status;
+  if (err.upstreamStatus) fields.upstreamStatus = err.upstreamStatus;
+  if (err.code) fields.errorCode = err.code;
+  if (!err.expose && err.stack) fields.stack = err.stack;
+  return fields;
+}
+
+function createLogger({ level, fields, out, err } = {}) {
+  const threshold = LEVELS[String(level || 'info').toLowerCase()] || LEVELS.info;
+  const stdout = out || process.stdout;
+  const stderr = err || process.stderr;
+  const base = fields || {};
+
+  const write = (name, msg, extra) => {
+    if (LEVELS[name] < threshold) return;
+    const entry = { time: new Date().toISOString(), level: name, msg, ...base };
+    for (const [key, value] of Object.entries(extra || {})) {
+      if (value instanceof Error) Object.assign(entry, errorFields(value));
+      else if (value !== undefined) entry[key] = value;
+    }
+    let line;
+    try { line = JSON.stringify(entry); }
+    catch { line = JSON.stringify({ time: entry.time, level: name, msg, ...base, note: 'fields not serializable' }); }
+    (LEVELS[name] >= LEVELS.warn ? stderr : stdout).write(line + '\n');
+  };
+
+  return {
+    debug: (msg, extra) => write('debug', msg, extra),
+    info: (msg, extra) => write('info', msg, extra),
+    warn: (msg, extra) => write('warn', msg, extra),
+    error: (msg, extra) => write('error', msg, extra),
+    child: (more) => createLogger({ level, fields: { ...base, ...more }, out: stdout, err: stderr }),
+  };
+}
+
+module.exports = { createLogger, errorFields };
@@ -0,0 +1,272 @@
+// Deterministic, network-free stand-in for the model. It reads the same prompts the real providers get and
+// synthesizes valid answers from them, so the whole app can be developed and tested offline. The same input
+// always produces the same output.
+
+const NAMED_COLORS = {
+  red: '#ef4444', orange: '#f97316', yellow: '#facc15', green: '#22c55e', teal: '#14b8a6', cyan: '#22d3ee',
+  blue: '#3b82f6', indigo: '#6366f1', purple: '#a855f7', violet: '#8b5cf6', pink: '#ec4899', white: '#f8fafc',
+  black: '#0b0f14', gray: '#9ca3af', grey: '#9ca3af', gold: '#eab308',
+};
+
+function hash(text) {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) { h ^= text.charCodeAt(i); h = Math.imul(h, 16777619); }
+  return h >>> 0;
+}
+
+function hsl(h, s, l) {
+  s /= 100; l /= 100;
+  const k = (n) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n) => Math.round(255 * (l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)))));
+  return '#' + [f(0), f(8), f(4)].map(v => v.toString(16).padStart(2, '0')).join('');
+}
+
+// "key=value, key2=value2" lines from the Blocks Context section of the augmented prompt
+function blockParameters(prompt) {
+  const out = {};
+  const re = /^Parameters: (.*)$/gm;
+  let m;
+  while ((m = re.exec(prompt))) {
+    for (const pair of m[1].split(/,\s*(?=[\w-]+=)/)) {
+      const eq = pair.indexOf('=');
+      if (eq <= 0) continue;
+      try { out[pair.slice(0, eq).trim()] = JSON.parse(pair.slice(eq + 1)); } catch { /* skip */ }
+    }
+  }
+  return out;
+}
+
+// `variation` (a sampling seed) picks another look for the same prompt, the way a new seed does for a real model
+function describePrompt(prompt, variation) {
+  // Only the user's own request drives the look; the block files dumped into the prompt would add noise
+  const request = prompt.split(/\n\n(?:Blocks Context:|Guidance image|Project assets|Brand kit|Output format)/)[0];
+  const params = blockParameters(prompt);
+  const lower = request.toLowerCase();
+  const seed = hash(request + JSON.stringify(params) + (variation == null ? '' : `#${variation}`));
+
+  const colors = [];
+  for (const v of Object.values(params)) if (typeof v === 'string' && /^#[0-9a-f]{3,8}$/i.test(v)) colors.push(v);
+  for (const hex of request.match(/#[0-9a-fA-F]{6}\b/g) || []) colors.push(hex);
+  for (const word of lower.match(/[a-z]+/g) || []) if (NAMED_COLORS[word]) colors.push(NAMED_COLORS[word]);
+  const brand = brandKit(prompt);
+  colors.push(...brand.colors);
+  const hue = seed % 360;
+  while (colors.length < 3) colors.push(brand.colors.length ? brand.colors[colors.length % brand.colors.length] : hsl((hue + colors.length * 47) % 360, 85, 68));
+
+  const quoted = request.match(/["“']([^"”']{2,48})["”']/);
+  const textParam = Object.entries(params).find(([k, v]) => typeof v === 'string' && /title|text|label|heading/i.test(k));
+  const title = textParam ? String(textParam[1]) : quoted ? quoted[1] : titleFromWords(request);
+
+  const hint = prompt.match(/Target total duration: ~(\d+(?:\.\d+)?) seconds/);
+  const inline = lower.match(/(\d+(?:\.\d+)?)[-\s]?(?:second|sec|s\b)/);
+  const seconds = Math.min(60, Math.max(1, Number(hint ? hint[1] : inline ? inline[1] : 5)));
+  const format = prompt.match(/^Output format: (\d+)×(\d+)/m);
+  const speedParam = Object.entries(params).find(([k, v]) => typeof v === 'number' && /speed/i.test(k));
+  // The first image of the asset manifest (see describeAssets in server/assetStore.js) is shown above the title
+  const assets = prompt.match(/^Project assets[^\n]*\n((?:- .*(?:\n|$))+)/m);
+  const image = assets && assets[1].match(/^- (.+?) \(image\//m);
+  const width = format ? Number(format[1]) : 1920;
+  const height = format ? Number(format[2]) : 1080;
+
+  return {
+    seed,
+    colors: colors.slice(0, 3),
+    title,
+    durationInFrames: Math.round(seconds * 30),
+    width,
+    height,
+    speed: speedParam ? Math.max(0.1, Number(speedParam[1])) : brand.speed,
+    progressBar: !/no progress/.test(lower) && (/progress/.test(lower) || seed % 2 === 0),
+    shapes: /square|box|shape|dot|circle|bounce/.test(lower) || !quoted,
+    round: /circle|dot|round/.test(lower),
+    image: image ? image[1] : brand.logo,
+    background: brand.background || 'linear-gradient(135deg, #0b0f14, #111827)',
+    textColor: brand.text || '#e9eef5',
+    font: brand.font || 'Inter, system-ui, sans-serif',
+    margin: brand.margin == null ? 40 : Math.round(Math.min(width, height) * brand.margin / 100),
+  };
+}
+
+const MOTION_SPEEDS = { calm: 0.75, smooth: 1, energetic: 1.5, playful: 1.25 };
+
+// The Brand kit section of the prompt (see describeBrand in server/brandKit.js). Palette colors named background and
+// text color the backdrop and the copy; the others are used like colors from the request.
+function brandKit(prompt) {
+  const section = (prompt.match(/^Brand kit[^\n]*\n((?:- .*(?:\n|$))+)/m) || [])[1] || '';
+  const line = (label) => (section.match(new RegExp(`^- ${label}: (.*)$`, 'm')) || [])[1] || '';
+  const palette = line('Palette').split('. ')[0].split(', ')
+    .map(entry => /^(.*) (#[0-9a-f]{6})$/i.exec(entry)).filter(Boolean).map(m => ({ name: m[1].toLowerCase(), color: m[2] }));
+  const role = (name) => (palette.find(p => p.name === name) || {}).color || null;
+  const typography = line('Typography');
+  const margin = line('Safe margins').match(/(\d+(?:\.\d+)?)%/);
+  return {
+    colors: palette.filter(p => p.name !== 'background' && p.name !== 'text').map(p => p.color),
+    background: role('background'),
+    text: role('text'),
+    font: ((typography.match(/headings "([^"]+)"/) || typography.match(/body text "([^"]+)"/)) || [])[1] || null,
+    logo: (line('Logo').match(/staticFile\('([^']+)'\)/) || [])[1] || null,
+    speed: MOTION_SPEEDS[(line('Motion').match(/^\w+/) || [])[0]] || 1,
+    margin: margin ? Number(margin[1]) : null,
+  };
+}
+
+function titleFromWords(text) {
+  const words = (text.match(/[A-Za-z][A-Za-z'-]*/g) || []).filter(w => w.length > 3 && !/^(create|make|with|that|this|from|into|video|remotion|second|seconds|intro|based|following|blocks|effects|combine|them|coherently)$/i.test(w));
+  const picked = words.slice(0, 3).map(w => w[0].toUpperCase() + w.slice(1).toLowerCase());
+  return picked.length ? picked.join(' ') : 'Hello Remotion';
+}
+
+function projectFiles(d) {
+  const [primary, secondary, accent] = d.colors;
+  const myComp = `import React from 'react';
+import {AbsoluteFill, ${d.image ? 'Img, ' : ''}interpolate, spring, ${d.image ? 'staticFile, ' : ''}useCurrentFrame, useVideoConfig} from 'remotion';
+
+const colors = ${JSON.stringify(d.colors)};
+const title = ${JSON.stringify(d.title)};
+
+export const MyComp: React.FC = () => {
+  const frame = useCurrentFrame();
+  const {fps, durationInFrames, width, height} = useVideoConfig();
+  // Sizes follow the shorter side, so the same layout works in landscape, square and vertical frames
+  const unit = Math.min(width, height) / 1080;
+  const speed = ${d.speed};
+  const intro = spring({frame: frame * speed, fps, config: {damping: 200}});
+  const titleOpacity = interpolate(frame * speed, [0, 20], [0, 1], {extrapolateLeft: 'clamp', extrapolateRight: 'clamp'});
+  const progress = interpolate(frame, [0, durationInFrames], [0, 100], {extrapolateLeft: 'clamp', extrapolateRight: 'clamp'});
+
+  return (
+    <AbsoluteFill style={{background: ${JSON.stringify(d.background)}, color: '${d.textColor}', fontFamily: ${JSON.stringify(d.font)}}}>
+      <AbsoluteFill style={{alignItems: 'center', justifyContent: 'center', gap: 48 * unit}}>
+${d.image ? `        <Img src={staticFile(${JSON.stringify(d.image)})} style={{maxWidth: 480 * unit, maxHeight: 320 * unit, objectFit: 'contain', opacity: titleOpacity}} />
+` : ''}        <div style={{fontSize: 110 * unit, maxWidth: '90%', textAlign: 'center', fontWeight: 800, opacity: titleOpacity, transform: \`translateY(\${(1 - intro) * 40}px)\`, color: '${primary}'}}>
+          {title}
+        </div>
+${d.shapes ? `        <div style={{display: 'flex', gap: 24 * unit}}>
+          {colors.map((color, i) => {
+            const y = interpolate((frame * speed + i * 6) % 60, [0, 30, 60], [0, -40 * unit, 0]);
+            return <div key={i} style={{width: 80 * unit, height: 80 * unit, borderRadius: ${d.round ? 40 : 16} * unit, background: color, transform: \`translateY(\${y}px)\`}} />;
+          })}
+        </div>
+` : ''}      </AbsoluteFill>
+${d.progressBar ? `      <div style={{position: 'absolute', left: ${d.margin}, right: ${d.margin}, bottom: ${d.margin}, height: 12, border: '1px solid rgba(255,255,255,0.3)', borderRadius: 8}}>
+        <div style={{height: '100%', width: \`\${progress}%\`, background: '${secondary}', borderRadius: 8}} />
+      </div>
+` : ''}      <div style={{position: 'absolute', left: 0, right: 0, top: 0, height: 6, background: '${accent}', opacity: 0.6}} />
+    </AbsoluteFill>
+  );
+};
+`;
+  const root = `import React from 'react';
+import {Composition} from 'remotion';
+import {MyComp} from './MyComp';
+
+export const Root: React.FC = () => {
+  return (
+    <>
+      <Composition
+        id="MyComp"
+        component={MyComp}
+        durationInFrames={${d.durationInFrames}}
+        width={${d.width}}
+        height={${d.height}}
+        fps={30}
+        defaultProps={{}}
+      />
+    </>
+  );
+};
+`;
+  return {
+    'src/index.ts': "import {registerRoot} from 'remotion';\nimport {Root} from './Root';\n\nregisterRoot(Root);\n",
+    'src/Root.tsx': root,
+    'src/MyComp.tsx': myComp,
+  };
+}
+
+function synthesizeProject(prompt, variation) {
+  const d = describePrompt(prompt, variation);
+  return {
+    kind: 'remotion-project',
+    files: projectFiles(d),
+    compositionId: 'MyComp',
+    width: d.width,
+    height: d.height,
+    fps: 30,
+    durationInFrames: d.durationInFrames,
+  };
+}
+
+function synthesizeBlockParams(project) {
+  const code = (project && project.files && project.files['src/MyComp.tsx']) || '';
+  const m = code.match(/const title = "([^"\\]{1,60})"/) || code.match(/>\s*([^<>{}\n]{3,40}?)\s*</);
+  const color = (code.match(/#[0-9a-fA-F]{6}\b/) || ['#6ea8fe'])[0];
+  const name = m ? ('Block: ' + m[1].trim()) : 'Quick Block';
+  return {
+    id: 'blk_' + hash(code).toString(36).slice(0, 8),
+    name,
+    params: [
+      { name: 'colorPrimary', type: 'color', default: color, explain: 'make the primary color {value}' },
+      { name: 'title', type: 'text', default: m ? m[1].trim() : 'Hello', explain: 'set the title text to {value}' },
+      { name: 'speed', type: 'number', default: 1, min: 0.1, max: 4, step: 0.1, unit: 'x', explain: 'set the animation speed to {value}' }
+    ]
+  };
+}
+
+// Answer a refinement request (see server/refine.js) with find/replace edits for the instructions it recognizes:
+// slower/faster, moving the bar to the top/bottom, a new title, a color and a new length in seconds.
+function synthesizeRefinement(content) {
+  const filesMatch = content.match(/^Current files:\n(.*)$/m);
+  const instructionMatch = content.match(/^Instruction: ([\s\S]*)$/m);
+  let files = {};
+  try { files = filesMatch ? JSON.parse(filesMatch[1]) : {}; } catch { /* no files to edit */ }
+  const instruction = instructionMatch ? instructionMatch[1].trim() : '';
+  const lower = instruction.toLowerCase();
+  const code = files['src/MyComp.tsx'] || '';
+  const edits = [];
+  const done = [];
+  let settings = null;
+  const edit = (file, find, replace, all) => { if (find !== replace) edits.push(all ? { file, find, replace, all: true } : { file, find, replace }); };
+
+  const speed = code.match(/const speed = (\d+(?:\.\d+)?);/);
+  if (speed && /slow/.test(lower)) { edit('src/MyComp.tsx', speed[0], `const speed = ${+(Number(speed[1]) / 2).toFixed(3)};`); done.push('halved the speed'); }
+  else if (speed && /fast|quick/.test(lower)) { edit('src/MyComp.tsx', speed[0], `const speed = ${+(Number(speed[1]) * 2).toFixed(3)};`); done.push('doubled the speed'); }
+
+  const bar = code.match(/(bottom|top): ?(\d+), height: ?12/);
+  const wantTop = /\b(bar|progress)\b[^.]*\btop\b/.test(lower);
+  const wantBottom = /\b(bar|progress)\b[^.]*\bbottom\b/.test(lower);
+  if (bar && ((wantTop && bar[1] === 'bottom') || (wantBottom && bar[1] === 'top'))) {
+    edit('src/MyComp.tsx', bar[0], bar[0].replace(bar[1], wantTop ? 'top' : 'bottom'));
+    done.push(`moved the bar to the ${wantTop ? 'top' : 'bottom'}`);
+  }
+
+  const quoted = instruction.match(/["“']([^"”']{1,48})["”']/);
+  const title = code.match(/const title = ("(?:[^"\\]|\\.)*");/);
+  if (title && quoted && /title|text|say|read/.test(lower)) { edit('src/MyComp.tsx', title[0], `const title = ${JSON.stringify(quoted[1])};`); done.push(`changed the title to "${quoted[1]}"`); }
+
+  const hex = instruction.match(/#[0-9a-fA-F]{6}\b/);
+  const named = (lower.match(/[a-z]+/g) || []).find(w => NAMED_COLORS[w]);
+  const color = hex ? hex[0] : named ? NAMED_COLORS[named] : null;
+  const current = code.match(/#[0-9a-fA-F]{6}\b/);
+  if (color && current && current[0].toLowerCase() !== color.toLowerCase()) {
+    edit('src/MyComp.tsx', current[0], color, true);
+    done.push(`changed the primary color to ${color}`);
+  }
+
+  const seconds = lower.match(/(\d+(?:\.\d+)?)[-\s]?(?:seconds?|secs?|s\b)/);
+  const root = files['src/Root.tsx'] || '';
+  const duration = root.match(/durationInFrames=\{(\d+)\}/);
+  if (seconds && duration) {
+    const fps = Number((root.match(/fps=\{(\d+)\}/) || [])[1] || 30);
+    const frames = Math.max(1, Math.round(Number(seconds[1]) * fps));
+    // Every composition (one per output format) plays the same video
+    edit('src/Root.tsx', duration[0], `durationInFrames={${frames}}`, true);
+    settings = { durationInFrames: frames };
+    done.push(`set the length to ${seconds[1]} seconds`);
+  }
+
+  const summary = done.length ? done[0][0].toUpperCase() + done.join(', ').slice(1) + '.' : 'No offline rule matched this instruction; nothing was changed.';
+  return settings ? { summary, edits, settings } : { summary, edits };
+}
+
+module.exports = { synthesizeProject, synthesizeBlockParams, synthesizeRefinement, describePrompt };
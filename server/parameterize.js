@@ -0,0 +1,145 @@
+// Turn block parameters into real component props: src/MyComp.tsx gets a typed props object with defaults and the
+// hard-coded values the parameters describe are replaced by those props; src/Root.tsx gets matching defaultProps.
+// The rewrite is textual and conservative: when the result does not validate as cleanly as the input, the
+// original project is kept and the parameters only reach the model through the prompt, as before.
+
+const { validateProject } = require('./validate');
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const RESERVED = new Set(['props', 'frame', 'fps', 'React', 'Remotion', 'default', 'class', 'function', 'const', 'let', 'var', 'return', 'new', 'this']);
+
+function escapeRegExp(s) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const NUMERIC = new Set(['number', 'duration']);
+
+function tsType(param) {
+  if (NUMERIC.has(param.type)) return 'number';
+  if (param.type === 'select' && Array.isArray(param.options) && param.options.length) return param.options.map(o => JSON.stringify(String(o))).join(' | ');
+  return param.type === 'boolean' || typeof param.default === 'boolean' ? 'boolean' : 'string';
+}
+
+function literal(param) {
+  if (param.type === 'boolean') return String(param.default === true || param.default === 'true');
+  if (NUMERIC.has(param.type)) {
+    const n = Number(param.default);
+    return Number.isFinite(n) ? String(n) : '0';
+  }
+  return JSON.stringify(param.default == null ? '' : String(param.default));
+}
+
+// Replace hard-coded uses of one parameter; returns the new code and whether anything was bound
+function bindParam(code, name, param) {
+  // A constant with the parameter's name and a literal value becomes the prop
+  const decl = new RegExp(`^[ \\t]*(?:const|let|var)\\s+${escapeRegExp(name)}(?:\\s*:\\s*[^=\\n]+)?\\s*=\\s*(?:-?[\\d.]+|"[^"\\n]*"|'[^'\\n]*'|true|false);?[ \\t]*\\n`, 'm');
+  if (decl.test(code)) return { code: code.replace(decl, ''), bound: true };
+  const found = param.codeValue ?? param.default;
+  if (NUMERIC.has(param.type) || param.type === 'boolean' || found == null || String(found) === '') return { code, bound: false };
+
+  const value = String(found);
+  const lines = code.split('\n');
+  let bound = false;
+  const out = lines.map(line => {
+    if (/^\s*import\b/.test(line)) return line;
+    let next = line
+      // JSX attribute: color="#fff" -> color={colorPrimary}
+      .replace(new RegExp(`=\\s*(["'])${escapeRegExp(value)}\\1`, 'g'), `={${name}}`)
+      // Any other string literal
+      .replace(new RegExp(`(["'])${escapeRegExp(value)}\\1`, 'g'), name)
+      // JSX text: >Hello< -> >{title}<
+      .replace(new RegExp(`>(\\s*)${escapeRegExp(value)}(\\s*)<`, 'g'), `>$1{${name}}$2<`);
+    if (next !== line) bound = true;
+    return next;
+  });
+  return { code: out.join('\n'), bound };
+}
+
+// Index just past the brace that closes the block opened at `open` (naive: braces inside strings must balance)
+function blockEnd(code, open) {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === '{') depth++;
+    else if (code[i] === '}' && --depth === 0) return i + 1;
+  }
+  return -1;
+}
+
+function rewriteComponent(code, params) {
+  const match = code.match(/export const MyComp(?:\s*:\s*React\.FC(?:<[^>]*>)?)?\s*=\s*\(\s*\)\s*=>\s*\{/) || code.match(/export function MyComp\(\s*\)\s*\{/);
+  if (!match) return null;
+  const start = match.index;
+  const end = blockEnd(code, start + match[0].length - 1);
+  if (end === -1) return null;
+
+  // Only the component body is rewritten: module-level code cannot see the props. A module-level constant
+  // with a parameter's name is shadowed by the destructured prop instead.
+  let body = code.slice(start + match[0].length, end);
+  const head = code.slice(0, start);
+  const bound = {};
+  const props = [];
+  for (const [name, param] of params) {
+    const result = bindParam(body, name, param);
+    // Any other declaration of the name in the body would clash with the destructured prop
+    const n = escapeRegExp(name);
+    if (new RegExp(`\\b(?:const|let|var|function)\\s+${n}\\b|\\b(?:const|let|var)\\s*[{[][^=;]*\\b${n}\\b[^=;]*[}\\]]\\s*=`).test(result.code)) {
+      bound[name] = false;
+      continue;
+    }
+    body = result.code;
+    props.push([name, param]);
+    const shadowed = new RegExp(`^(?:const|let|var)\\s+${escapeRegExp(name)}\\b`, 'm').test(head) && new RegExp(`\\b${escapeRegExp(name)}\\b`).test(body);
+    bound[name] = result.bound || shadowed;
+  }
+
+  if (!props.length) return null;
+  const names = props.map(([name]) => name);
+  const typeDecl = `export type MyCompProps = {\n${props.map(([name, p]) => `  ${name}: ${tsType(p)};`).join('\n')}\n};\n\n` +
+    `export const defaultMyCompProps: MyCompProps = {\n${props.map(([name, p]) => `  ${name}: ${literal(p)},`).join('\n')}\n};\n\n`;
+  const signature = (match[0].startsWith('export function')
+    ? 'export function MyComp(props: Partial<MyCompProps>) {'
+    : 'export const MyComp: React.FC<Partial<MyCompProps>> = (props) => {') +
+    `\n  const {${names.join(', ')}} = {...defaultMyCompProps, ...props};`;
+  return { code: head + typeDecl + signature + body + code.slice(end), bound, props };
+}
+
+// Replace (or add) defaultProps on the MyComp composition with the parameter defaults
+function rewriteRoot(code, params) {
+  const props = `{{${params.map(([name, p]) => `${name}: ${literal(p)}`).join(', ')}}}`;
+  const start = code.search(/\bcomponent=\{MyComp\}/);
+  if (start === -1) return null;
+  const tagEnd = code.indexOf('/>', start);
+  const existing = code.slice(start, tagEnd === -1 ? undefined : tagEnd).search(/defaultProps=\{/);
+  if (existing === -1) return code.slice(0, start) + `defaultProps=${props} ` + code.slice(start);
+  // Skip the balanced braces of the current value
+  const open = start + existing + 'defaultProps='.length;
+  const close = blockEnd(code, open);
+  if (close === -1) return null;
+  return code.slice(0, open) + props + code.slice(close);
+}
+
+// params: [{ name|key, type, default, codeValue? }], where codeValue is the hard-coded value to replace when the
+// default differs from it (a brand kit default, for example). Returns { project, bound } or null when the project cannot be rewritten safely.
+function parameterizeProject(project, params) {
+  const files = project && project.files;
+  if (!files || typeof files['src/MyComp.tsx'] !== 'string' || typeof files['src/Root.tsx'] !== 'string') return null;
+  const entries = [];
+  for (const p of Array.isArray(params) ? params : []) {
+    const name = String((p && (p.name || p.key)) || '');
+    if (!IDENTIFIER.test(name) || RESERVED.has(name) || entries.some(([n]) => n === name)) continue;
+    entries.push([name, p]);
+  }
+  if (!entries.length) return null;
+
+  const comp = rewriteComponent(files['src/MyComp.tsx'], entries);
+  const root = comp && rewriteRoot(files['src/Root.tsx'], comp.props);
+  if (!comp || !root) return null;
+  const next = { ...project, files: { ...files, 'src/MyComp.tsx': comp.code, 'src/Root.tsx': root } };
+  delete next.validation;
+
+  const errorCount = (p) => validateProject(p).filter(d => d.severity === 'error').length;
+  if (errorCount(next) > errorCount(project)) return null;
+  return { project: next, bound: comp.bound };
+}
+
+module.exports = { parameterizeProject };
@@ -0,0 +1,47 @@
+// Block parameter definitions as returned by the model for /api/blocks/params. The model is asked for one of
+// PARAM_TYPES with the matching extra fields; whatever comes back is normalized here so the client can rely on
+// the shape (a select always has options, a number's default lies within its range, ...).
+
+const PARAM_TYPES = ['color', 'text', 'number', 'select', 'boolean', 'font', 'easing', 'duration', 'image'];
+
+const ALIASES = {
+  string: 'text', bool: 'boolean', enum: 'select', 'font-family': 'font', fontfamily: 'font',
+  'easing-curve': 'easing', easingcurve: 'easing', seconds: 'duration', asset: 'image', 'image-asset': 'image',
+};
+
+const finite = (v) => (typeof v === 'number' || (typeof v === 'string' && v.trim() !== '')) && Number.isFinite(Number(v)) ? Number(v) : undefined;
+
+function normalizeParamDef(raw) {
+  const p = { ...raw };
+  const type = String(p.type || '').toLowerCase();
+  p.type = PARAM_TYPES.includes(type) ? type : ALIASES[type] || 'text';
+  for (const k of ['min', 'max', 'step', 'unit', 'options']) delete p[k];
+
+  if (p.type === 'select') {
+    const options = Array.isArray(raw.options) ? [...new Set(raw.options.filter(o => o != null).map(String))] : [];
+    if (options.length) {
+      p.options = options;
+      p.default = options.includes(String(raw.default)) ? String(raw.default) : options[0];
+    } else p.type = 'text';
+  }
+  if (p.type === 'number' || p.type === 'duration') {
+    let min = finite(raw.min), max = finite(raw.max);
+    if (p.type === 'duration' && (min === undefined || min < 0)) min = 0;
+    if (min !== undefined && max !== undefined && min > max) [min, max] = [max, min];
+    const step = finite(raw.step);
+    let value = finite(String(raw.default ?? '').replace(/s$/, '')) ?? min ?? 0;
+    if (min !== undefined) value = Math.max(min, value);
+    if (max !== undefined) value = Math.min(max, value);
+    Object.assign(p, { default: value }, min !== undefined && { min }, max !== undefined && { max }, step > 0 && { step });
+    if (typeof raw.unit === 'string' && raw.unit.trim()) p.unit = raw.unit.trim().slice(0, 8);
+  }
+  if (p.type === 'boolean') p.default = raw.default === true || raw.default === 'true' || raw.default === 1;
+  if (['color', 'text', 'font', 'easing', 'image'].includes(p.type)) p.default = raw.default == null ? '' : String(raw.default);
+  return p;
+}
+
+function normalizeParamDefs(params) {
+  return (Array.isArray(params) ? params : []).filter(p => p && typeof p === 'object').map(normalizeParamDef);
+}
+
+module.exports = { PARAM_TYPES, normalizeParamDef, normalizeParamDefs };
@@ -0,0 +1,151 @@
+// LLM provider layer. Every provider exposes the same shape:
+//   { id, label, available, model, fastModel, vision, chat({ task, messages, model, json, temperature, seed, signal, onDelta }) -> Promise<string> }
+// chat() resolves with the raw message content; `task` tells the offline provider what kind of answer to synthesize.
+// `vision` says whether user messages may carry image parts ({ type: 'image_url' }) next to their text.
+
+const { readChatStream, extractPartialFiles } = require('./stream');
+const { synthesizeProject, synthesizeBlockParams, synthesizeRefinement } = require('./offline');
+const { messageText } = require('./inputs');
+
+function upstreamError(message, status) {
+  const err = new Error(message);
+  err.status = status || 502;
+  return err;
+}
+
+// OpenAI and any server that speaks the OpenAI chat-completions protocol
+function createChatCompletionsProvider({ id, label, baseUrl, apiKey, model, fastModel, requireKey, jsonMode, vision }) {
+  return {
+    id, label, model, fastModel, vision,
+    available: Boolean(baseUrl) && (!requireKey || Boolean(apiKey)),
+    async chat({ messages, model: modelOverride, json, signal, onDelta, temperature, seed }) {
+      if (requireKey && !apiKey) {
+        const err = new Error(`${label} API key is not set`);
+        err.expose = true; err.status = 503;
+        throw err;
+      }
+      if (!baseUrl) {
+        const err = new Error(`${label} base URL is not configured`);
+        err.expose = true; err.status = 503;
+        throw err;
+      }
+      const body = { model: modelOverride || model, messages };
+      if (json && jsonMode !== false) body.response_format = { type: 'json_object' };
+      if (temperature != null) body.temperature = temperature;
+      if (seed != null) body.seed = seed;
+      if (onDelta) body.stream = true;
+
+      const headers = { 'Content-Type': 'application/json' };
+      if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+      const resp = await fetch(baseUrl.replace(/\/+$/, '') + '/chat/completions', {
+        method: 'POST', headers, body: JSON.stringify(body), signal
+      });
+      if (!resp.ok) {
+        const text = await resp.text().catch(() => '');
+        const err = upstreamError(`${label} error: ${resp.status} ${resp.statusText} ${text}`.trim());
+        err.upstreamStatus = resp.status;
+        throw err;
+      }
+      if (onDelta) return readChatStream(resp.body, onDelta);
+      const data = await resp.json();
+      return data.choices?.[0]?.message?.content || '';
+    }
+  };
+}
+
+// Deterministic provider: no network, answers are derived from the prompt text
+function createOfflineProvider() {
+  return {
+    id: 'offline',
+    label: 'Offline (deterministic)',
+    model: 'offline-v1',
+    fastModel: 'offline-v1',
+    available: true,
+    vision: false,
+    async chat({ task, messages, signal, onDelta, seed }) {
+      const firstUser = messageText((messages.find(m => m.role === 'user') || {}).content);
+      const lastUser = messageText(([...messages].reverse().find(m => m.role === 'user') || {}).content);
+      let result;
+      if (task === 'refine') {
+        result = synthesizeRefinement(lastUser);
+      } else if (task === 'block-params') {
+        // The project JSON may have been truncated to fit a context window
+        result = synthesizeBlockParams({ files: extractPartialFiles(firstUser) });
+      } else {
+        result = synthesizeProject(firstUser, seed);
+      }
+      const content = JSON.stringify(result);
+      if (!onDelta) return content;
+      // Replay the answer in chunks so streaming clients see realistic progress
+      for (let i = 400; i < content.length; i += 400) {
+        if (signal && signal.aborted) throw Object.assign(new Error('Aborted'), { name: 'AbortError' });
+        onDelta(content.slice(0, i));
+        await new Promise(r => setTimeout(r, 15));
+      }
+      onDelta(content);
+      return content;
+    }
+  };
+}
+
+function createProviders(env) {
+  const providers = {
+    openai: createChatCompletionsProvider({
+      id: 'openai',
+      label: 'OpenAI',
+      baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: env.OPENAI_API_KEY || '',
+      model: env.OPENAI_MODEL || 'gpt-5',
+      fastModel: env.OPENAI_FAST_MODEL || 'gpt-5-nano',
+      requireKey: true,
+      vision: true,
+    }),
+    compatible: createChatCompletionsProvider({
+      id: 'compatible',
+      label: 'OpenAI-compatible',
+      baseUrl: env.LLM_BASE_URL || '',
+      apiKey: env.LLM_API_KEY || '',
+      model: env.LLM_MODEL || 'llama3.1',
+      fastModel: env.LLM_FAST_MODEL || env.LLM_MODEL || 'llama3.1',
+      requireKey: false,
+      jsonMode: !/^(0|false|off)$/i.test(env.LLM_JSON_MODE || ''),
+      vision: !/^(0|false|off)$/i.test(env.LLM_VISION || ''),
+    }),
+    offline: createOfflineProvider(),
+  };
+  // Own properties only: ids like 'constructor' or 'toString' come from the client and the environment
+  const defaultId = Object.hasOwn(providers, env.LLM_PROVIDER || '') ? env.LLM_PROVIDER
+    : providers.openai.available ? 'openai'
+    : providers.compatible.available ? 'compatible'
+    : 'offline';
+  return {
+    defaultId,
+    get(id) {
+      const key = id || defaultId;
+      const provider = Object.hasOwn(providers, key) ? providers[key] : null;
+      if (!provider) {
+        const err = new Error(`Unknown provider '${id}'`);
+        err.expose = true; err.status = 400;
+        throw err;
+      }
+      return provider;
+    },
+    list() {
+      return Object.values(providers).map(({ id, label, available, model, fastModel }) => ({ id, label, available, model, fastModel }));
+    }
+  };
+}
+
+// Models (local ones especially) sometimes wrap JSON in prose or code fences
+function parseModelJSON(content) {
+  try { return JSON.parse(content); } catch { /* try harder below */ }
+  const unfenced = String(content).replace(/^[\s\S]*?```(?:json)?\s*/i, '').replace(/```[\s\S]*$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    try { return JSON.parse(unfenced.slice(start, end + 1)); } catch { /* fall through */ }
+  }
+  throw upstreamError('Failed to parse JSON from model');
+}
+
+module.exports = { createProviders, parseModelJSON };
@@ -0,0 +1,111 @@
+// Conversational refinement: the model answers an instruction with a small list of file edits instead of a
+// whole new project. Edits are applied here, so a refinement can never silently drop files the model did not mention.
+//
+// Edit shapes:
+//   { file, find, replace, all? }   replace the exact text `find` (must be unique unless `all` is true)
+//   { file, content }               create the file or replace it entirely
+//   { file, delete: true }          remove the file
+
+const { describeAssets } = require('./assetStore');
+
+const REFINE_SYSTEM = `You edit an existing Remotion project (React + TypeScript) according to the user's instruction.
+Return ONLY JSON in this shape:
+{
+  "summary": string, // one sentence describing what you changed
+  "edits": [
+    { "file": string, "find": string, "replace": string } // find: exact text copied from the current file, unique within it
+    | { "file": string, "content": string }                // only for new files or when most of a file changes
+    | { "file": string, "delete": true }
+  ],
+  "settings"?: { "durationInFrames"?: number, "fps"?: number, "width"?: number, "height"?: number }
+}
+Rules:
+- Make the smallest change that satisfies the instruction; keep everything else exactly as it is.
+- "find" must match the current file text exactly (including whitespace) and occur once. Include enough surrounding text to make it unique.
+- Keep src/index.ts, src/Root.tsx and src/MyComp.tsx. Only import from 'react', 'remotion' or files in the project.
+- If you change the video length, also update durationInFrames in src/Root.tsx and return it in "settings".
+- If the instruction cannot be applied, return an empty "edits" array and explain why in "summary".`;
+
+const SETTINGS = ['durationInFrames', 'fps', 'width', 'height'];
+
+function editError(message, index) {
+  const err = new Error(index == null ? message : `Edit ${index + 1}: ${message}`);
+  err.status = 422;
+  err.expose = true;
+  return err;
+}
+
+function countOccurrences(text, find) {
+  let count = 0;
+  for (let i = text.indexOf(find); i !== -1; i = text.indexOf(find, i + find.length)) count++;
+  return count;
+}
+
+// Apply edits to a copy of `files`. Throws a 422 naming the first edit that does not apply cleanly.
+function applyEdits(files, edits) {
+  if (!Array.isArray(edits)) throw editError('"edits" must be an array');
+  const next = { ...files };
+  edits.forEach((edit, index) => {
+    if (!edit || typeof edit.file !== 'string' || !edit.file) throw editError('missing "file"', index);
+    const file = edit.file.replace(/^\.?\/+/, '');
+    if (edit.delete) {
+      if (!(file in next)) throw editError(`${file} does not exist`, index);
+      delete next[file];
+    } else if (typeof edit.content === 'string') {
+      next[file] = edit.content;
+    } else if (typeof edit.find === 'string' && typeof edit.replace === 'string') {
+      if (!(file in next)) throw editError(`${file} does not exist`, index);
+      if (!edit.find) throw editError(`empty "find" in ${file}`, index);
+      const count = countOccurrences(next[file], edit.find);
+      if (count === 0) throw editError(`text to replace was not found in ${file}`, index);
+      if (count > 1 && !edit.all) throw editError(`text to replace occurs ${count} times in ${file}; include more context`, index);
+      next[file] = edit.all ? next[file].split(edit.find).join(edit.replace) : next[file].replace(edit.find, () => edit.replace);
+    } else {
+      throw editError(`unsupported edit for ${file}`, index);
+    }
+  });
+  return next;
+}
+
+function applySettings(project, settings) {
+  const next = { ...project };
+  if (settings && typeof settings === 'object') {
+    for (const key of SETTINGS) {
+      const value = Number(settings[key]);
+      if (Number.isFinite(value) && value > 0) next[key] = Math.round(value);
+    }
+  }
+  // The project's own entry in `compositions` (see server/formats.js) follows its size
+  if (Array.isArray(next.compositions)) next.compositions = next.compositions.map(c => c.id === next.compositionId ? { ...c, width: next.width, height: next.height } : c);
+  return next;
+}
+
+// Earlier steps of the thread are replayed as plain text so the model keeps the conversation's intent
+// without resending every intermediate version of the files.
+function refineMessages(project, instruction, thread, assets) {
+  const steps = (Array.isArray(thread) ? thread : []).slice(-8)
+    .filter(s => s && typeof s.instruction === 'string')
+    .map((s, i) => `${i + 1}. ${s.instruction}${s.summary ? ` → ${s.summary}` : ''}`);
+  const settings = SETTINGS.map(k => `${k}=${project[k]}`).join(', ');
+  const content = [
+    steps.length ? `Earlier refinements (already applied):\n${steps.join('\n')}` : '',
+    `Current settings: ${settings}`,
+    `Current files:\n${JSON.stringify(project.files)}`,
+    describeAssets(assets),
+    `Instruction: ${instruction}`,
+  ].filter(Boolean).join('\n\n');
+  return [
+    { role: 'system', content: REFINE_SYSTEM },
+    { role: 'user', content },
+  ];
+}
+
+function normalizeRefinement(parsed) {
+  return {
+    summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+    edits: Array.isArray(parsed.edits) ? parsed.edits : [],
+    settings: parsed.settings && typeof parsed.settings === 'object' ? parsed.settings : null,
+  };
+}
+
+module.exports = { applyEdits, applySettings, refineMessages, normalizeRefinement };
@@ -0,0 +1,251 @@
+// Render queue: each job copies the remotion-studio project into its own temporary directory, writes the
+// generated files into it and runs the Remotion CLI (`remotion render` / `remotion still`) against a locally
+// installed Chromium. Jobs run one at a time by default; progress is parsed from the CLI output.
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { spawn } = require('child_process');
+const { SCAFFOLD_FILES } = require('./scaffold');
+
+const FORMATS = {
+  mp4: { kind: 'video', codec: 'h264', file: 'out/video.mp4', type: 'video/mp4' },
+  webm: { kind: 'video', codec: 'vp8', file: 'out/video.webm', type: 'video/webm' },
+  png: { kind: 'still', file: 'out/still.png', type: 'image/png' },
+};
+
+const BROWSER_CANDIDATES = [
+  '/usr/bin/chromium', '/usr/bin/chromium-browser', '/usr/bin/google-chrome', '/usr/bin/google-chrome-stable',
+  '/snap/bin/chromium', '/Applications/Chromium.app/Contents/MacOS/Chromium',
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+];
+
+function findBrowser(env) {
+  const configured = env.REMOTION_BROWSER_EXECUTABLE || env.CHROMIUM_PATH;
+  if (configured) return configured;
+  return BROWSER_CANDIDATES.find(p => fs.existsSync(p)) || null;
+}
+
+function jobError(message, status) {
+  const err = new Error(message);
+  err.status = status || 400;
+  err.expose = true;
+  return err;
+}
+
+// Only project-relative paths under src/ or public/ are written into the work directory
+function safeRelative(file) {
+  const normalized = path.posix.normalize(String(file).replace(/\\/g, '/')).replace(/^\/+/, '');
+  if (normalized.startsWith('..') || !/^(src|public)\//.test(normalized)) return null;
+  return normalized;
+}
+
+// The CLI reports e.g. "Bundling 40%", "Rendered 45/150" and "Encoded 45/150"; map them onto one 0..1 scale
+function parseProgress(line, job) {
+  const ratio = line.match(/(\d+)\s*\/\s*(\d+)/);
+  const percent = line.match(/(\d+(?:\.\d+)?)%/);
+  const fraction = ratio && Number(ratio[2]) > 0 ? Number(ratio[1]) / Number(ratio[2]) : percent ? Number(percent[1]) / 100 : null;
+  if (/bundl/i.test(line)) { job.stage = 'bundling'; if (fraction != null) job.progress = Math.max(job.progress, 0.1 * fraction); }
+  else if (/render/i.test(line)) { job.stage = 'rendering'; if (fraction != null) job.progress = Math.max(job.progress, 0.1 + (job.format === 'png' ? 0.9 : 0.75) * fraction); }
+  else if (/encod|stitch/i.test(line)) { job.stage = 'encoding'; if (fraction != null) job.progress = Math.max(job.progress, 0.85 + 0.15 * fraction); }
+}
+
+function createRenderQueue(options) {
+  const studioDir = options.studioDir;
+  const workRoot = options.workDir || path.join(os.tmpdir(), 'visublocks-render');
+  const concurrency = Math.max(1, Number(options.concurrency || 1));
+  const timeoutMs = Math.max(10000, Number(options.timeoutMs || 10 * 60 * 1000));
+  const ttlMs = Math.max(60000, Number(options.ttlMs || 60 * 60 * 1000));
+  const env = options.env || process.env;
+  // Resolves project.assets entries to bytes (see server/assetStore.js)
+  const assets = options.assets || null;
+  // Structured logger (server/logger.js); every finished job is logged with its timings
+  const log = options.log || null;
+  const jobs = new Map();
+  const queue = [];
+  let running = 0;
+
+  function view(job) {
+    const { child, dir, file, timer, timedOut, project, ...rest } = job;
+    return { ...rest, downloadUrl: job.status === 'done' ? `/api/render/${job.id}/file` : null };
+  }
+
+  function removeDir(dir) {
+    fs.rm(dir, { recursive: true, force: true }, () => {});
+  }
+
+  // Drop finished jobs (and their files) once they are older than the TTL
+  function evict() {
+    const now = Date.now();
+    for (const job of jobs.values()) {
+      if (job.finishedAt && now - job.finishedAt > ttlMs) { removeDir(job.dir); jobs.delete(job.id); }
+    }
+  }
+
+  function prepare(job, project) {
+    fs.mkdirSync(job.dir, { recursive: true });
+    for (const name of SCAFFOLD_FILES) {
+      const from = path.join(studioDir, name);
+      if (fs.existsSync(from)) fs.copyFileSync(from, path.join(job.dir, name));
+    }
+    // Share the studio's installed dependencies instead of installing per job
+    fs.symlinkSync(path.join(studioDir, 'node_modules'), path.join(job.dir, 'node_modules'), 'dir');
+    for (const [file, content] of Object.entries(project.files)) {
+      const rel = safeRelative(file);
+      if (!rel) continue;
+      const abs = path.join(job.dir, rel);
+      fs.mkdirSync(path.dirname(abs), { recursive: true });
+      fs.writeFileSync(abs, String(content));
+    }
+    for (const [file, asset] of Object.entries(project.assets || {})) {
+      const rel = safeRelative(file);
+      if (!rel || !rel.startsWith('public/')) continue;
+      const bytes = assets ? assets.read(asset) : null;
+      if (!bytes) throw new Error(`asset ${rel} is not available`);
+      const abs = path.join(job.dir, rel);
+      fs.mkdirSync(path.dirname(abs), { recursive: true });
+      fs.writeFileSync(abs, bytes);
+    }
+    fs.mkdirSync(path.join(job.dir, 'out'), { recursive: true });
+  }
+
+  function finish(job, status, error) {
+    if (job.finishedAt) return;
+    clearTimeout(job.timer);
+    job.status = status;
+    job.finishedAt = Date.now();
+    job.child = null;
+    if (status === 'done') {
+      job.progress = 1;
+      job.stage = 'done';
+      try { job.size = fs.statSync(job.file).size; } catch { job.status = 'failed'; job.error = 'Renderer finished without writing an output file'; }
+    } else {
+      job.error = error || null;
+      removeDir(job.dir);
+    }
+    if (log) {
+      log[job.status === 'failed' ? 'warn' : 'info']('render', {
+        requestId: job.requestId || undefined, jobId: job.id, format: job.format, status: job.status,
+        queuedMs: (job.startedAt || job.finishedAt) - job.createdAt, ms: job.startedAt ? job.finishedAt - job.startedAt : undefined,
+        size: job.size || undefined, error: job.error || undefined,
+      });
+    }
+    running--;
+    pump();
+  }
+
+  function start(job) {
+    running++;
+    job.status = 'running';
+    job.stage = 'preparing';
+    job.startedAt = Date.now();
+    const cli = path.join(studioDir, 'node_modules', '.bin', 'remotion');
+    const browser = findBrowser(env);
+    if (!fs.existsSync(cli)) return finish(job, 'failed', 'Remotion CLI is not installed: run npm install in remotion-studio/');
+    if (!browser) return finish(job, 'failed', 'No Chromium found: install one or set REMOTION_BROWSER_EXECUTABLE');
+    try { prepare(job, job.project); }
+    catch (e) { return finish(job, 'failed', `Could not prepare the project: ${e.message}`); }
+    job.project = null;
+
+    const spec = FORMATS[job.format];
+    const args = spec.kind === 'still'
+      ? ['still', 'src/index.ts', job.compositionId, spec.file, `--frame=${job.frame}`]
+      : ['render', 'src/index.ts', job.compositionId, spec.file, `--codec=${spec.codec}`];
+    args.push(`--browser-executable=${browser}`, `--props=${JSON.stringify(job.inputProps || {})}`, '--log=verbose');
+
+    const child = spawn(cli, args, { cwd: job.dir, env: { ...env, CI: '1', FORCE_COLOR: '0' }, stdio: ['ignore', 'pipe', 'pipe'] });
+    job.child = child;
+    let tail = '';
+    const onData = (chunk) => {
+      const text = chunk.toString();
+      tail = (tail + text).slice(-4000);
+      for (const line of text.split(/[\r\n]+/)) if (line.trim()) parseProgress(line, job);
+    };
+    child.stdout.on('data', onData);
+    child.stderr.on('data', onData);
+    child.on('error', (e) => finish(job, 'failed', e.message));
+    child.on('close', (code, signal) => {
+      if (job.status === 'cancelled') return finish(job, 'cancelled');
+      if (job.timedOut) return finish(job, 'failed', `Timed out after ${Math.round(timeoutMs / 1000)} s`);
+      if (code === 0) return finish(job, 'done');
+      const lastLines = tail.trim().split(/\r?\n/).slice(-6).join('\n');
+      finish(job, 'failed', signal ? `Renderer stopped (${signal})` : `Renderer exited with code ${code}${lastLines ? `:\n${lastLines}` : ''}`);
+    });
+    job.timer = setTimeout(() => {
+      if (!job.child) return;
+      job.timedOut = true;
+      job.child.kill('SIGTERM');
+    }, timeoutMs);
+  }
+
+  function pump() {
+    while (running < concurrency && queue.length) start(queue.shift());
+  }
+
+  return {
+    // kind: 'video' (format mp4|webm) or 'still' (format png)
+    enqueue({ project, format, frame, inputProps, requestId }) {
+      evict();
+      if (!project || !project.files || typeof project.files['src/index.ts'] !== 'string') throw jobError('Missing project files');
+      if (!FORMATS[format]) throw jobError(`Unsupported format '${format}' (use mp4, webm or png)`);
+      const id = 'r_' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+      const dir = path.join(workRoot, id);
+      const duration = Math.max(1, Number(project.durationInFrames) || 1);
+      const job = {
+        id,
+        requestId: requestId || null,
+        kind: FORMATS[format].kind,
+        format,
+        compositionId: String(project.compositionId || 'MyComp'),
+        frame: Math.min(duration - 1, Math.max(0, Math.round(Number(frame) || 0))),
+        inputProps: inputProps && typeof inputProps === 'object' ? inputProps : {},
+        status: 'queued',
+        stage: 'queued',
+        progress: 0,
+        error: null,
+        createdAt: Date.now(),
+        startedAt: null,
+        finishedAt: null,
+        size: null,
+        dir,
+        file: path.join(dir, FORMATS[format].file),
+        project,
+      };
+      jobs.set(id, job);
+      queue.push(job);
+      pump();
+      return view(job);
+    },
+    get(id) {
+      const job = jobs.get(id);
+      return job ? view(job) : null;
+    },
+    list() {
+      evict();
+      return [...jobs.values()].sort((a, b) => b.createdAt - a.createdAt).map(view);
+    },
+    cancel(id) {
+      const job = jobs.get(id);
+      if (!job) return null;
+      if (job.status === 'queued') {
+        queue.splice(queue.indexOf(job), 1);
+        job.status = 'cancelled';
+        job.finishedAt = Date.now();
+      } else if (job.status === 'running') {
+        job.status = 'cancelled';
+        if (job.child) job.child.kill('SIGTERM');
+        else finish(job, 'cancelled');
+      }
+      return view(job);
+    },
+    // { path, type, name } of a finished job's output
+    output(id) {
+      const job = jobs.get(id);
+      if (!job || job.status !== 'done') return null;
+      const ext = path.extname(job.file);
+      return { path: job.file, type: FORMATS[job.format].type, name: `${job.compositionId}${ext}` };
+    },
+  };
+}
+
+module.exports = { createRenderQueue, findBrowser };
@@ -0,0 +1,67 @@
+// Per-request state. Everything a request decides (its id, logger, provider and model) lives on its own context
+// and is passed down explicitly, so concurrent requests never share or overwrite each other's configuration.
+
+const crypto = require('crypto');
+const { errorFields } = require('./logger');
+
+const INCOMING_ID = /^[\w.:-]{1,64}$/;
+
+// { id, client, log, startedAt }. The id comes from X-Request-Id when the caller sent a usable one and is echoed
+// back in the response; one access log line is written when the response ends or the client goes away.
+function createRequestContext(req, res, logger) {
+  const incoming = String(req.headers['x-request-id'] || '');
+  const id = INCOMING_ID.test(incoming) ? incoming : crypto.randomBytes(8).toString('hex');
+  const startedAt = Date.now();
+  // Runs before the router's error handling, so a malformed target such as "//[x" must not throw here
+  let path = String(req.url || '').split('?')[0];
+  try { path = new URL(req.url, 'http://localhost').pathname; } catch { /* logged as sent */ }
+  const ctx = { id, client: null, log: logger.child({ requestId: id }), startedAt };
+  res.setHeader('X-Request-Id', id);
+  let logged = false;
+  const done = () => {
+    if (logged) return;
+    logged = true;
+    const status = res.statusCode;
+    ctx.log[status >= 500 ? 'error' : 'info']('request', {
+      method: req.method,
+      path,
+      status,
+      ms: Date.now() - startedAt,
+      client: ctx.client || undefined,
+      aborted: res.writableFinished ? undefined : true,
+    });
+  };
+  res.on('finish', done);
+  res.on('close', done);
+  return ctx;
+}
+
+// The provider as seen by one request: the same interface, with every model call logged (provider, model, task,
+// duration, upstream status) under the request's id
+function scopeProvider(provider, log) {
+  return {
+    ...provider,
+    async chat(request) {
+      const startedAt = Date.now();
+      const fields = { provider: provider.id, model: request.model || provider.model, task: request.task || 'project' };
+      try {
+        const content = await provider.chat(request);
+        log.info('upstream', { ...fields, ms: Date.now() - startedAt, upstreamStatus: provider.id === 'offline' ? undefined : 200, chars: content ? content.length : 0 });
+        return content;
+      } catch (e) {
+        const aborted = e && e.name === 'AbortError';
+        log[aborted ? 'info' : 'warn']('upstream', { ...fields, ms: Date.now() - startedAt, ...(aborted ? { aborted: true } : errorFields(e)) });
+        throw e;
+      }
+    },
+  };
+}
+
+// Provider and model of a model request body ({ provider, model, fast }), frozen so nothing downstream can change them
+function modelConfig(providers, json, log) {
+  const provider = providers.get(json.provider);
+  const model = String(json.model || (json.fast ? provider.fastModel : provider.model));
+  return Object.freeze({ provider: scopeProvider(provider, log), model });
+}
+
+module.exports = { createRequestContext, scopeProvider, modelConfig };
@@ -0,0 +1,20 @@
+// The project scaffold around generated files: the configuration files of remotion-studio/, which is a working
+// Remotion project. Render jobs copy them next to the generated src/ and public/ files, and project exports
+// (GET /api/scaffold) ship them so the archive runs with `npm install && npx remotion studio`.
+
+const fs = require('fs');
+const path = require('path');
+
+const SCAFFOLD_FILES = ['package.json', 'tsconfig.json', 'remotion.config.ts'];
+
+// { <file>: content } for the scaffold files that exist in studioDir
+function readScaffold(studioDir) {
+  const files = {};
+  for (const name of SCAFFOLD_FILES) {
+    const file = path.join(studioDir, name);
+    if (fs.existsSync(file)) files[name] = fs.readFileSync(file, 'utf8');
+  }
+  return files;
+}
+
+module.exports = { SCAFFOLD_FILES, readScaffold };
@@ -0,0 +1,173 @@
+// Storyboard mode: every block segment of the prompt becomes its own scene with its own length and entrance
+// transition. Scenes are generated (or reused) one at a time and then assembled here, without the model, into a
+// <Series> in src/MyComp.tsx. Each scene keeps its files under src/scenes/<name>/, so regenerating one scene
+// leaves the code of the others byte-for-byte the same.
+
+const crypto = require('crypto');
+
+const TRANSITIONS = ['cut', 'fade', 'slide', 'wipe'];
+const TRANSITION_FRAMES = 15;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const ENTRY_FILES = new Set(['src/index.ts', 'src/Root.tsx']);
+
+function storyboardError(message) {
+  return Object.assign(new Error(message), { status: 400, expose: true });
+}
+
+// Validate and normalize the scene list of a /api/storyboard request
+function normalizeScenes(input, fps) {
+  if (!Array.isArray(input) || !input.length) throw storyboardError('A storyboard needs at least one block segment');
+  if (input.length > 24) throw storyboardError('A storyboard can have at most 24 scenes');
+  return input.map((scene, i) => {
+    if (!scene || typeof scene !== 'object' || !scene.block || typeof scene.block !== 'object') throw storyboardError(`Scene ${i + 1}: missing block`);
+    const seconds = Number(scene.seconds);
+    if (!Number.isFinite(seconds) || seconds <= 0 || seconds > 60) throw storyboardError(`Scene ${i + 1}: seconds must be between 0 and 60`);
+    const transition = scene.transition == null ? 'cut' : String(scene.transition);
+    if (!TRANSITIONS.includes(transition)) throw storyboardError(`Scene ${i + 1}: unknown transition "${transition}" (use ${TRANSITIONS.join(', ')})`);
+    const previous = scene.previous && typeof scene.previous.key === 'string' && scene.previous.files && typeof scene.previous.files['src/MyComp.tsx'] === 'string' ? scene.previous : null;
+    return {
+      id: String(scene.id || `scene-${i + 1}`),
+      block: scene.block,
+      notes: String(scene.notes || '').trim(),
+      durationInFrames: Math.max(1, Math.round(seconds * fps)),
+      transition,
+      previous,
+      regenerate: Boolean(scene.regenerate),
+    };
+  });
+}
+
+function paramValue(block, key) {
+  const given = (block.params || []).find(p => p && p.key === key);
+  return given && given.value !== undefined ? given.value : given ? given.default : undefined;
+}
+
+// Values for the block's bound params, when the block can play as it is: no scene notes, no context attachment
+// and every param that differs from its default is a prop of the block's MyComp. Otherwise null (generate instead).
+function blockSceneProps(scene) {
+  const { block } = scene;
+  const files = block.project && block.project.files;
+  if (scene.notes || !files || typeof files['src/MyComp.tsx'] !== 'string') return null;
+  if (block.context && (block.context.url || block.context.data)) return null;
+  const bound = new Set((block.project.props || []).filter(p => p && p.bound !== false).map(p => p.key));
+  const props = {};
+  for (const param of (block.def && block.def.params) || []) {
+    const value = paramValue(block, param.key);
+    if (bound.has(param.key) && IDENTIFIER.test(param.key)) props[param.key] = value === undefined ? param.default : value;
+    else if (value !== undefined && JSON.stringify(value) !== JSON.stringify(param.default)) return null;
+  }
+  return props;
+}
+
+// Identifies what a scene's code depends on; a scene whose key did not change can be reused as it is.
+// Duration is part of it (the model times its animation to it), the transition is not (it is applied on assembly).
+function sceneKey(scene, brief, size) {
+  const { block } = scene;
+  const reuse = blockSceneProps(scene);
+  const basis = {
+    block: block.id,
+    files: block.project && block.project.files,
+    params: (block.params || []).map(p => [p.key, p.value === undefined ? p.default : p.value]),
+    context: block.context || null,
+    notes: scene.notes,
+    brief: reuse ? '' : brief,
+    durationInFrames: scene.durationInFrames,
+    size,
+  };
+  return crypto.createHash('sha1').update(JSON.stringify(basis)).digest('hex').slice(0, 16);
+}
+
+// A scene's own files: everything the project had except the entry and Root, which the storyboard replaces
+function sceneFiles(files) {
+  const out = {};
+  for (const [file, content] of Object.entries(files || {})) if (!ENTRY_FILES.has(file) && file.startsWith('src/')) out[file] = content;
+  return out;
+}
+
+const sceneDir = (i) => `scene${i + 1}`;
+
+// Inline data URLs are left out (the scene falls back to its default) rather than written into src/MyComp.tsx
+function jsxProps(props) {
+  return Object.entries(props || {})
+    .filter(([, value]) => !(typeof value === 'string' && value.startsWith('data:')))
+    .map(([key, value]) => ` ${key}={${JSON.stringify(value)}}`).join('');
+}
+
+// Build the project for a list of finished scenes ({ name, files, props, durationInFrames, transition, assets? }).
+// Each scene enters over the end of the previous one, so a transition overlaps the two scenes by its length.
+function assembleStoryboard(scenes, { fps, width, height }) {
+  const files = {};
+  const assets = {};
+  const imports = [];
+  const items = [];
+  let total = 0;
+  scenes.forEach((scene, i) => {
+    const dir = sceneDir(i);
+    for (const [file, content] of Object.entries(scene.files)) files[`src/scenes/${dir}/${file.slice(4)}`] = content;
+    Object.assign(assets, scene.assets || {});
+    const previous = scenes[i - 1];
+    const overlap = !previous || scene.transition === 'cut' ? 0 : Math.min(TRANSITION_FRAMES, Math.floor(Math.min(previous.durationInFrames, scene.durationInFrames) / 2));
+    const type = overlap ? scene.transition : 'cut';
+    total += scene.durationInFrames - overlap;
+    imports.push(`import {MyComp as Scene${i + 1}} from './scenes/${dir}/MyComp';`);
+    items.push(
+      `        <Series.Sequence name=${JSON.stringify(`${i + 1}. ${scene.name}`)} durationInFrames={${scene.durationInFrames}}${overlap ? ` offset={${-overlap}}` : ''}>\n` +
+      `          <Transition type="${type}" frames={${overlap}}>\n` +
+      `            <Scene${i + 1}${jsxProps(scene.props)} />\n` +
+      `          </Transition>\n` +
+      `        </Series.Sequence>`
+    );
+  });
+
+  files['src/MyComp.tsx'] = `import React from 'react';
+import {AbsoluteFill, Series, interpolate, useCurrentFrame} from 'remotion';
+${imports.join('\n')}
+
+// Entrance of a scene over the end of the previous one
+const Transition: React.FC<{type: 'cut' | 'fade' | 'slide' | 'wipe'; frames: number; children: React.ReactNode}> = ({type, frames, children}) => {
+  const frame = useCurrentFrame();
+  const t = frames > 0 ? interpolate(frame, [0, frames], [0, 1], {extrapolateLeft: 'clamp', extrapolateRight: 'clamp'}) : 1;
+  const style: React.CSSProperties =
+    type === 'fade' ? {opacity: t} :
+    type === 'slide' ? {transform: \`translateX(\${(1 - t) * 100}%)\`} :
+    type === 'wipe' ? {clipPath: \`inset(0 \${(1 - t) * 100}% 0 0)\`} :
+    {};
+  return <AbsoluteFill style={style}>{children}</AbsoluteFill>;
+};
+
+export const MyComp: React.FC = () => {
+  return (
+    <AbsoluteFill style={{background: '#000'}}>
+      <Series>
+${items.join('\n')}
+      </Series>
+    </AbsoluteFill>
+  );
+};
+`;
+  files['src/Root.tsx'] = `import React from 'react';
+import {Composition} from 'remotion';
+import {MyComp} from './MyComp';
+
+export const Root: React.FC = () => {
+  return (
+    <>
+      <Composition
+        id="MyComp"
+        component={MyComp}
+        durationInFrames={${total}}
+        width={${width}}
+        height={${height}}
+        fps={${fps}}
+        defaultProps={{}}
+      />
+    </>
+  );
+};
+`;
+  files['src/index.ts'] = "import {registerRoot} from 'remotion';\nimport {Root} from './Root';\n\nregisterRoot(Root);\n";
+  const project = { kind: 'remotion-project', files, compositionId: 'MyComp', width, height, fps, durationInFrames: total };
+  return Object.keys(assets).length ? { ...project, assets } : project;
+}
+
+module.exports = { TRANSITIONS, TRANSITION_FRAMES, normalizeScenes, blockSceneProps, sceneKey, sceneFiles, assembleStoryboard };
@@ -0,0 +1,80 @@
+// Server-Sent Events helpers: our own event stream to the browser, the upstream chat-completions stream,
+// and best-effort extraction of file contents from a project JSON that is still being streamed.
+
+function openEventStream(res) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(': stream open\n\n');
+  return {
+    send(event, data) {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (!res.writableEnded) res.end();
+    }
+  };
+}
+
+// Consume an OpenAI-compatible streaming response ("data: {...}" lines, terminated by "data: [DONE]").
+// Calls onDelta with the accumulated content after every chunk and resolves with the full content.
+async function readChatStream(body, onDelta) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let nl;
+    while ((nl = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, nl).trim();
+      buffer = buffer.slice(nl + 1);
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return content;
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) { content += delta; onDelta(content); }
+      } catch { /* keep-alive or malformed line */ }
+    }
+  }
+  return content;
+}
+
+function decodePartialString(text, start) {
+  let out = '';
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') return { value: out, end: i + 1 };
+    if (ch !== '\\') { out += ch; continue; }
+    const esc = text[i + 1];
+    if (esc === undefined) break;
+    if (esc === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    out += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' })[esc] ?? esc;
+    i++;
+  }
+  return { value: out, end: text.length };
+}
+
+// Pull "path": "contents" pairs out of an incomplete project JSON; the last file may be cut off mid-string
+function extractPartialFiles(text) {
+  const files = {};
+  const keyRe = /"((?:src|public)\/[^"\\]+)"\s*:\s*"/g;
+  let m;
+  while ((m = keyRe.exec(text))) {
+    const { value, end } = decodePartialString(text, keyRe.lastIndex);
+    files[m[1]] = value;
+    keyRe.lastIndex = end;
+  }
+  return files;
+}
+
+module.exports = { openEventStream, readChatStream, extractPartialFiles };
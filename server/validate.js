@@ -0,0 +1,116 @@
+// Static checks for model-generated Remotion projects: shape, compilation, import resolution and the shared
+// lint rules (web/src/shared/lint.js). Compilation uses sucrase from web/node_modules (the same compiler the preview
+// uses); when it is not installed only the shape and import checks run.
+
+const path = require('path');
+const { pathToFileURL } = require('url');
+
+let compiler;
+function loadCompiler() {
+  if (compiler !== undefined) return compiler;
+  try {
+    compiler = require(require.resolve('sucrase', { paths: [path.join(__dirname, '..', 'web')] }));
+  } catch {
+    compiler = null;
+  }
+  return compiler;
+}
+
+// Packages the in-browser preview can provide to generated code
+const PREVIEW_PACKAGES = new Set(['react', 'remotion']);
+
+// The lint rules (determinism, network, timers, undeclared names) are shared with the web app as an ES module,
+// so they are loaded with import(); server.js waits for loadLinter() before it accepts requests.
+let linter = null;
+function loadLinter() {
+  return import(pathToFileURL(path.join(__dirname, '..', 'web', 'src', 'shared', 'lint.js')).href).then(m => { linter = m; return m; });
+}
+
+// --- Project checks --------------------------------------------------------
+
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.json'];
+
+function resolveImport(files, from, spec) {
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(from), spec));
+  const candidates = [base, ...RESOLVE_EXTENSIONS.map(ext => base + ext), ...RESOLVE_EXTENSIONS.map(ext => base + '/index' + ext)];
+  return candidates.find(c => typeof files[c] === 'string') || null;
+}
+
+function transformsFor(file) {
+  if (/\.tsx$/.test(file)) return ['typescript', 'jsx', 'imports'];
+  if (/\.ts$/.test(file)) return ['typescript', 'imports'];
+  return ['jsx', 'imports'];
+}
+
+function diag(file, message, extra) {
+  return Object.assign({ file, line: 1, column: 1, severity: 'error', message }, extra);
+}
+
+// `lint` is passed to the lint rules (lintFile's options: the brand palette)
+function validateProject(spec, lint) {
+  const diagnostics = [];
+  if (!spec || spec.kind !== 'remotion-project' || !spec.files || typeof spec.files !== 'object') {
+    return [diag('', 'Response is not a remotion-project with a files map', { code: 'shape' })];
+  }
+  const files = spec.files;
+  for (const required of ['src/index.ts', 'src/Root.tsx', 'src/MyComp.tsx']) {
+    if (typeof files[required] !== 'string') diagnostics.push(diag(required, 'Required file is missing', { code: 'shape' }));
+  }
+
+  const sucrase = loadCompiler();
+  for (const [file, source] of Object.entries(files)) {
+    if (typeof source !== 'string') { diagnostics.push(diag(file, 'File content must be a string', { code: 'shape' })); continue; }
+    if (file.endsWith('.json')) {
+      try { JSON.parse(source); } catch (e) { diagnostics.push(diag(file, 'Invalid JSON: ' + e.message, { code: 'compile' })); }
+      continue;
+    }
+    if (!/\.(tsx?|jsx?)$/.test(file)) continue;
+
+    // Module specifiers, checked on the source so the compiler is not required for them
+    const importRe = /(?:^|[\s;])(?:import|export)\s[^'"`;]*?from\s*['"]([^'"]+)['"]|(?:^|[\s;])import\s*['"]([^'"]+)['"]/g;
+    let m;
+    while ((m = importRe.exec(source))) {
+      const specifier = m[1] || m[2];
+      const line = source.slice(0, m.index).split('\n').length + (source[m.index] === '\n' ? 1 : 0);
+      if (specifier.startsWith('.') || specifier.startsWith('/')) {
+        if (!resolveImport(files, file, specifier)) diagnostics.push(diag(file, `Cannot resolve import '${specifier}'`, { line, code: 'resolve' }));
+      } else if (!PREVIEW_PACKAGES.has(specifier)) {
+        diagnostics.push(diag(file, `Package '${specifier}' is not available in the preview; only 'react' and 'remotion' can be imported`, { line, code: 'resolve' }));
+      }
+    }
+
+    if (!sucrase) continue;
+    let js;
+    try {
+      js = sucrase.transform(source, { transforms: transformsFor(file), filePath: file, production: true }).code;
+    } catch (e) {
+      const loc = e.loc || {};
+      diagnostics.push(diag(file, String(e.message || e).replace(/^Error transforming [^:]+: /, '').replace(/ \(\d+:\d+\)$/, ''), { line: loc.line || 1, column: loc.column || 1, code: 'compile' }));
+      continue;
+    }
+    if (!linter) continue;
+    for (const f of linter.lintFile(source, file, js, lint)) {
+      diagnostics.push(diag(file, f.message, { line: f.line, column: f.column, severity: f.severity, code: f.code }));
+    }
+  }
+  if (!sucrase) diagnostics.push(diag('', 'Compiler not installed (run npm install in web/); compile checks skipped', { severity: 'warning', code: 'compiler-missing' }));
+  else if (!linter) diagnostics.push(diag('', 'Lint rules not loaded; determinism and safety checks skipped', { severity: 'warning', code: 'lint-missing' }));
+  return diagnostics;
+}
+
+// Apply the lint fixes that are safe (seeded random() for Math.random(), missing react/remotion imports).
+// Returns the fixed project and the fixed findings as warnings, so they can be reported next to validateProject's.
+function applyLintFixes(spec) {
+  const sucrase = loadCompiler();
+  if (!linter || !sucrase || !spec || !spec.files || typeof spec.files !== 'object') return { spec, fixed: [] };
+  const compile = (source, file) => sucrase.transform(source, { transforms: transformsFor(file), filePath: file, production: true }).code;
+  const { files, applied } = linter.applyFixes(spec.files, linter.lintProject(spec.files, compile));
+  const fixed = applied.map(f => diag(f.file, f.message, { line: f.line, column: f.column, severity: 'warning', code: f.code, fixed: true }));
+  return { spec: applied.length ? { ...spec, files } : spec, fixed };
+}
+
+function formatDiagnostics(diagnostics) {
+  return diagnostics.map(d => `${d.file || '(project)'}:${d.line}:${d.column} ${d.severity}: ${d.message}${d.fixed ? ' (fixed)' : ''}`).join('\n');
+}
+
+module.exports = { validateProject, applyLintFixes, formatDiagnostics, loadLinter };
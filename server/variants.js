@@ -0,0 +1,46 @@
+// Variants: several generations of the same request that differ only in how the model samples (seed, and
+// temperature when a range is given), run a few at a time so one request never opens more upstream calls than
+// VARIANT_CONCURRENCY.
+
+function variantError(message) {
+  return Object.assign(new Error(message), { status: 400, expose: true });
+}
+
+// Sampling of each variant of a /api/generate/variants request ({ variants, seed?, temperature? }): consecutive
+// seeds from `seed` (default 1) and, when `temperature` is a number or a [min, max] range, temperatures spread evenly
+// over it. Without a range the provider's default temperature is kept (some models, gpt-5 among them, accept no other).
+function variantSamplings(json, maxVariants) {
+  const count = Number(json.variants);
+  if (!Number.isInteger(count) || count < 1 || count > maxVariants) throw variantError(`variants must be a whole number from 1 to ${maxVariants}`);
+  let range = null;
+  if (json.temperature != null) {
+    range = (Array.isArray(json.temperature) ? json.temperature : [json.temperature, json.temperature]).map(Number);
+    if (range.length !== 2 || !range.every(t => Number.isFinite(t) && t >= 0 && t <= 2) || range[0] > range[1]) {
+      throw variantError('temperature must be a number or a [min, max] range between 0 and 2');
+    }
+  }
+  const seed = Number.isInteger(json.seed) ? json.seed : 1;
+  return Array.from({ length: count }, (_, index) => ({
+    index,
+    seed: seed + index,
+    temperature: range ? Math.round((range[0] + (count > 1 ? (range[1] - range[0]) * index / (count - 1) : 0)) * 100) / 100 : undefined,
+  }));
+}
+
+// Call fn(item, index) for every item with at most `limit` calls running at once. Resolves, in item order, with
+// { value } or { error } for each one: a failed item does not stop the others.
+async function mapSettled(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      try { results[i] = { value: await fn(items[i], i) }; }
+      catch (error) { results[i] = { error }; }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+module.exports = { variantSamplings, mapSettled };
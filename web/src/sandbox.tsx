@@ -0,0 +1,149 @@
+import React from 'react';
+import {createRoot} from 'react-dom/client';
+import {Player} from '@remotion/player';
+import * as Remotion from 'remotion';
+import {loadProjectModule, ModuleError} from './ui/modules';
+import {createLoopGuard, instrumentLoops, LOOP_GUARD} from './ui/loopGuard';
+import {HEARTBEAT_MS, isSandboxMessage, LOOP_BUDGET_MS, PlayerOptions, postFromSandbox, SandboxError, SandboxErrorPhase, SandboxProject, ToSandbox} from './ui/sandboxProtocol';
+
+// Runs inside sandbox.html: compiles the project sent by the app, plays it in a Remotion Player and reports
+// errors (mapped back to source lines) and a heartbeat to the parent window.
+
+(globalThis as any)[LOOP_GUARD] = createLoopGuard(LOOP_BUDGET_MS);
+
+// Source line N is body line N + 1 of its module (transpileTSX adds a prelude line), and engines number a
+// `new Function` body from wherever their generated header ends; the line a probe's first body line reports
+// as is therefore exactly the offset to subtract.
+const LINE_OFFSET = (() => {
+  try { new Function('throw new Error("probe")\n//# sourceURL=vb-probe.js')(); }
+  catch (e: any) {
+    const m = /vb-probe\.js:(\d+)/.exec(String(e?.stack));
+    if (m) return Number(m[1]);
+  }
+  return 3;
+})();
+
+type Position = { file?: string; line?: number; column?: number };
+
+let files: Record<string, string> = {};
+let lastReported = '';
+
+// First stack frame that points into a project file (Chrome "(src/A.tsx:12:5)", Firefox "@src/A.tsx:12:5")
+function locate(error: any): Position {
+  const re = /(?:^|[\s(@])([\w.-][\w./-]*\.(?:tsx|ts|jsx|js)):(\d+):(\d+)/gm;
+  const stack = String(error?.stack || '');
+  for (let m = re.exec(stack); m; m = re.exec(stack)) {
+    if (typeof files[m[1]] === 'string') return { file: m[1], line: Math.max(1, Number(m[2]) - LINE_OFFSET), column: Number(m[3]) };
+  }
+  return {};
+}
+
+function describe(error: any, phase: SandboxErrorPhase): SandboxError {
+  if (error instanceof ModuleError) {
+    let position: Position = { file: error.file };
+    if (error.phase === 'compile') {
+      // Sucrase reports positions in the original source as "(line:column)"
+      const m = /\((\d+):(\d+)\)/.exec(error.message);
+      if (m) position = { file: error.file, line: Number(m[1]), column: Number(m[2]) };
+    } else if (error.phase === 'resolve') {
+      const spec = /'([^']+)'/.exec(error.message)?.[1];
+      const index = spec ? (files[error.file] || '').split('\n').findIndex(l => l.includes(`'${spec}'`) || l.includes(`"${spec}"`)) : -1;
+      if (index !== -1) position = { file: error.file, line: index + 1 };
+    } else {
+      position = { ...position, ...locate(error.cause) };
+    }
+    return { phase: error.cause?.name === 'LoopLimitError' ? 'loop' : error.phase, message: error.message, ...position };
+  }
+  return { phase: error?.name === 'LoopLimitError' ? 'loop' : phase, message: String(error?.message || error), ...locate(error) };
+}
+
+// The same error tends to surface several times (React replays render errors, effects rerun every frame)
+function report(error: SandboxError) {
+  const key = `${error.message}|${error.file}|${error.line}`;
+  if (key === lastReported) return;
+  lastReported = key;
+  postFromSandbox({ type: 'error', error });
+}
+
+class Boundary extends React.Component<{ resetKey: string; children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+  static getDerivedStateFromError() { return { failed: true }; }
+  componentDidCatch(error: any) { report(describe(error, 'render')); }
+  // New props may fix the error, so try again when they change
+  componentDidUpdate(prev: { resetKey: string }) {
+    if (this.state.failed && prev.resetKey !== this.props.resetKey) this.setState({ failed: false });
+  }
+  render() { return this.state.failed ? null : this.props.children; }
+}
+
+// Wrap the composition so a render error is reported and blanks the frame instead of unmounting the Player
+function guarded(Comp: React.ComponentType<any>): React.FC<any> {
+  return (props) => <Boundary resetKey={JSON.stringify(props)}><Comp {...props} /></Boundary>;
+}
+
+const root = createRoot(document.getElementById('root')!);
+let current: { Comp: React.FC<any>; project: SandboxProject; inputProps: Record<string, any>; options: PlayerOptions; run: number } | null = null;
+
+function render() {
+  if (!current) return root.render(null);
+  const {Comp, project, inputProps, options, run} = current;
+  root.render(
+    <Player
+      key={run}
+      component={Comp}
+      durationInFrames={project.durationInFrames || 150}
+      fps={project.fps || 30}
+      compositionWidth={project.width || 1920}
+      compositionHeight={project.height || 1080}
+      inputProps={inputProps}
+      {...options}
+      style={{width:'100%', height:'100%'}}
+    />
+  );
+}
+
+let assetUrls: Record<string, string> = {};
+
+// Remotion as the project sees it: staticFile() points at the assets the app sent instead of the page's public/
+function remotionWithAssets(assets: Record<string, Blob> = {}) {
+  Object.values(assetUrls).forEach(url => URL.revokeObjectURL(url));
+  assetUrls = Object.fromEntries(Object.entries(assets).map(([path, blob]) => [path, URL.createObjectURL(blob)]));
+  const staticFile = (name: string) => {
+    const path = 'public/' + String(name).replace(/^\/+/, '');
+    const url = assetUrls[path] ?? assetUrls[(() => { try { return decodeURIComponent(path); } catch { return path; } })()];
+    if (url) return url;
+    report({ phase: 'runtime', message: `staticFile('${name}'): there is no ${path} in this project. Upload it in the Assets panel or fix the name.` });
+    return Remotion.staticFile(name);
+  };
+  return { ...Remotion, staticFile };
+}
+
+function load(message: Extract<ToSandbox, { type: 'load' }>) {
+  files = message.project.files;
+  lastReported = '';
+  current = null;
+  try {
+    const remotion = remotionWithAssets(message.project.assets);
+    const {file, component} = message.project.entry || { file: 'src/MyComp.tsx', component: 'MyComp' };
+    const exports = loadProjectModule(files, file, { react: React, remotion }, instrumentLoops);
+    const Comp = exports[component] || exports.default;
+    if (!Comp) report({ phase: 'evaluate', message: `${file} does not export ${component}`, file });
+    else current = { Comp: guarded(Comp), project: message.project, inputProps: message.inputProps, options: message.options, run: Date.now() };
+  } catch (e: any) {
+    report(describe(e, 'evaluate'));
+  }
+  render();
+  if (current) postFromSandbox({ type: 'loaded' });
+}
+
+window.addEventListener('message', (e) => {
+  if (e.source !== window.parent || !isSandboxMessage(e.data)) return;
+  const message = e.data as ToSandbox;
+  if (message.type === 'load') load(message);
+  else if (message.type === 'props' && current) { current = { ...current, inputProps: message.inputProps }; render(); }
+});
+window.addEventListener('error', (e) => report(describe(e.error ?? e.message, 'runtime')));
+window.addEventListener('unhandledrejection', (e) => report(describe(e.reason, 'runtime')));
+
+setInterval(() => postFromSandbox({ type: 'heartbeat' }), HEARTBEAT_MS);
+postFromSandbox({ type: 'ready' });
@@ -0,0 +1,38 @@
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | 'nondeterministic-random'
+  | 'nondeterministic-time'
+  | 'timer'
+  | 'network'
+  | 'missing-import'
+  | 'undeclared'
+  | 'off-brand-color';
+
+// A replacement of source[start, end) by text
+export type LintFix = { start: number; end: number; text: string };
+
+export type LintFinding = {
+  file: string;
+  line: number;
+  column: number;
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+  fix?: LintFix;
+};
+
+// palette: the brand's hex colors; other non-neutral colors are reported as off-brand-color
+export type LintOptions = { palette?: string[] };
+
+export type Token = { type: 'name' | 'num' | 'string' | 'template' | 'regex' | 'punct'; value: string; line: number; col: number };
+
+export declare const INJECTED_SCOPE: { React: string[]; Remotion: string[] };
+
+export declare function tokenize(code: string): Token[];
+
+export declare function lintFile(source: string, file: string, js: string, options?: LintOptions): LintFinding[];
+
+export declare function lintProject(files: Record<string, string>, compile: (source: string, file: string) => string, options?: LintOptions): LintFinding[];
+
+export declare function applyFixes(files: Record<string, string>, findings: LintFinding[]): { files: Record<string, string>; applied: LintFinding[] };
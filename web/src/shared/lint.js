@@ -0,0 +1,522 @@
+// Determinism, safety and brand lint for generated Remotion code, shared by the server (after generation, loaded with
+// import() from server/validate.js) and the web app (before preview). Plain JavaScript so Node can load it
+// without a build step; types are in lint.d.ts.
+//
+// Rules run on the compiled JavaScript of each file (types and JSX removed, line numbers kept by sucrase) and
+// report positions in the original source. Findings whose fix is safe carry `fix: { start, end, text }`, a
+// replacement in the source that applyFixes() performs.
+
+// Names transpileTSX (web/src/ui/transpile.ts) destructures into every module, by the object they come from
+export const INJECTED_SCOPE = {
+  React: ['useState', 'useEffect', 'useMemo', 'useRef', 'useCallback', 'useLayoutEffect', 'Fragment', 'createElement', 'Suspense'],
+  Remotion: ['useCurrentFrame', 'useVideoConfig', 'AbsoluteFill', 'Img', 'Audio', 'OffthreadVideo', 'staticFile', 'continueRender',
+    'delayRender', 'interpolate', 'spring', 'random', 'Easing', 'Sequence', 'Series'],
+};
+
+// Injected names plus the CommonJS wrapper arguments of each module
+const SCOPE = ['React', 'Remotion', 'exports', 'require', 'module', ...INJECTED_SCOPE.React, ...INJECTED_SCOPE.Remotion];
+
+// Exports that are not injected but can be imported; an undeclared use of one gets an import added
+const IMPORTABLE = {
+  react: ['useReducer', 'useContext', 'createContext', 'forwardRef', 'memo', 'Children', 'cloneElement', 'isValidElement', 'useId',
+    'useTransition', 'useDeferredValue', 'useImperativeHandle', 'useInsertionEffect', 'useSyncExternalStore', 'startTransition', 'lazy'],
+  remotion: ['Loop', 'Freeze', 'Still', 'Video', 'IFrame', 'Composition', 'Folder', 'interpolateColors', 'measureSpring',
+    'getInputProps', 'useCurrentScale', 'prefetch', 'cancelRender', 'registerRoot', 'getStaticFiles', 'useBufferState'],
+};
+
+const GLOBALS = [
+  'undefined', 'NaN', 'Infinity', 'globalThis', 'window', 'self', 'document', 'console', 'navigator', 'location', 'performance',
+  'Math', 'JSON', 'Number', 'String', 'Boolean', 'Symbol', 'BigInt', 'Object', 'Array', 'Function', 'Date', 'RegExp', 'Error',
+  'TypeError', 'RangeError', 'SyntaxError', 'Promise', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Proxy', 'Reflect', 'Intl',
+  'ArrayBuffer', 'DataView', 'Uint8Array', 'Uint8ClampedArray', 'Uint16Array', 'Uint32Array', 'Int8Array', 'Int16Array',
+  'Int32Array', 'Float32Array', 'Float64Array', 'parseInt', 'parseFloat', 'isNaN', 'isFinite', 'encodeURIComponent',
+  'decodeURIComponent', 'encodeURI', 'decodeURI', 'atob', 'btoa', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval',
+  'requestAnimationFrame', 'cancelAnimationFrame', 'queueMicrotask', 'structuredClone', 'fetch', 'URL', 'URLSearchParams',
+  'TextEncoder', 'TextDecoder', 'Image', 'Blob', 'FontFace', 'getComputedStyle', 'matchMedia', 'ResizeObserver',
+  'IntersectionObserver', 'CSS', 'DOMParser', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'localStorage', 'sessionStorage',
+  'alert', 'arguments', 'eval',
+];
+
+const KEYWORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'export', 'extends',
+  'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'return', 'super', 'switch', 'this', 'throw',
+  'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'await', 'async', 'of', 'null', 'true', 'false', 'static', 'get', 'set',
+]);
+
+// Keywords after which a `/` starts a regular expression rather than a division
+const REGEX_AFTER = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw', 'instanceof', 'yield', 'await']);
+
+// --- Tokenizer (plain JavaScript, as emitted by sucrase) -------------------
+
+export function tokenize(code) {
+  const tokens = [];
+  let i = 0, line = 1, col = 1;
+  const braces = []; // '{' for blocks, '`' for template substitutions
+  const advance = (n) => {
+    for (let k = 0; k < n; k++) {
+      if (code[i] === '\n') { line++; col = 1; } else col++;
+      i++;
+    }
+  };
+  const push = (type, value, l, c) => tokens.push({ type, value, line: l, col: c });
+  const regexAllowed = () => {
+    const prev = tokens[tokens.length - 1];
+    if (!prev) return true;
+    if (prev.type === 'num' || prev.type === 'string' || prev.type === 'template' || prev.type === 'regex') return false;
+    if (prev.type === 'name') return REGEX_AFTER.has(prev.value);
+    return !(prev.value === ')' || prev.value === ']' || prev.value === '}');
+  };
+  const scanTemplate = () => {
+    // i points just after a backtick or a closing `}` of a substitution
+    const l = line, c = col, from = i;
+    while (i < code.length) {
+      if (code[i] === '\\') { advance(2); continue; }
+      if (code[i] === '`') { const text = code.slice(from, i); advance(1); push('template', text, l, c); return; }
+      if (code[i] === '$' && code[i + 1] === '{') { const text = code.slice(from, i); advance(2); braces.push('`'); push('template', text, l, c); return; }
+      advance(1);
+    }
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '\n' || ch === ' ' || ch === '\t' || ch === '\r') { advance(1); continue; }
+    if (ch === '/' && code[i + 1] === '/') { while (i < code.length && code[i] !== '\n') advance(1); continue; }
+    if (ch === '/' && code[i + 1] === '*') { const end = code.indexOf('*/', i + 2); advance((end === -1 ? code.length : end + 2) - i); continue; }
+    const l = line, c = col;
+    if (/[A-Za-z_$]/.test(ch)) {
+      let j = i + 1; while (j < code.length && /[\w$]/.test(code[j])) j++;
+      push('name', code.slice(i, j), l, c); advance(j - i); continue;
+    }
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(code[i + 1] || ''))) {
+      let j = i + 1; while (j < code.length && /[\w.]/.test(code[j])) j++;
+      push('num', code.slice(i, j), l, c); advance(j - i); continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let j = i + 1; while (j < code.length && code[j] !== ch && code[j] !== '\n') j += code[j] === '\\' ? 2 : 1;
+      push('string', code.slice(i + 1, j), l, c); advance(j + 1 - i); continue;
+    }
+    if (ch === '`') { advance(1); scanTemplate(); continue; }
+    if (ch === '/' && regexAllowed()) {
+      let j = i + 1, inClass = false;
+      while (j < code.length && code[j] !== '\n') {
+        if (code[j] === '\\') { j += 2; continue; }
+        if (code[j] === '[') inClass = true; else if (code[j] === ']') inClass = false;
+        else if (code[j] === '/' && !inClass) break;
+        j++;
+      }
+      j++; while (j < code.length && /[a-z]/.test(code[j])) j++;
+      push('regex', code.slice(i, j), l, c); advance(j - i); continue;
+    }
+    if (ch === '{') { braces.push('{'); push('punct', '{', l, c); advance(1); continue; }
+    if (ch === '}') {
+      if (braces.pop() === '`') { advance(1); scanTemplate(); continue; }
+      push('punct', '}', l, c); advance(1); continue;
+    }
+    const three = code.slice(i, i + 3), two = code.slice(i, i + 2);
+    if (three === '...' || three === '===' || three === '!==' || three === '**=' || three === '>>>' || three === '??=' || three === '||=' || three === '&&=') {
+      push('punct', three, l, c); advance(3); continue;
+    }
+    if (['=>', '?.', '==', '!=', '<=', '>=', '&&', '||', '??', '++', '--', '+=', '-=', '*=', '/=', '%=', '**', '<<', '>>', '&=', '|=', '^='].includes(two)) {
+      push('punct', two, l, c); advance(2); continue;
+    }
+    push('punct', ch, l, c); advance(1);
+  }
+  return tokens;
+}
+
+// --- Scope-insensitive declaration / reference scan ------------------------
+
+function matchForward(tokens, start) {
+  const open = tokens[start].value, close = open === '(' ? ')' : open === '[' ? ']' : '}';
+  let depth = 0;
+  for (let k = start; k < tokens.length; k++) {
+    if (tokens[k].type !== 'punct') continue;
+    if (tokens[k].value === open) depth++;
+    else if (tokens[k].value === close && --depth === 0) return k;
+  }
+  return tokens.length - 1;
+}
+
+function matchBackward(tokens, end) {
+  let depth = 0;
+  for (let k = end; k >= 0; k--) {
+    if (tokens[k].type !== 'punct') continue;
+    if (tokens[k].value === ')') depth++;
+    else if (tokens[k].value === '(' && --depth === 0) return k;
+  }
+  return 0;
+}
+
+// Skip a default-value expression inside a binding pattern; returns the index of the `,` or closer that ends it
+function skipExpression(tokens, k, end) {
+  let depth = 0;
+  for (; k < end; k++) {
+    const t = tokens[k];
+    if (t.type !== 'punct') continue;
+    if (t.value === '(' || t.value === '[' || t.value === '{') depth++;
+    else if (t.value === ')' || t.value === ']' || t.value === '}') { if (depth === 0) return k; depth--; }
+    else if (t.value === ',' && depth === 0) return k;
+  }
+  return end;
+}
+
+// Collect names bound by a parameter list or destructuring pattern in tokens[start, end)
+function collectPattern(tokens, start, end, declared) {
+  for (let k = start; k < end; k++) {
+    const t = tokens[k];
+    if (t.type === 'punct' && t.value === '=') { k = skipExpression(tokens, k + 1, end) - 1; continue; }
+    if (t.type !== 'name' || KEYWORDS.has(t.value)) continue;
+    const next = tokens[k + 1];
+    if (next && next.type === 'punct' && next.value === ':') continue; // object pattern key
+    declared.add(t.value);
+  }
+}
+
+function scanScope(tokens) {
+  const declared = new Set();
+  const references = [];
+  const memberOrKey = new Set();
+
+  for (let k = 0; k < tokens.length; k++) {
+    const t = tokens[k];
+    const prev = tokens[k - 1];
+    const next = tokens[k + 1];
+
+    if (t.type === 'name' && (t.value === 'var' || t.value === 'let' || t.value === 'const')) {
+      // Walk declarators until the statement ends
+      let j = k + 1;
+      while (j < tokens.length) {
+        const d = tokens[j];
+        if (d.type === 'name') { declared.add(d.value); j++; }
+        else if (d.value === '{' || d.value === '[') { const close = matchForward(tokens, j); collectPattern(tokens, j + 1, close, declared); j = close + 1; }
+        else break;
+        if (!tokens[j] || tokens[j].value !== '=') break;
+        const stop = skipExpression(tokens, j + 1, tokens.length);
+        if (!tokens[stop] || tokens[stop].value !== ',') break;
+        j = stop + 1;
+      }
+      continue;
+    }
+    if (t.type === 'name' && (t.value === 'function' || t.value === 'class')) {
+      let j = k + 1;
+      if (tokens[j] && tokens[j].value === '*') j++;
+      if (tokens[j] && tokens[j].type === 'name' && !KEYWORDS.has(tokens[j].value)) { declared.add(tokens[j].value); memberOrKey.add(j); j++; }
+      if (t.value === 'function' && tokens[j] && tokens[j].value === '(') collectPattern(tokens, j + 1, matchForward(tokens, j), declared);
+      continue;
+    }
+    if (t.type === 'name' && t.value === 'catch' && next && next.value === '(') {
+      collectPattern(tokens, k + 2, matchForward(tokens, k + 1), declared);
+      continue;
+    }
+    if (t.type === 'punct' && t.value === '=>') {
+      if (prev && prev.type === 'name') declared.add(prev.value);
+      else if (prev && prev.value === ')') { const open = matchBackward(tokens, k - 1); collectPattern(tokens, open + 1, k - 1, declared); }
+      continue;
+    }
+    if (t.type !== 'name' || KEYWORDS.has(t.value)) continue;
+    if (prev && prev.type === 'punct' && (prev.value === '.' || prev.value === '?.')) { memberOrKey.add(k); continue; }
+    if (next && next.type === 'punct' && next.value === ':' && prev && prev.type === 'punct' && (prev.value === '{' || prev.value === ',')) { memberOrKey.add(k); continue; }
+    // Statement labels (`outer: for …`) and the label of `break outer` / `continue outer` on the same line
+    if (next && next.type === 'punct' && next.value === ':' && (!prev || (prev.type === 'punct' && (prev.value === ';' || prev.value === '}' || prev.value === ')')))) { memberOrKey.add(k); continue; }
+    if (prev && prev.type === 'name' && (prev.value === 'break' || prev.value === 'continue') && prev.line === t.line) { memberOrKey.add(k); continue; }
+    // Shorthand method `name(params) {` inside an object or class body
+    const accessor = prev && prev.type === 'name' && (prev.value === 'get' || prev.value === 'set' || prev.value === 'async' || prev.value === 'static');
+    if (next && next.value === '(' && prev && (accessor || (prev.type === 'punct' && (prev.value === '{' || prev.value === ',' || prev.value === '}' || prev.value === ';')))) {
+      const close = matchForward(tokens, k + 1);
+      if (tokens[close + 1] && tokens[close + 1].value === '{') { memberOrKey.add(k); collectPattern(tokens, k + 2, close, declared); continue; }
+    }
+    references.push(k);
+  }
+  return { declared, references: references.filter(k => !memberOrKey.has(k)) };
+}
+
+// --- Call-site context -------------------------------------------------------
+
+// Hooks whose callback runs once per mount (or per dependency change), so a value drawn there is a single draw
+const ONCE_CALLS = new Set(['useMemo', 'useState', 'useRef', 'useCallback', 'useEffect', 'useLayoutEffect']);
+
+// For every token, whether it sits inside a loop or inside a callback handed to another call (map, Array.from,
+// forEach, …): there a random(seed) replacement would return the same value on every iteration.
+function repeatedContexts(tokens) {
+  const repeated = new Array(tokens.length).fill(false);
+  const stack = []; // { value, call, loop, fn }
+  let loopStatement = -1; // stack depth of a brace-less loop body, until its `;`
+  let arrowBodies = []; // stack depths of brace-less arrow bodies
+  let pendingLoop = false, pendingFn = false, afterLoopHeader = false;
+
+  const inCallback = () => {
+    let fnSeen = arrowBodies.length > 0 ? Math.max(...arrowBodies) : -1;
+    for (let d = stack.length - 1; d >= 0; d--) if (stack[d].fn) { fnSeen = Math.max(fnSeen, d + 1); break; }
+    if (fnSeen === -1) return false;
+    // A callback is a function opened inside the argument list of a call that is not a run-once hook
+    for (let d = fnSeen - 1; d >= 0; d--) if (stack[d].call && !ONCE_CALLS.has(stack[d].call)) return true;
+    return false;
+  };
+
+  for (let k = 0; k < tokens.length; k++) {
+    const t = tokens[k];
+    const prev = tokens[k - 1];
+    const next = tokens[k + 1];
+    repeated[k] = loopStatement !== -1 || stack.some(s => s.loop) || inCallback();
+    if (t.type === 'name' && (t.value === 'for' || t.value === 'while') && next && next.value === '(') { pendingLoop = true; continue; }
+    if (t.type === 'name' && t.value === 'do' && next && next.value === '{') { pendingLoop = 'body'; continue; }
+    if (t.type === 'name' && t.value === 'function') { pendingFn = true; continue; }
+    if (t.type !== 'punct') { if (afterLoopHeader) { loopStatement = stack.length; afterLoopHeader = false; } continue; }
+    if (t.value === '=>') {
+      if (next && next.value === '{') pendingFn = true;
+      else arrowBodies.push(stack.length);
+      continue;
+    }
+    if (t.value === '(' || t.value === '[' || t.value === '{') {
+      const entry = { value: t.value, call: null, loop: false, fn: false };
+      if (t.value === '(' && pendingLoop === true) { entry.loop = true; entry.header = true; pendingLoop = false; }
+      else if (t.value === '{' && (pendingLoop === 'body' || afterLoopHeader)) { entry.loop = true; pendingLoop = false; afterLoopHeader = false; }
+      else if (t.value === '{' && pendingFn) { entry.fn = true; pendingFn = false; }
+      else if (t.value === '(' && prev && ((prev.type === 'name' && !KEYWORDS.has(prev.value)) || prev.value === ')' || prev.value === ']')) {
+        entry.call = prev.type === 'name' ? prev.value : '?';
+      }
+      if (afterLoopHeader) { loopStatement = stack.length; afterLoopHeader = false; }
+      stack.push(entry);
+      continue;
+    }
+    if (t.value === ')' || t.value === ']' || t.value === '}') {
+      const closed = stack.pop();
+      arrowBodies = arrowBodies.filter(d => d <= stack.length);
+      if (loopStatement > stack.length) loopStatement = -1;
+      if (closed && closed.header) afterLoopHeader = true;
+      continue;
+    }
+    if (t.value === ';' && afterLoopHeader) { afterLoopHeader = false; continue; } // empty body, or the end of do … while
+    if (t.value === ',' || t.value === ';') {
+      arrowBodies = arrowBodies.filter(d => d < stack.length);
+      if (t.value === ';' && loopStatement === stack.length) loopStatement = -1;
+    }
+    if (afterLoopHeader) { loopStatement = stack.length; afterLoopHeader = false; }
+  }
+  return repeated;
+}
+
+// --- Rules -----------------------------------------------------------------
+
+function lineStarts(source) {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) if (source[i] === '\n') starts.push(i + 1);
+  return starts;
+}
+
+// The n-th match of `re` on a source line, as an absolute offset range
+function findOnLine(source, starts, line, re, n) {
+  const from = starts[line - 1];
+  if (from === undefined) return null;
+  const text = source.slice(from, line < starts.length ? starts[line] - 1 : source.length);
+  const global = new RegExp(re.source, 'g');
+  let m, count = 0;
+  while ((m = global.exec(text))) {
+    if (count++ === n) return { start: from + m.index, end: from + m.index + m[0].length };
+    if (m[0] === '') global.lastIndex++;
+  }
+  return null;
+}
+
+function seedFor(file, line, n) {
+  const base = file.split('/').pop().replace(/\.[^.]+$/, '');
+  return `${base}-${line}${n ? `-${n}` : ''}`;
+}
+
+const TIME_MESSAGE = 'depends on the wall clock, so every render differs; derive time from useCurrentFrame() and fps';
+const TIMER_MESSAGE = 'runs outside the frame clock and is not rendered reliably; derive animation from useCurrentFrame()';
+const NETWORK = new Set(['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource']);
+
+// Hex colors in string and template literals: #rgb, #rgba, #rrggbb and #rrggbbaa
+const HEX_COLOR = /#(?:[0-9a-fA-F]{8}|[0-9a-fA-F]{6}|[0-9a-fA-F]{3,4})(?![\w-])/g;
+
+// '#rrggbb' of a hex color, without its alpha
+function rgbHex(hex) {
+  const digits = hex.slice(1).toLowerCase();
+  return '#' + (digits.length <= 4 ? [...digits.slice(0, 3)].map(d => d + d).join('') : digits.slice(0, 6));
+}
+
+function channels(hex) {
+  return [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+}
+
+// Black, white and grays (and near-grays such as a blue-tinted dark background) fit any palette
+function isNeutral(hex) {
+  const c = channels(hex);
+  return Math.max(...c) - Math.min(...c) <= 24;
+}
+
+function nearestColor(hex, palette) {
+  const [r, g, b] = channels(hex);
+  let best = palette[0], distance = Infinity;
+  for (const p of palette) {
+    const [pr, pg, pb] = channels(p);
+    const d = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+    if (d < distance) { distance = d; best = p; }
+  }
+  return best;
+}
+
+// Colors that are neither in the brand palette nor neutral. No fix: picking another color is a design decision.
+function offBrandColors(source, file, tokens, starts, palette) {
+  const brand = [...new Set(palette.filter(p => /^#[0-9a-f]{3,8}$/i.test(p)).map(rgbHex))];
+  if (!brand.length) return [];
+  // Off-brand colors are not neutral, so neither are the suggestions when the palette has other colors
+  const suggestions = brand.filter(c => !isNeutral(c)).length ? brand.filter(c => !isNeutral(c)) : brand;
+  const findings = [];
+  const cursor = {}; // per literal, where the next search in the source starts
+  for (const t of tokens) {
+    if (t.type !== 'string' && t.type !== 'template') continue;
+    for (const m of t.value.matchAll(HEX_COLOR)) {
+      const at = source.indexOf(m[0], Math.max(cursor[m[0]] ?? 0, starts[t.line - 1] ?? 0));
+      if (at !== -1) cursor[m[0]] = at + m[0].length;
+      const color = rgbHex(m[0]);
+      if (brand.includes(color) || isNeutral(color)) continue;
+      let line = t.line;
+      if (at !== -1) while (line < starts.length && starts[line] <= at) line++;
+      findings.push({ file, line, column: at !== -1 ? at - starts[line - 1] + 1 : t.col, severity: 'warning', code: 'off-brand-color',
+        message: `${m[0]} is not in the brand palette; the closest brand color is ${nearestColor(color, suggestions)}` });
+    }
+  }
+  return findings;
+}
+
+// Lint one file. `js` is the file compiled by sucrase (same line numbers as `source`). `options.palette` (hex colors)
+// turns on the off-brand-color rule.
+export function lintFile(source, file, js, options) {
+  const tokens = tokenize(js);
+  const { declared, references } = scanScope(tokens);
+  const repeated = repeatedContexts(tokens);
+  const starts = lineStarts(source);
+  // occurrence[k]: how many tokens with the same name precede tokens[k] on its line, to find it again in the source
+  const counts = {};
+  const occurrence = tokens.map(t => t.type === 'name' ? (counts[`${t.line}:${t.value}`] = (counts[`${t.line}:${t.value}`] ?? -1) + 1) : 0);
+  const findings = [];
+  const perLine = {};
+  const nth = (key) => (perLine[key] = (perLine[key] ?? -1) + 1);
+  const add = (k, severity, code, message, fix) => {
+    const t = tokens[k];
+    findings.push({ file, line: t.line, column: fix ? fix.start - starts[t.line - 1] + 1 : columnOnLine(source, starts, t, occurrence[k]), severity, code, message, ...(fix ? { fix } : {}) });
+  };
+  const at = (k, value) => tokens[k] && tokens[k].value === value;
+  const isGlobal = (name) => !declared.has(name);
+  let seeded = false;
+
+  for (let k = 0; k < tokens.length; k++) {
+    const t = tokens[k];
+    if (t.type !== 'name' || at(k - 1, '.') || at(k - 1, '?.')) continue;
+
+    if (t.value === 'Math' && at(k + 1, '.') && at(k + 2, 'random') && isGlobal('Math')) {
+      const range = findOnLine(source, starts, t.line, /Math\s*\.\s*random\s*\(\s*\)/, nth(`random:${t.line}`));
+      const called = at(k + 3, '(') && at(k + 4, ')');
+      const safe = called && range && !repeated[k] && !declared.has('random');
+      const seed = seedFor(file, t.line, perLine[`random:${t.line}`]);
+      if (safe) seeded = true;
+      add(k, 'warning', 'nondeterministic-random',
+        safe ? `Math.random() differs on every render; use random('${seed}') instead`
+          : 'Math.random() differs on every render; use random(seed) from remotion with a seed that includes the loop index',
+        safe ? { start: range.start, end: range.end, text: `random('${seed}')` } : undefined);
+      continue;
+    }
+    if (t.value === 'Date' && isGlobal('Date')) {
+      if (at(k + 1, '.') && at(k + 2, 'now')) { add(k, 'warning', 'nondeterministic-time', `Date.now() ${TIME_MESSAGE}`); continue; }
+      if (at(k - 1, 'new') && (!at(k + 1, '(') || at(k + 2, ')'))) { add(k, 'warning', 'nondeterministic-time', `new Date() ${TIME_MESSAGE}`); continue; }
+      if (at(k + 1, '(') && !at(k - 1, 'new')) { add(k, 'warning', 'nondeterministic-time', `Date() ${TIME_MESSAGE}`); continue; }
+    }
+    if (t.value === 'performance' && at(k + 1, '.') && at(k + 2, 'now') && isGlobal('performance')) {
+      add(k, 'warning', 'nondeterministic-time', `performance.now() ${TIME_MESSAGE}`);
+      continue;
+    }
+    if ((t.value === 'setTimeout' || t.value === 'setInterval' || t.value === 'requestAnimationFrame') && at(k + 1, '(') && isGlobal(t.value)) {
+      add(k, 'warning', 'timer', `${t.value}() ${TIMER_MESSAGE}`);
+      continue;
+    }
+    if (NETWORK.has(t.value) && isGlobal(t.value) && (at(k + 1, '(') || at(k - 1, 'new'))) {
+      add(k, 'error', 'network', `${t.value} makes a network request; generated compositions must be self-contained (use staticFile() for assets)`);
+      continue;
+    }
+    if (t.value === 'navigator' && at(k + 1, '.') && at(k + 2, 'sendBeacon') && isGlobal('navigator')) {
+      add(k, 'error', 'network', 'navigator.sendBeacon makes a network request; generated compositions must be self-contained');
+    }
+  }
+
+  // The random() fixes also work outside the preview's injected scope (e.g. in a real Remotion render)
+  if (seeded && !/import\s*\{[^}]*\brandom\b[^}]*\}\s*from\s*['"]remotion['"]/.test(source)) {
+    findings.push({ file, line: 1, column: 1, severity: 'warning', code: 'missing-import',
+      message: "random() replaces Math.random(); import it from 'remotion'", fix: importFix(source, 'random', 'remotion') });
+  }
+
+  if (options && Array.isArray(options.palette)) findings.push(...offBrandColors(source, file, tokens, starts, options.palette));
+
+  // Undeclared names; the ones that are importable from react or remotion get the import added
+  const known = new Set([...GLOBALS, ...SCOPE]);
+  const seen = new Set();
+  for (const k of references) {
+    const t = tokens[k];
+    if (declared.has(t.value) || known.has(t.value) || seen.has(t.value)) continue;
+    seen.add(t.value);
+    const column = columnOnLine(source, starts, t, occurrence[k]);
+    const from = IMPORTABLE.react.includes(t.value) ? 'react' : IMPORTABLE.remotion.includes(t.value) ? 'remotion' : null;
+    const component = at(k - 1, '(') && at(k - 2, 'createElement');
+    if (from) {
+      findings.push({ file, line: t.line, column, severity: 'error', code: 'missing-import',
+        message: `'${t.value}' is not in the preview's injected scope; import it from '${from}'`, fix: importFix(source, t.value, from) });
+    } else {
+      findings.push({ file, line: t.line, column, severity: 'error', code: 'undeclared',
+        message: component ? `Unknown component <${t.value}>: it is neither declared nor imported` : `Cannot find name '${t.value}'` });
+    }
+  }
+  return findings;
+}
+
+// sucrase keeps line numbers but not columns; find the n-th use of the name on the original line
+function columnOnLine(source, starts, t, n) {
+  const range = findOnLine(source, starts, t.line, new RegExp('(?<![\\w$])' + t.value.replace(/\$/g, '\\$') + '(?![\\w$])'), n);
+  return range ? range.start - starts[t.line - 1] + 1 : t.col;
+}
+
+// Add `name` to an existing `import {…} from '<from>'`, or prepend an import on the first line (keeping line numbers)
+function importFix(source, name, from) {
+  const m = new RegExp(`import\\s*(?:[\\w$]+\\s*,\\s*)?\\{([^}]*)\\}\\s*from\\s*['"]${from}['"]`).exec(source);
+  if (m) {
+    const close = m.index + m[0].indexOf('}');
+    const inner = m[1].trim();
+    return { start: close, end: close, text: inner ? (inner.endsWith(',') ? ` ${name} ` : `, ${name}`) : name };
+  }
+  return { start: 0, end: 0, text: `import {${name}} from '${from}'; ` };
+}
+
+// Lint every script file of a project. `compile(source, file)` returns sucrase output; files that do not compile
+// are skipped (the compiler's own error reports them). `options` as for lintFile.
+export function lintProject(files, compile, options) {
+  const findings = [];
+  for (const [file, source] of Object.entries(files || {})) {
+    if (typeof source !== 'string' || !/\.(tsx?|jsx?)$/.test(file)) continue;
+    let js;
+    try { js = compile(source, file); } catch { continue; }
+    findings.push(...lintFile(source, file, js, options));
+  }
+  return findings;
+}
+
+// Apply the fixes carried by `findings`; returns the new files and the findings that were fixed
+export function applyFixes(files, findings) {
+  const out = { ...files };
+  const applied = [];
+  const byFile = {};
+  for (const f of findings) if (f.fix && typeof out[f.file] === 'string') (byFile[f.file] = byFile[f.file] || []).push(f);
+  for (const [file, list] of Object.entries(byFile)) {
+    // Back to front so earlier offsets stay valid; insertions at one offset keep their order
+    const ordered = list.map((f, i) => ({ f, i })).sort((a, b) => b.f.fix.start - a.f.fix.start || b.i - a.i);
+    let source = out[file];
+    let limit = Infinity;
+    for (const { f } of ordered) {
+      if (f.fix.end > limit) continue; // overlaps a fix applied already
+      source = source.slice(0, f.fix.start) + f.fix.text + source.slice(f.fix.end);
+      limit = f.fix.start;
+      applied.push(f);
+    }
+    out[file] = source;
+  }
+  return { files: out, applied };
+}
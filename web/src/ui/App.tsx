@@ -1,22 +1,31 @@
 import React, {useMemo, useRef, useState, DragEvent, ChangeEvent, useEffect} from 'react';
-import {Player} from '@remotion/player';
-import * as Remotion from 'remotion';
-import JSZip from 'jszip';
-import {transpileTSX} from './transpile';
-
-type Project = {
-  kind: 'remotion-project';
-  files: Record<string, string>;
-  compositionId: string;
-  width: number; height: number; fps: number; durationInFrames: number;
-};
-
-type ParamDef = { key: string; label: string; type: 'color'|'text'|'number'|'select'; default: any; description?: string };
-type BlockDef = { id: string; name: string; params: ParamDef[]; hue?: number };
-type Block = { def: BlockDef; project: Project };
-type TextSeg = { type: 'text'; id: string; value: string };
-type BlockSeg = { type: 'block'; id: string; blockId: string; values: Record<string, any>; contextUrl?: string; contextData?: string };
-type PromptSeg = TextSeg | BlockSeg;
+import {readEventStream} from './sse';
+import {apiFetch} from './apiFetch';
+import {useProjectHistory, versionDepth} from './history';
+import {ChangedRegions, DiffView} from './DiffView';
+import {AssetPanel} from './AssetPanel';
+import {CodeWorkspace} from './CodeWorkspace';
+import {projectDiagnostics} from './diagnostics';
+import {assetKind, assetManifest, assetPath, inlineAssets, storeAssets, uploadAsset} from './assetApi';
+import {DEFAULT_IMAGE_MAX_SIDE, imageDataUrl} from './imageInput';
+import {ArchiveEntry, exportProjectArchive, folderEntries, readProjectArchive, zipEntries} from './projectArchive';
+import {RenderPanel} from './RenderPanel';
+import {SandboxPlayer} from './SandboxPlayer';
+import {TimelineEditor} from './TimelineEditor';
+import {Variant, VariantGrid} from './VariantGrid';
+import {FormatPanel} from './FormatPanel';
+import {CaptionPanel} from './CaptionPanel';
+import {BrandKitPanel} from './BrandKitPanel';
+import {BrandKit, brandAssets, brandLint, fetchBrandKit} from './brandKit';
+import {DEFAULT_FORMAT, Format, FORMAT_PRESETS, presetFor, viewComposition} from './formats';
+import {ParamEditor} from './ParamEditor';
+import {coerceParamValue, formatParamValue, PARAM_TYPES, validateParamValues} from './params';
+import {compileModule} from './transpile';
+import {applyFixes, LintFinding, lintProject} from '../shared/lint.js';
+import {BlockPack, createBlockPack, packBlockToBlock, readBlockPack} from './blockPack';
+import {createStoredBlock, deleteStoredBlock, getBlockVersions, listBlocks, migrateLocalBlocks, restoreBlockVersion, StoredBlock, updateStoredBlock} from './blockApi';
+import {ChangedRegion, changedRegions} from './diff';
+import {Block, BlockDef, BlockSeg, ModelInput, ParamDef, ParamType, Project, ProjectAsset, PromptSeg, ProviderInfo, StoryboardScene, TextSeg, Transition, Validation} from './types';
 
 const fallbackProject: Project = {
   kind: 'remotion-project',
@@ -44,70 +53,443 @@ export const App: React.FC = () => {
     { type:'text', id: uid(), value: 'Create a 5-second intro with a bold title that fades in and a progress bar at the bottom.' }
   ]);
   const [prompt, setPrompt] = useState('');
-  const [useMock, setUseMock] = useState(true);
-  const [project, setProject] = useState<Project | null>(fallbackProject);
-  const [code, setCode] = useState<string>(JSON.stringify(fallbackProject, null, 2));
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [provider, setProvider] = useState<string>(() => localStorage.getItem('provider_v1') || '');
+  // Output format asked for when generating, and the composition the preview shows once a project has several
+  const [format, setFormat] = useState<Format>(() => {
+    try { const f = JSON.parse(localStorage.getItem('format_v1') || ''); return f?.width > 0 && f?.height > 0 ? f : DEFAULT_FORMAT; }
+    catch { return DEFAULT_FORMAT; }
+  });
+  const [customFormat, setCustomFormat] = useState(() => !presetFor(format));
+  const [viewedComposition, setViewedComposition] = useState('');
+  const history = useProjectHistory();
+  const [project, setProject] = useState<Project | null>(() => history.current?.project || fallbackProject);
+  // Files of a running generation as they stream in, shown in place of the editor until the project arrives
+  const [streamedCode, setStreamedCode] = useState('');
   const [progress, setProgress] = useState(0);
+  const [stage, setStage] = useState('');
   const [loading, setLoading] = useState(false);
+  // "Generate N variants": how many to ask for, the server's maximum, and the grid of the last run
+  const [variantCount, setVariantCount] = useState(1);
+  const [maxVariants, setMaxVariants] = useState(1);
+  const [imageMaxSide, setImageMaxSide] = useState(DEFAULT_IMAGE_MAX_SIDE);
+  const [variants, setVariants] = useState<Variant[] | null>(null);
   const [image, setImage] = useState<string | null>(null);
-  const [blocks, setBlocks] = useState<Block[]>(() => {
-    try { const s = localStorage.getItem('blocks_v1'); if (s) return JSON.parse(s); } catch {}
-    return [];
-  });
+  // The full library (segments resolve their blocks here); search only narrows what the panel shows
+  const [blocks, setBlocks] = useState<Block[]>([]);
+  const [blockTags, setBlockTags] = useState<Record<string, number>>({});
+  const [blockQuery, setBlockQuery] = useState<{ q: string; tag: string }>({ q: '', tag: '' });
+  const [visibleBlockIds, setVisibleBlockIds] = useState<Set<string> | null>(null);
+  const [packImport, setPackImport] = useState<null | { pack: BlockPack; choices: Record<string, PackChoice> }>(null);
+  const [blockVersions, setBlockVersions] = useState<null | { blockId: string; versions: NonNullable<StoredBlock['versions']> }>(null);
   const [blockLoading, setBlockLoading] = useState(false);
   const [editingBlock, setEditingBlock] = useState<null | { segmentId: string; blockId: string; values: Record<string, any>; contextUrl?: string; contextData?: string }>(null);
   const [editingToken, setEditingToken] = useState<null | { start: number; end: number; blockId: string; values: Record<string, any> }>(null);
   const [flashBlockId, setFlashBlockId] = useState<string | null>(null);
-  const ticking = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [hoveredDropIndex, setHoveredDropIndex] = useState<number | null>(null);
   const [secondsPerBlock, setSecondsPerBlock] = useState<number>(3);
+  // Storyboard mode: one scene per block segment; scenes of the last run by segment id, with what is being generated
+  const [storyboard, setStoryboard] = useState(false);
+  const [scenes, setScenes] = useState<Record<string, StoryboardScene>>({});
+  const [sceneStatus, setSceneStatus] = useState<Record<string, string>>({});
   const promptRef = useRef<HTMLTextAreaElement | null>(null);
   const editorRef = useRef<HTMLDivElement | null>(null);
   const suppressSyncRef = useRef(false);
   const skipInputRef = useRef(false);
 
-  const Comp = useMemo(() => {
-    if (!project) return null;
-    const tsx = project.files['src/MyComp.tsx'];
-    if (!tsx) return null;
-    try{
-      const js = transpileTSX(tsx);
-      const exports: any = {};
-      const fn = new Function('exports','React','Remotion', js);
-      fn(exports, React, Remotion);
-      return exports.MyComp || exports.default;
-    } catch(e){ console.error(e); return null; }
-  }, [project]);
+  // The server's brand kit; while applied, generations and new blocks follow it (requests without it send brand: false)
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
+  const [applyBrand, setApplyBrand] = useState(() => localStorage.getItem('brand_apply_v1') !== 'off');
+  const activeBrand = applyBrand ? brandKit : null;
+  // Determinism/safety findings for what is about to be previewed (generated projects arrive already fixed by the server),
+  // plus colors outside the applied brand palette
+  const lintFindings = useMemo(() => project ? lintProject(project.files, compileModule, brandLint(activeBrand)) : [], [project, activeBrand]);
+  // Files under public/. They belong to the project; uploads made before the first generation wait here
+  const [draftAssets, setDraftAssets] = useState<Record<string, ProjectAsset>>({});
+  const assets = project?.assets || draftAssets;
+  // What generations start from: the project's files plus the brand logo
+  const generationAssets = {...brandAssets(activeBrand), ...assets};
+  const changeAssets = (next: Record<string, ProjectAsset>, label: string) => {
+    if (!project) return setDraftAssets(next);
+    const { assets: _, ...rest } = project;
+    const updated: Project = Object.keys(next).length ? { ...rest, assets: next } : rest;
+    setProject(updated);
+    history.record({ source: 'edit', label, segments, blocksUsed: [], project: updated });
+  };
+  // Image params name a file under public/ (staticFile resolves it); an uploaded image joins the assets above, so it is
+  // sent with the next generation and never travels inside a prompt as a data URL
+  const uploadParamImage = async (file: File) => {
+    const asset = await uploadAsset(file);
+    if (assetKind(asset.type) !== 'image') throw new Error('not an image');
+    const existing = Object.entries(assets).find(([, a]) => a.data === asset.data);
+    if (existing) return existing[0].slice('public/'.length);
+    const path = assetPath(file.name, assets);
+    changeAssets({ ...assets, [path]: asset }, `Uploaded ${path.slice('public/'.length)}`);
+    return path.slice('public/'.length);
+  };
+  // Current values of the project's props; changing them re-renders the Player without regenerating. Code edits,
+  // timeline drags and asset or caption changes replace the project too, so values only follow the prop definitions:
+  // a prop keeps a value the user changed, and takes its new default otherwise.
+  const [inputProps, setInputProps] = useState<Record<string, any>>({});
+  const propDefaults = useRef<Record<string, any>>({});
+  const propsKey = JSON.stringify(project?.props || []);
+  useEffect(() => {
+    const previous = propDefaults.current;
+    const defaults = defaultValues(project?.props || []);
+    propDefaults.current = defaults;
+    setInputProps(values => Object.fromEntries(Object.entries(defaults).map(([key, value]) => [
+      key, key in values && JSON.stringify(values[key]) !== JSON.stringify(previous[key]) ? values[key] : value,
+    ])));
+  }, [propsKey]);
+
+  // Body of a generation request for the current prompt; throws when block values are invalid
+  const generationRequest = (fast: boolean) => {
+    const invalid = segmentParamErrors(segments, blocks);
+    if (invalid.length) throw new Error('some block values are invalid:\n' + invalid.join('\n'));
+    const used = extractBlocksFromSegments(segments, blocks);
+    const promptText = segments.filter(s=>s.type==='text').map(s => (s as TextSeg).value).join('\n\n');
+    const durationHintSec = Math.max(1, Math.round((used.length || 1) * secondsPerBlock));
+    return { used, promptText, body: {prompt: promptText, guidanceImage: image, blocks: used, assets: assetManifest(generationAssets), fast, durationHintSec, provider: provider || undefined, width: format.width, height: format.height, brand: activeBrand ? undefined : false} };
+  };
 
   const generate = async (fast = false) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     try{
       setLoading(true);
-      setProgress(10);
-      if (!useMock) {
-        ticking.current = window.setInterval(()=>setProgress((p)=>Math.min(95, p + Math.random()*4)), 250);
+      setVariants(null);
+      setProgress(5);
+      setStage('Assembling prompt');
+      const { used, promptText, body } = generationRequest(fast);
+      let res: Project | null = null;
+      let meta: { model?: string; provider?: string; inputs?: ModelInput[]; cached?: boolean } = {};
+      const resp = await apiFetch('/api/generate/stream', { method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify(body), signal: controller.signal });
+      if (!resp.ok) {
+        const body = await resp.json().catch(() => null);
+        throw new Error(body?.error || 'Backend error: ' + resp.status);
       }
-      const used = extractBlocksFromSegments(segments, blocks);
-      const promptText = segments.filter(s=>s.type==='text').map(s => (s as TextSeg).value).join('\n\n');
-      const durationHintSec = Math.max(1, Math.round((used.length || 1) * secondsPerBlock));
-      let res: Project;
-      if (useMock) {
-        for (let p=10;p<=85;p+=5) { setProgress(p); await new Promise(r=>setTimeout(r,80)); }
-        res = fallbackProject;
-      } else {
-        const resp = await fetch('/api/generate', { method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify({prompt: promptText, guidanceImage: image, blocks: used, fast, durationHintSec})});
-        if (!resp.ok) throw new Error('Backend error: ' + resp.status);
-        res = await resp.json();
+      // Map the server's stages onto the progress bar; streamed files go straight into the code panel
+      await readEventStream(resp, ({event, data}) => {
+        if (event === 'prompt') { meta = { model: data.model, provider: data.provider, inputs: data.inputs }; setStage('Prompt assembled'); setProgress(8); }
+        else if (event === 'upstream') { setStage(data.attempt > 1 ? `Requesting repair (attempt ${data.attempt})` : 'Waiting for model'); setProgress(p => Math.max(p, 12)); }
+        else if (event === 'tokens') {
+          setStage(`Streaming code · ${data.chars} chars${data.attempt > 1 ? ` · attempt ${data.attempt}` : ''}`);
+          setProgress(p => Math.max(p, Math.round(12 + 70 * (1 - Math.exp(-data.chars / 6000)))));
+          setStreamedCode(JSON.stringify({ files: data.files }, null, 2));
+        }
+        else if (event === 'validate') { setStage('Validating'); setProgress(p => Math.max(p, 88)); }
+        else if (event === 'repair') { setStage(`Repairing ${data.diagnostics.length} problem${data.diagnostics.length === 1 ? '' : 's'}`); setProgress(60); }
+        else if (event === 'done') { res = data.project; if (data.cache?.status === 'hit') meta = { ...meta, cached: true }; }
+        else if (event === 'error') throw new Error(data.error || 'Generation failed');
+      });
+      if (!res) throw new Error('Stream ended without a project');
+      if (used.length) refreshBlocks(); // usage counts changed
+      const generated = withAssets(res, generationAssets);
+      setProject(generated);
+      setRefineThread([]);
+      history.record({ source: 'generate', label: promptText.trim().split('\n')[0].slice(0, 80) || 'Generated project', segments, blocksUsed: used.map(b => ({ id: b.id, name: b.name })), ...meta, project: generated });
+      setProgress(100);
+      setStage(meta.cached ? 'Done · from the generation cache' : 'Done');
+    } catch(e: any){
+      if (e?.name === 'AbortError') setStage('Cancelled');
+      else { console.error(e); alert('Generation failed' + (e?.message ? ': ' + e.message : '')); }
+    } finally {
+      abortRef.current = null;
+      setTimeout(()=>{ setProgress(0); setStage(''); setStreamedCode(''); setLoading(false); }, 800);
+    }
+  };
+
+  // "Generate N variants": the server samples the same request N times, a few at a time. Each variant is shown in the
+  // grid as it finishes and recorded as a sibling version; the checked-out project stays until one is kept.
+  const generateVariants = async (fast = false) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const update = (index: number, patch: Partial<Variant>) => setVariants(prev => prev && prev.map(v => v.index === index ? { ...v, ...patch } : v));
+    try{
+      setLoading(true);
+      setProgress(5);
+      setStage('Assembling prompt');
+      const { used, promptText, body } = generationRequest(fast);
+      const label = promptText.trim().split('\n')[0].slice(0, 80) || 'Generated project';
+      let meta: { model?: string; provider?: string; inputs?: ModelInput[] } = {};
+      let finished = 0;
+      setVariants(Array.from({ length: variantCount }, (_, index) => ({ index, seed: index + 1, status: 'queued' })));
+      const resp = await apiFetch('/api/generate/variants/stream', { method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify({ ...body, variants: variantCount }), signal: controller.signal });
+      if (!resp.ok) {
+        const body = await resp.json().catch(() => null);
+        throw new Error(body?.error || 'Backend error: ' + resp.status);
       }
-      setProject(res);
-      setCode(JSON.stringify(res, null, 2));
+      await readEventStream(resp, ({event, data}) => {
+        if (event === 'prompt') {
+          meta = { model: data.model, provider: data.provider, inputs: data.inputs };
+          setVariants(data.variants.map((v: Variant) => ({ ...v, status: 'queued' })));
+          setStage(`Generating ${data.variants.length} variants`); setProgress(10);
+        }
+        else if (event === 'upstream') update(data.variant, { stage: data.attempt > 1 ? `Requesting repair (attempt ${data.attempt})` : 'Waiting for model' });
+        else if (event === 'validate') update(data.variant, { stage: 'Validating' });
+        else if (event === 'repair') update(data.variant, { stage: `Repairing ${data.diagnostics.length} problem${data.diagnostics.length === 1 ? '' : 's'}` });
+        else if (event === 'variant') {
+          if (data.status === 'generating') return update(data.index, { status: 'generating' });
+          finished++;
+          setProgress(Math.round(10 + 85 * finished / variantCount));
+          if (data.status === 'error') return update(data.index, { status: 'error', error: data.error });
+          const generated = withAssets(data.project, generationAssets);
+          const cached = data.cache?.status === 'hit';
+          const versionId = history.recordBranch({ source: 'generate', label: `${label} · variant ${data.index + 1}`, segments, blocksUsed: used.map(b => ({ id: b.id, name: b.name })), ...meta, cached, project: generated });
+          update(data.index, { status: 'done', project: generated, cached, versionId });
+        }
+        else if (event === 'error') throw new Error(data.error || 'Generation failed');
+      });
+      if (used.length) refreshBlocks(); // usage counts changed
       setProgress(100);
-    } catch(e){
-      console.error(e);
-      alert('Generation failed');
+      setStage('Done · keep a variant or discard them');
+    } catch(e: any){
+      if (e?.name === 'AbortError') setStage('Cancelled');
+      else { console.error(e); alert('Generation failed' + (e?.message ? ': ' + e.message : '')); }
     } finally {
-      if (ticking.current){ clearInterval(ticking.current); ticking.current = null; }
-      setTimeout(()=>{ setProgress(0); setLoading(false); }, 800);
+      abortRef.current = null;
+      setTimeout(()=>{ setProgress(0); setStage(''); setLoading(false); }, 800);
+    }
+  };
+  // Keeping or discarding ends the run; finished variants stay in history either way
+  const keepVariant = (variant: Variant) => {
+    abortRef.current?.abort();
+    if (!variant.versionId) return;
+    history.checkout(variant.versionId);
+    setRefineThread([]);
+    setVariants(null);
+  };
+  const discardVariants = () => {
+    abortRef.current?.abort();
+    setVariants(null);
+  };
+
+  // Storyboard mode: scenes are generated one by one and assembled on the server. Scenes from the last run are sent
+  // back so the server reuses every one whose inputs did not change; `regenerateId` forces a new take of one scene.
+  const generateStoryboard = async (regenerateId?: string, fast = false) => {
+    const board = storyboardFromSegments(segments, blocks, secondsPerBlock);
+    if (!board.scenes.length) return alert('Storyboard mode needs at least one block in the prompt');
+    const invalid = segmentParamErrors(segments, blocks);
+    if (invalid.length) return alert('Some block values are invalid:\n' + invalid.join('\n'));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try{
+      setLoading(true);
+      setVariants(null);
+      setProgress(5);
+      setStage('Assembling storyboard');
+      const total = board.scenes.length;
+      const body = {
+        brief: board.brief, fast, provider: provider || undefined, assets: assetManifest(generationAssets), width: format.width, height: format.height, brand: activeBrand ? undefined : false,
+        scenes: board.scenes.map(sc => ({ ...sc, previous: scenes[sc.id], regenerate: sc.id === regenerateId })),
+      };
+      let result: StoryboardResult | null = null;
+      const resp = await apiFetch('/api/storyboard/stream', { method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify(body), signal: controller.signal });
+      if (!resp.ok) {
+        const body = await resp.json().catch(() => null);
+        throw new Error(body?.error || 'Backend error: ' + resp.status);
+      }
+      await readEventStream(resp, ({event, data}) => {
+        if (event === 'scene') {
+          setSceneStatus(prev => ({ ...prev, [data.id]: data.status === 'generating' ? 'Generating…' : data.source }));
+          setStage(`Scene ${data.index + 1}/${total}${data.status === 'generating' ? ' · waiting for model' : ' · done'}`);
+          setProgress(Math.round(10 + 80 * (data.index + (data.status === 'done' ? 1 : 0.2)) / total));
+        }
+        else if (event === 'repair') setStage(`Scene ${data.scene + 1}/${total} · repairing ${data.diagnostics.length} problem${data.diagnostics.length === 1 ? '' : 's'}`);
+        else if (event === 'validate' && data.scene === undefined) { setStage('Validating storyboard'); setProgress(p => Math.max(p, 92)); }
+        else if (event === 'done') result = data;
+        else if (event === 'error') throw new Error(data.error || 'Storyboard failed');
+      });
+      if (!result) throw new Error('Stream ended without a project');
+      const {project: assembled, scenes: made, provider: usedProvider, model, inputs} = result as StoryboardResult;
+      const generated = withAssets(assembled, generationAssets);
+      setScenes(Object.fromEntries(made.map(sc => [sc.id, sc])));
+      refreshBlocks(); // usage counts changed
+      setProject(generated);
+      setRefineThread([]);
+      const used = extractBlocksFromSegments(segments, blocks);
+      const label = regenerateId ? `Regenerated scene ${board.scenes.findIndex(sc => sc.id === regenerateId) + 1}` : `Storyboard · ${total} scene${total === 1 ? '' : 's'}`;
+      history.record({ source: 'generate', label, segments, blocksUsed: used.map(b => ({ id: b.id, name: b.name })), provider: usedProvider, model, inputs, project: generated });
+      setProgress(100);
+      setStage('Done');
+    } catch(e: any){
+      if (e?.name === 'AbortError') setStage('Cancelled');
+      else { console.error(e); alert('Storyboard failed' + (e?.message ? ': ' + e.message : '')); }
+    } finally {
+      abortRef.current = null;
+      setSceneStatus({});
+      setTimeout(()=>{ setProgress(0); setStage(''); setLoading(false); }, 800);
+    }
+  };
+
+  const cancelGenerate = () => abortRef.current?.abort();
+  const updateBlockSeg = (id: string, patch: Partial<BlockSeg>) => setSegments(prev => prev.map(s => s.id === id ? ({ ...(s as BlockSeg), ...patch }) : s));
+
+  // --- Block library (server-side store) -------------------------------------
+  const refreshBlocks = async () => {
+    try {
+      const { blocks: all, tags } = await listBlocks({ sort: 'usage' });
+      setBlocks(all); setBlockTags(tags);
+    } catch(e) { console.error('Failed to load blocks', e); }
+  };
+  useEffect(() => {
+    migrateLocalBlocks().catch(e => console.error('Block migration failed', e)).finally(refreshBlocks);
+  }, []);
+  useEffect(() => {
+    if (!blockQuery.q.trim() && !blockQuery.tag) { setVisibleBlockIds(null); return; }
+    const t = setTimeout(() => {
+      listBlocks(blockQuery).then(({ blocks: found }) => setVisibleBlockIds(new Set(found.map(b => b.def.id)))).catch(e => console.error(e));
+    }, 200);
+    return () => clearTimeout(t);
+  }, [blockQuery, blocks]);
+
+  const replaceBlock = (updated: Block) => setBlocks(prev => prev.map(b => b.def.id === updated.def.id ? updated : b));
+  const addBlockParam = async (blockId: string, param: ParamDef) => {
+    const blk = blocks.find(b => b.def.id === blockId); if (!blk) return;
+    try { replaceBlock(await updateStoredBlock(blockId, { params: [...blk.def.params, param] })); }
+    catch(e: any) { alert('Failed to save block: ' + e.message); }
+  };
+  const deleteBlock = async (blockId: string) => {
+    try { await deleteStoredBlock(blockId); setBlocks(prev => prev.filter(b => b.def.id !== blockId)); }
+    catch(e: any) { alert('Failed to delete block: ' + e.message); }
+  };
+  const editBlockTags = async (blk: Block) => {
+    const input = window.prompt('Tags (comma separated)', (blk.tags || []).join(', '));
+    if (input === null) return;
+    try { replaceBlock(await updateStoredBlock(blk.def.id, { tags: input.split(',').map(t => t.trim()).filter(Boolean) })); refreshBlocks(); }
+    catch(e: any) { alert('Failed to save tags: ' + e.message); }
+  };
+  const toggleBlockVersions = async (blockId: string) => {
+    if (blockVersions?.blockId === blockId) { setBlockVersions(null); return; }
+    try { setBlockVersions({ blockId, versions: await getBlockVersions(blockId) }); }
+    catch(e: any) { alert('Failed to load versions: ' + e.message); }
+  };
+  // Timeline edits rewrite src/MyComp.tsx; each drop is its own version so it can be undone
+  const retime = (files: Record<string, string>, label: string) => {
+    if (!project) return;
+    const next: Project = { ...project, files };
+    setProject(next);
+    history.record({ source: 'edit', label, segments, blocksUsed: [], project: next });
+  };
+
+  // Code workspace edits. The server's validation describes the generated files, so it is dropped once they change;
+  // the preview follows every pause in typing and history gets a version when an edit is finished.
+  const editFiles = (files: Record<string, string>) => {
+    setProject(p => { if (!p) return p; const { validation: _, ...rest } = p; return { ...rest, files }; });
+  };
+  const commitEdit = (files: Record<string, string>, label: string) => {
+    if (!project) return;
+    const { validation: _, ...rest } = project;
+    history.record({ source: 'edit', label, segments, blocksUsed: [], project: { ...rest, files } });
+  };
+  // The version the edits started from: the checked-out version, or its nearest ancestor that was not a hand edit
+  const generatedVersion = useMemo(() => {
+    let v = history.current;
+    while (v && v.source === 'edit' && v.parentId) v = history.versions.find(x => x.id === v!.parentId) || null;
+    return v && v.source !== 'edit' ? v : null;
+  }, [history.current, history.versions]);
+  const resetToGenerated = () => {
+    if (!generatedVersion) return;
+    setProject(generatedVersion.project);
+    history.checkout(generatedVersion.id);
+  };
+  // Block creation and export take the project as it is; hand edits that do not compile are worth a second look
+  const confirmDiagnostics = (action: string, target: Project | null = project) => {
+    if (!target) return false;
+    const errors = projectDiagnostics(target.files).filter(d => d.severity === 'error');
+    return !errors.length || confirm(`The code has ${errors.length} error${errors.length === 1 ? '' : 's'}:\n${errors.slice(0, 5).map(d => `${d.file}:${d.line} ${d.message}`).join('\n')}\n\n${action} anyway?`);
+  };
+
+  const applyLintFixes = () => {
+    if (!project) return;
+    const { files, applied } = applyFixes(project.files, lintFindings);
+    if (!applied.length) return;
+    const next: Project = { ...project, files };
+    setProject(next);
+    history.record({ source: 'edit', label: `Applied ${applied.length} lint fix${applied.length === 1 ? '' : 'es'}`, segments, blocksUsed: [], project: next });
+  };
+
+  // --- Block packs ------------------------------------------------------------
+  // Exports what the panel currently shows, so a search or tag filter selects the set to share
+  const exportBlockPack = async () => {
+    const shown = blocks.filter(b => !visibleBlockIds || visibleBlockIds.has(b.def.id));
+    if (!shown.length) return alert('No blocks to export');
+    const name = blockQuery.tag || blockQuery.q.trim() || 'blocks';
+    let pack: BlockPack;
+    try {
+      // A pack has to work without this server, so stored uploads travel inside it
+      pack = createBlockPack(await Promise.all(shown.map(async b => b.project.assets ? { ...b, project: { ...b.project, assets: await inlineAssets(b.project.assets) } } : b)), name);
+    } catch (e: any) { return alert('Export failed: ' + (e?.message || e)); }
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' }));
+    a.download = `${name.replace(/[^\w-]+/g, '-')}.blockpack.json`;
+    a.click();
+    setTimeout(()=>URL.revokeObjectURL(a.href), 1000);
+  };
+  const onPackFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = readBlockPack(await file.text());
+      const choices: Record<string, PackChoice> = {};
+      pack.blocks.forEach(b => { choices[b.id] = blocks.some(x => x.def.id === b.id) ? 'rename' : 'add'; });
+      setPackImport({ pack, choices });
+    } catch(err: any) { alert(err.message); }
+  };
+  const confirmPackImport = async () => {
+    if (!packImport) return;
+    const failures: string[] = [];
+    for (const pb of packImport.pack.blocks) {
+      const choice = packImport.choices[pb.id];
+      if (choice === 'skip') continue;
+      try {
+        // Packs carry their assets inline; the block library keeps store URLs like every other block
+        const packed = packBlockToBlock(pb);
+        const blk = packed.project.assets ? { ...packed, project: { ...packed.project, assets: await storeAssets(packed.project.assets) } } : packed;
+        if (choice === 'replace') await updateStoredBlock(pb.id, { name: blk.def.name, params: blk.def.params, project: blk.project, tags: blk.tags, hue: blk.def.hue });
+        else if (choice === 'rename') await createStoredBlock({ ...blk, def: { ...blk.def, id: `blk_${Date.now().toString(36)}_${Math.random().toString(36).slice(2,6)}`, name: `${blk.def.name} (imported)` } });
+        else if (choice === 'add') await createStoredBlock(blk);
+      } catch(e: any) { failures.push(`${pb.name}: ${e.message}`); }
     }
+    setPackImport(null);
+    await refreshBlocks();
+    if (failures.length) alert('Some blocks were not imported:\n' + failures.join('\n'));
+  };
+
+  const restoreBlock = async (blockId: string, version: number) => {
+    try { replaceBlock(await restoreBlockVersion(blockId, version)); setBlockVersions({ blockId, versions: await getBlockVersions(blockId) }); }
+    catch(e: any) { alert('Failed to restore version: ' + e.message); }
+  };
+
+  // The first visit starts the history with the demo project; afterwards every undo/redo/restore loads that version
+  useEffect(() => {
+    if (!history.current) history.record({ source: 'initial', label: 'Demo project', segments: [], blocksUsed: [], project: fallbackProject });
+  }, []);
+  useEffect(() => {
+    if (!history.current) return;
+    setProject(history.current.project);
+  }, [history.current?.id]);
+
+  // Providers come from the server; an empty selection means the server's default
+  useEffect(() => {
+    apiFetch('/api/health').then(r => r.json()).then((health) => {
+      setProviders(Array.isArray(health.providers) ? health.providers : []);
+      setProvider(p => p || health.provider || '');
+      setMaxVariants(Math.max(1, Number(health.variants?.max) || 1));
+      if (Number(health.images?.maxSide) > 0) setImageMaxSide(Number(health.images.maxSide));
+    }).catch(() => setProviders([]));
+    fetchBrandKit().then(setBrandKit).catch(() => setBrandKit(null));
+  }, []);
+  useEffect(() => { if (provider) localStorage.setItem('provider_v1', provider); }, [provider]);
+  useEffect(() => { localStorage.setItem('brand_apply_v1', applyBrand ? 'on' : 'off'); }, [applyBrand]);
+  useEffect(() => { localStorage.setItem('format_v1', JSON.stringify(format)); }, [format]);
+  const viewed = useMemo(() => project && viewComposition(project, viewedComposition), [project, viewedComposition]);
+  // Format and caption changes rewrite project files; each one is a version like a timeline edit
+  const recordChange = (next: Project, label: string) => {
+    setProject(next);
+    history.record({ source: 'edit', label, segments, blocksUsed: [], project: next });
   };
 
   const onImageDrop = async (e: DragEvent<HTMLDivElement>) => {
@@ -140,12 +522,9 @@ export const App: React.FC = () => {
     }
   };
 
-  const fileToDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(String(reader.result));
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+  // Browsers leave the type of .md (and sometimes .txt) files empty; the server needs it to extract their text.
+  // Images are downscaled to the server's limit before they are sent.
+  const fileToDataUrl = (file: File) => imageDataUrl(file.type ? file : new Blob([file], { type: /\.(md|markdown)$/i.test(file.name) ? 'text/markdown' : 'text/plain' }), imageMaxSide);
 
   // --- Rich prompt editor (contenteditable) --------------------------------
   const renderPromptHTML = (text: string) => {
@@ -252,50 +631,84 @@ export const App: React.FC = () => {
   const saveEditingToken = () => {
     if (!editingToken) return;
     const blk = blocks.find(b => b.def.id === editingToken.blockId); if (!blk) return;
-    const paramStr = blk.def.params.map(p => `${p.key}=${JSON.stringify(editingToken.values[p.key] ?? p.default)}`).join(' ');
+    const {values} = validateParamValues(blk.def.params, editingToken.values);
+    const paramStr = blk.def.params.map(p => `${p.key}=${JSON.stringify(values[p.key])}`).join(' ');
     const tokenText = `[[Block:${blk.def.id} ${paramStr}]]`;
     const next = prompt.slice(0, editingToken.start) + tokenText + prompt.slice(editingToken.end);
     setPrompt(next); setEditingToken(null);
   };
 
-  const createBlock = async () => {
-    if (!project) return alert('No project to create a block from');
+  const createBlock = async (source: Project | null = project) => {
+    if (!source) return alert('No project to create a block from');
+    if (!confirmDiagnostics('Create a block', source)) return;
     try{
       setBlockLoading(true);
-      const resp = await fetch('/api/blocks/params', { method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify({ project })});
+      const resp = await apiFetch('/api/blocks/params', { method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify({ project: source, provider: provider || undefined, brand: activeBrand ? undefined : false })});
       if (!resp.ok) throw new Error('Param service failed');
       const raw: any = await resp.json();
       // Normalize params where label = key = name
       const normalized: BlockDef = {
         id: raw.id,
         name: raw.name,
-        params: (raw.params || []).map((p: any) => ({ key: p.name || p.key, label: p.name || p.label || p.key, type: p.type, default: p.default, describe: p.explain, explain: p.explain }))
+        params: (raw.params || []).map((p: any) => ({ key: p.name || p.key, label: p.name || p.label || p.key, type: p.type, default: p.default, describe: p.explain, explain: p.explain, bound: Boolean(p.bound), min: p.min, max: p.max, step: p.step, unit: p.unit, options: p.options }))
       } as any;
       // Ensure unique id; keep visible name from LLM
       const uid = `blk_${Date.now().toString(36)}_${Math.random().toString(36).slice(2,6)}`;
       const hue = Math.floor(Math.random()*360);
-      const blk: Block = { def: { ...normalized, id: uid, hue } as any, project };
-      const next = [blk, ...blocks]; setBlocks(next); localStorage.setItem('blocks_v1', JSON.stringify(next));
+      // The server returns the project rewritten so that bound params are props of MyComp
+      const blockProject: Project = raw.project ? { ...raw.project, props: normalized.params.filter(p => p.bound) } : source;
+      const blk = await createStoredBlock({ def: { ...normalized, id: uid, hue } as any, project: blockProject });
+      setBlocks(prev => [blk, ...prev]);
     } catch(e){ console.error(e); alert('Failed to create block'); }
     finally { setBlockLoading(false); }
   };
 
+  // A runnable Remotion project (scaffold, sources, assets) with a manifest that Import Project reads back
   const downloadZip = async () => {
-    if (!project) return;
-    const zip = new JSZip();
-    const folder = zip.folder('src')!;
-    Object.entries(project.files).forEach(([file, content]) => {
-      if (file.startsWith('src/')) folder.file(file.slice(4), content);
-      else zip.file(file, content);
-    });
-    const blob = await zip.generateAsync({type:'blob'});
+    if (!project || !confirmDiagnostics('Download the project')) return;
+    let archive: { blob: Blob; fileName: string };
+    try {
+      const promptText = segments.filter(s=>s.type==='text').map(s => (s as TextSeg).value).join('\n\n').trim();
+      archive = await exportProjectArchive(project, { segments, promptText, blocks });
+    } catch (e: any) { return alert('Export failed: ' + (e?.message || e)); }
     const a = document.createElement('a');
-    a.href = URL.createObjectURL(blob);
-    a.download = 'remotion-project.zip';
+    a.href = URL.createObjectURL(archive.blob);
+    a.download = archive.fileName;
     a.click();
     setTimeout(()=>URL.revokeObjectURL(a.href), 1000);
   };
 
+  const [importing, setImporting] = useState(false);
+  const importProject = async (label: string, entries: () => Promise<ArchiveEntry[]>) => {
+    setImporting(true);
+    try {
+      const { project: imported, manifest, notes } = await readProjectArchive(await entries());
+      const importedSegments = Array.isArray(manifest?.prompt?.segments) && manifest!.prompt.segments.length ? manifest!.prompt.segments : segments;
+      setSegments(importedSegments);
+      setProject(imported);
+      setRefineThread([]);
+      setScenes({});
+      const used = manifest?.blocks?.blocks || [];
+      history.record({ source: 'import', label: `Imported ${label}`, segments: importedSegments, blocksUsed: used.map(b => ({ id: b.id, name: b.name })), project: imported });
+      // Blocks the prompt refers to but the library lacks go through the usual pack import dialog
+      const missing = used.filter(b => !blocks.some(x => x.def.id === b.id));
+      if (manifest?.blocks && missing.length) setPackImport({ pack: { ...manifest.blocks, blocks: missing }, choices: Object.fromEntries(missing.map(b => [b.id, 'add' as PackChoice])) });
+      if (notes.length) alert(`Imported ${label} with notes:\n` + notes.join('\n'));
+    } catch (e: any) {
+      alert('Import failed: ' + (e?.message || e));
+    } finally { setImporting(false); }
+  };
+  const onProjectZip = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importProject(file.name, () => zipEntries(file));
+  };
+  const onProjectFolder = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length) importProject((files[0].webkitRelativePath || '').split('/')[0] || 'folder', async () => folderEntries(files));
+  };
+
   // Segmented composer ops
   const updateTextSeg = (id: string, value: string) => {
     setSegments(prev => prev.map(s => s.id === id ? ({ ...(s as TextSeg), value }) : s));
@@ -361,11 +774,45 @@ export const App: React.FC = () => {
   };
   const saveEditingBlock = () => {
     if (!editingBlock) return;
-    setSegments(prev => prev.map(s => s.id === editingBlock.segmentId ? ({ ...(s as BlockSeg), values: editingBlock.values, contextUrl: editingBlock.contextUrl, contextData: editingBlock.contextData }) : s));
+    const blk = blocks.find(b => b.def.id === editingBlock.blockId);
+    const values = blk ? validateParamValues(blk.def.params, editingBlock.values).values : editingBlock.values;
+    setSegments(prev => prev.map(s => s.id === editingBlock.segmentId ? ({ ...(s as BlockSeg), values, contextUrl: editingBlock.contextUrl, contextData: editingBlock.contextData }) : s));
     setEditingBlock(null);
   };
 
+  // --- Refinement thread ---------------------------------------------------
+  const [refineText, setRefineText] = useState('');
+  const [refining, setRefining] = useState(false);
+  const [refineThread, setRefineThread] = useState<RefineStep[]>([]);
+
+  const refine = async () => {
+    const instruction = refineText.trim();
+    if (!project || !instruction) return;
+    try{
+      setRefining(true);
+      const resp = await apiFetch('/api/refine', { method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify({
+        project, instruction, provider: provider || undefined, assets: assetManifest(project.assets),
+        thread: refineThread.filter(s => !s.error).map(s => ({ instruction: s.instruction, summary: s.summary })),
+      })});
+      const body = await resp.json().catch(() => null);
+      if (!resp.ok) throw new Error(body?.error || 'Backend error: ' + resp.status);
+      const next: Project = body.project;
+      const regions = changedRegions(project.files, next.files);
+      setRefineThread(t => [...t, { id: uid(), instruction, summary: body.summary || '', regions }]);
+      setRefineText('');
+      if (regions.length) {
+        setProject(next);
+        history.record({ source: 'refine', label: instruction.slice(0, 80), segments, blocksUsed: [], model: body.model, provider: body.provider, project: next });
+      }
+    } catch(e: any){
+      console.error(e);
+      setRefineThread(t => [...t, { id: uid(), instruction, summary: '', regions: [], error: e?.message || 'Refinement failed' }]);
+    } finally { setRefining(false); }
+  };
+
   const [codeCollapsed, setCodeCollapsed] = useState(false);
+  const [codeTab, setCodeTab] = useState<'code' | 'history'>('code');
+  const [compareIds, setCompareIds] = useState<{ a: string; b: string }>({ a: '', b: '' });
 
   const gridStyle = useMemo(() => ({
     ...gridMore,
@@ -390,16 +837,32 @@ export const App: React.FC = () => {
           <section style={{...panel, display:'flex', flexDirection:'column', height:'100%', position:'relative'}}>
             <div style={{display:'flex', justifyContent:'space-between', alignItems:'center'}}>
               <h3 style={h3}>Blocks</h3>
-              <button onClick={createBlock} style={{...ghost, opacity:blockLoading?0.7:1}} disabled={blockLoading}>{blockLoading ? 'Creating…' : 'Create Block'}</button>
+              <button onClick={()=>createBlock()} style={{...ghost, opacity:blockLoading?0.7:1}} disabled={blockLoading}>{blockLoading ? 'Creating…' : 'Create Block'}</button>
+            </div>
+            <div style={{display:'flex', gap:6, marginBottom:8}}>
+              <label style={{...tinyButton, padding:'4px 8px'}}>
+                <input type="file" accept=".json,application/json" onChange={onPackFile} style={{display:'none'}} />
+                Import pack
+              </label>
+              <button onClick={exportBlockPack} style={{...tinyButton, padding:'4px 8px'}} disabled={blocks.length === 0}>Export pack</button>
+            </div>
+            <div style={{display:'flex', gap:6, marginBottom:10}}>
+              <input value={blockQuery.q} onChange={(e)=>setBlockQuery(q => ({...q, q: e.target.value}))} placeholder="Search blocks" style={{...input, flex:1, minWidth:0, padding:'6px 8px'}} />
+              {Object.keys(blockTags).length > 0 && (
+                <select value={blockQuery.tag} onChange={(e)=>setBlockQuery(q => ({...q, tag: e.target.value}))} style={{...input, padding:'6px 8px', maxWidth:110} as any}>
+                  <option value="">All tags</option>
+                  {Object.entries(blockTags).sort().map(([t, n]) => <option key={t} value={t}>{t} ({n})</option>)}
+                </select>
+              )}
             </div>
             <div style={{display:'flex', flexDirection:'column', gap:10, overflow:'auto'}}>
               {blocks.length === 0 ? (
                 <div style={{color:'#a7b1c2'}}>No blocks yet. Generate a project, then click Create Block.</div>
-              ) : blocks.map((b)=> (
+              ) : blocks.filter(b => !visibleBlockIds || visibleBlockIds.has(b.def.id)).map((b)=> (
                 <div key={b.def.id}
                   draggable
                 onDragStart={(e)=>{ e.dataTransfer.setData('application/x-block-id', b.def.id); e.dataTransfer.setData('text/plain', `[[Block:${b.def.id}]]`); }}
-                onClick={()=>{ setProject(b.project); setCode(JSON.stringify(b.project, null, 2)); setFlashBlockId(b.def.id); setTimeout(()=>setFlashBlockId(null), 200); }}
+                onClick={()=>{ setProject(b.project); setRefineThread([]); history.record({ source: 'block', label: `Loaded block ${b.def.name}`, segments, blocksUsed: [{ id: b.def.id, name: b.def.name }], project: b.project }); setFlashBlockId(b.def.id); setTimeout(()=>setFlashBlockId(null), 200); }}
                 style={{...blockTile,
                   transform: flashBlockId===b.def.id ? 'scale(0.98)' : 'scale(1)', transition:'transform .12s ease, box-shadow .2s ease',
                   boxShadow: flashBlockId===b.def.id ? '0 0 0 4px rgba(255,255,255,0.06)' : 'none',
@@ -407,9 +870,26 @@ export const App: React.FC = () => {
                 >
                   <div style={{display:'flex', justifyContent:'space-between', alignItems:'center', gap:8}}>
                     <div style={{fontWeight:800, whiteSpace:'nowrap', overflow:'hidden', textOverflow:'ellipsis'}}>{b.def.name}</div>
-                    <button onClick={(e)=>{ e.stopPropagation(); const next = blocks.filter(x => x.def.id !== b.def.id); setBlocks(next); localStorage.setItem('blocks_v1', JSON.stringify(next)); }} style={{...ghost, padding:'6px 8px'}}>Delete</button>
+                    <button onClick={(e)=>{ e.stopPropagation(); deleteBlock(b.def.id); }} style={{...ghost, padding:'6px 8px'}}>Delete</button>
                   </div>
                   <div style={{fontSize:12, color:'#a7b1c2'}}>{b.def.params.map(p=>p.label).join(' · ')}</div>
+                  <div style={{display:'flex', flexWrap:'wrap', alignItems:'center', gap:6, marginTop:6, fontSize:11, color:'#a7b1c2'}}>
+                    <span>v{b.version ?? 1} · used {b.usageCount ?? 0}×</span>
+                    {(b.tags || []).map(t => <span key={t} style={tagChip}>{t}</span>)}
+                    <span style={{flex:1}} />
+                    <button onClick={(e)=>{ e.stopPropagation(); editBlockTags(b); }} style={tinyButton}>Tags</button>
+                    {(b.versionCount ?? 0) > 0 && <button onClick={(e)=>{ e.stopPropagation(); toggleBlockVersions(b.def.id); }} style={tinyButton}>Versions</button>}
+                  </div>
+                  {blockVersions?.blockId === b.def.id && (
+                    <div onClick={(e)=>e.stopPropagation()} style={{display:'grid', gap:4, marginTop:6, fontSize:11}}>
+                      {blockVersions.versions.map(v => (
+                        <div key={v.version} style={{display:'flex', alignItems:'center', gap:6}}>
+                          <span style={{flex:1, color:'#a7b1c2'}}>v{v.version} · {v.name} · {new Date(v.createdAt).toLocaleString()}</span>
+                          <button onClick={()=>restoreBlock(b.def.id, v.version)} style={tinyButton}>Restore</button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -419,6 +899,10 @@ export const App: React.FC = () => {
             <div style={{display:'flex', justifyContent:'space-between', alignItems:'center'}}>
               <h3 style={h3}>Compose Prompt</h3>
               <div style={{display:'inline-flex', alignItems:'center', gap:8, color:'#a7b1c2'}}>
+                <label style={{display:'inline-flex', alignItems:'center', gap:6}} title="Generate one scene per block and join them with transitions">
+                  <input type="checkbox" checked={storyboard} onChange={(e)=>setStoryboard(e.target.checked)} />
+                  Storyboard
+                </label>
                 <label>Secs/block</label>
                 <input type="number" min={1} max={30} step={1} value={secondsPerBlock}
                   onChange={(e)=>setSecondsPerBlock(Math.max(1, Number(e.target.value||3)))}
@@ -451,6 +935,23 @@ export const App: React.FC = () => {
                           </div>
                         </div>
                         <div style={{fontSize:12, color:'#a7b1c2'}}>{blockSummary((seg as BlockSeg), blocks)}</div>
+                        {storyboard && (() => {
+                          const s = seg as BlockSeg;
+                          const status = sceneStatus[s.id] || scenes[s.id]?.source;
+                          return (
+                            <div style={{display:'flex', alignItems:'center', gap:8, marginTop:8, fontSize:12}}>
+                              <input type="number" min={0.5} max={60} step={0.5} value={s.seconds ?? secondsPerBlock}
+                                onChange={(e)=>updateBlockSeg(s.id, { seconds: Math.min(60, Math.max(0.5, Number(e.target.value) || secondsPerBlock)) })}
+                                style={{...input, width:64, padding:'4px 8px'}} title="Scene length in seconds" />
+                              <span>s</span>
+                              <select value={s.transition || 'cut'} onChange={(e)=>updateBlockSeg(s.id, { transition: e.target.value as Transition })} style={{...input, padding:'4px 8px'} as any} title="Transition into this scene">
+                                {TRANSITIONS.map(t => <option key={t} value={t}>{t}</option>)}
+                              </select>
+                              <span style={{flex:1, color:'#a7b1c2'}}>{status ? SCENE_SOURCES[status] || status : ''}</span>
+                              <button style={{...ghost, padding:'4px 8px'}} disabled={loading || !scenes[s.id]} onClick={()=>generateStoryboard(s.id)}>Regenerate</button>
+                            </div>
+                          );
+                        })()}
                       </div>
                     )}
                     {/* Drop zone after this segment */}
@@ -474,47 +975,100 @@ export const App: React.FC = () => {
               </div>
             </div>
             <div style={{display:'flex', gap:10, alignItems:'center', marginTop:8}}>
-              <button onClick={()=>generate(false)} style={{...primary, opacity: loading ? 0.8 : 1}} disabled={loading}>
-                {loading ? 'Generating…' : 'Generate Remotion Project'}
+              <button onClick={()=>storyboard ? generateStoryboard() : variantCount > 1 ? generateVariants(false) : generate(false)} style={{...primary, opacity: loading ? 0.8 : 1}} disabled={loading}>
+                {loading ? 'Generating…' : storyboard ? 'Generate Storyboard' : variantCount > 1 ? `Generate ${variantCount} Variants` : 'Generate Remotion Project'}
               </button>
-              <button onClick={()=>generate(true)} style={ghost} disabled={loading}>Generate Fast</button>
+              <button onClick={()=>storyboard ? generateStoryboard(undefined, true) : variantCount > 1 ? generateVariants(true) : generate(true)} style={ghost} disabled={loading}>Generate Fast</button>
+              {loading && <button onClick={cancelGenerate} style={ghost}>Cancel</button>}
+              {maxVariants > 1 && (
+                <label style={{display:'inline-flex', alignItems:'center', gap:8, color:'#a7b1c2'}} title="Generate several takes of the same prompt side by side and keep one">
+                  Variants
+                  <select value={storyboard ? 1 : variantCount} onChange={(e)=>setVariantCount(Number(e.target.value))} style={input as any} disabled={storyboard || loading}>
+                    {Array.from({ length: maxVariants }, (_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+                  </select>
+                </label>
+              )}
+              <label style={{display:'inline-flex', alignItems:'center', gap:8, color:'#a7b1c2'}}>
+                Provider
+                <select value={provider} onChange={(e)=>setProvider(e.target.value)} style={input as any}>
+                  {providers.length === 0 && <option value="">Server default</option>}
+                  {providers.map(p => <option key={p.id} value={p.id} disabled={!p.available}>{p.label}{p.available ? '' : ' (not configured)'}</option>)}
+                </select>
+              </label>
               <label style={{display:'inline-flex', alignItems:'center', gap:8, color:'#a7b1c2'}}>
-                <input type="checkbox" checked={useMock} onChange={(e)=>setUseMock(e.target.checked)} /> Use mock backend
+                Format
+                <select value={customFormat ? 'custom' : presetFor(format)?.id || 'custom'} onChange={(e)=>{ const preset = FORMAT_PRESETS.find(p => p.id === e.target.value); setCustomFormat(!preset); if (preset) setFormat({ width: preset.width, height: preset.height }); }} style={input as any} disabled={loading}>
+                  {FORMAT_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  <option value="custom">Custom</option>
+                </select>
               </label>
+              {customFormat && (<>
+                <input type="number" min={16} max={3840} step={2} value={format.width} onChange={(e)=>setFormat(f => ({ ...f, width: Number(e.target.value) || f.width }))} style={{...input, width:80}} title="Width in pixels" disabled={loading} />
+                <span style={{color:'#a7b1c2'}}>×</span>
+                <input type="number" min={16} max={3840} step={2} value={format.height} onChange={(e)=>setFormat(f => ({ ...f, height: Number(e.target.value) || f.height }))} style={{...input, width:80}} title="Height in pixels" disabled={loading} />
+              </>)}
             </div>
           </section>
 
           <section style={{...panel, display: codeCollapsed ? 'none' : 'flex', flexDirection:'column'}}>
             <div style={{display:'flex', justifyContent:'space-between', alignItems:'center'}}>
               <h3 style={h3}>Returned code</h3>
-              <button onClick={()=>setCodeCollapsed(true)} style={ghost}>Collapse</button>
+              <div style={{display:'flex', gap:8}}>
+                <button onClick={()=>setCodeTab(codeTab === 'code' ? 'history' : 'code')} style={ghost}>{codeTab === 'code' ? `History (${history.versions.length})` : 'Code'}</button>
+                <button onClick={()=>setCodeCollapsed(true)} style={ghost}>Collapse</button>
+              </div>
             </div>
-            <textarea value={code} onChange={(e)=>setCode(e.target.value)} style={{...ta, flex:1, minHeight:280}} spellCheck={false} />
-            <div style={{display:'flex', gap:10, marginTop:8}}>
-              <button onClick={downloadZip} style={ghost}>Download Project</button>
+            <div style={{display:'flex', gap:8, marginBottom:8}}>
+              <button onClick={history.undo} style={{...ghost, padding:'6px 10px', opacity: history.canUndo ? 1 : 0.5}} disabled={!history.canUndo || loading}>Undo</button>
+              <button onClick={history.redo} style={{...ghost, padding:'6px 10px', opacity: history.canRedo ? 1 : 0.5}} disabled={!history.canRedo || loading}>Redo</button>
+              {history.current && <div style={{alignSelf:'center', fontSize:12, color:'#a7b1c2', whiteSpace:'nowrap', overflow:'hidden', textOverflow:'ellipsis'}}>{history.current.label}</div>}
             </div>
+            {codeTab === 'code' ? (<>
+              {project?.validation && <ValidationStatus validation={project.validation} />}
+              {loading && streamedCode ? (
+                <textarea value={streamedCode} readOnly style={{...ta, flex:1, minHeight:280}} spellCheck={false} />
+              ) : project && (
+                <CodeWorkspace
+                  files={project.files}
+                  generatedFiles={generatedVersion?.project.files}
+                  onChange={editFiles}
+                  onCommit={commitEdit}
+                  onReset={resetToGenerated}
+                  disabled={loading}
+                />
+              )}
+              <div style={{display:'flex', gap:10, marginTop:8}}>
+                <button onClick={downloadZip} style={ghost}>Download Project</button>
+                <label style={{...ghost, opacity: importing || loading ? 0.6 : 1, pointerEvents: importing || loading ? 'none' : undefined}} title="Load a project ZIP exported by the app, or any Remotion project ZIP">
+                  <input type="file" accept=".zip,application/zip" onChange={onProjectZip} style={{display:'none'}} />
+                  {importing ? 'Importing…' : 'Import Project'}
+                </label>
+                <label style={{...ghost, opacity: importing || loading ? 0.6 : 1, pointerEvents: importing || loading ? 'none' : undefined}} title="Load a Remotion project folder (like remotion-studio/)">
+                  <input type="file" {...{webkitdirectory: '', directory: ''}} multiple onChange={onProjectFolder} style={{display:'none'}} />
+                  Import Folder
+                </label>
+              </div>
+            </>) : (
+              <HistoryPanel
+                history={history}
+                compareIds={compareIds}
+                onCompare={setCompareIds}
+                disabled={loading}
+              />
+            )}
           </section>
 
-          <section style={{...panel, position:'relative', gridColumn: codeCollapsed ? '3 / 5' as any : undefined}}>
+          <section style={{...panel, position:'relative', overflow:'auto', gridColumn: codeCollapsed ? '3 / 5' as any : undefined}}>
             <div style={{display:'flex', justifyContent:'space-between', alignItems:'center'}}>
               <h3 style={h3}>Preview</h3>
               {codeCollapsed && <button onClick={()=>setCodeCollapsed(false)} style={ghost}>Expand Code</button>}
             </div>
-            <div style={{position:'relative', width:'100%', aspectRatio:'16/9', background:'#0a0e15', borderRadius:18, overflow:'hidden', display:'grid', placeItems:'center', boxShadow:'0 12px 36px rgba(0,0,0,0.45)'}}>
-              {!loading && Comp ? (
-                <Player
-                  component={Comp as any}
-                  durationInFrames={project?.durationInFrames || 150}
-                  fps={project?.fps || 30}
-                  compositionWidth={project?.width || 1920}
-                  compositionHeight={project?.height || 1080}
-                  controls
-                  loop
-                  showPlaybackRateControl
-                  style={{width:'100%', height:'100%'}}
-                />
+            {variants && <VariantGrid variants={variants} onKeep={keepVariant} onMakeBlock={(v)=>createBlock(v.project || null)} onDiscard={discardVariants} blockBusy={blockLoading} />}
+            <div style={{position:'relative', width:`min(100%, calc(70vh * ${(viewed || DEFAULT_FORMAT).width} / ${(viewed || DEFAULT_FORMAT).height}))`, margin:'0 auto', aspectRatio:`${(viewed || DEFAULT_FORMAT).width}/${(viewed || DEFAULT_FORMAT).height}`, background:'#0a0e15', borderRadius:18, overflow:'hidden', display:'grid', placeItems:'center', boxShadow:'0 12px 36px rgba(0,0,0,0.45)'}}>
+              {!loading && project ? (
+                <SandboxPlayer project={viewed || project} inputProps={inputProps} options={{controls:true, loop:true, showPlaybackRateControl:true}} />
               ) : (
-                <div style={{maxWidth:680, textAlign:'center', padding:'0 12px', color:'#a7b1c2'}}>
+                <div style={{maxWidth:680, textAlign:'center', padding:'0 12px', color:'#a7b1c2', whiteSpace:'pre-wrap'}}>
                   {loading ? 'Contacting backend and generating project…' : 'Generated Remotion composition will preview here.'}
                 </div>
               )}
@@ -525,13 +1079,88 @@ export const App: React.FC = () => {
               </div>
               {loading && (
                 <div style={overlay}>
-                  <div style={spinner} />
+                  <div style={{display:'grid', justifyItems:'center', gap:10}}>
+                    <div style={spinner} />
+                    {stage && <div style={{fontSize:13, color:'#e9eef5', fontWeight:600}}>{stage}</div>}
+                  </div>
                 </div>
               )}
             </div>
+            {project && <TimelineEditor project={project} onChange={retime} disabled={loading} />}
+            {project && viewed && <FormatPanel project={project} selected={viewed.compositionId} onSelect={setViewedComposition} onChange={recordChange} disabled={loading} />}
+            {project && <CaptionPanel project={project} onChange={recordChange} disabled={loading} />}
+            {project?.props && project.props.length > 0 && (
+              <div style={{marginTop:12, padding:'10px 12px', borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)'}}>
+                <div style={{display:'flex', justifyContent:'space-between', alignItems:'center', marginBottom:8}}>
+                  <div style={{fontWeight:700}}>Props</div>
+                  <button onClick={()=>setInputProps(defaultValues(project.props || []))} style={{...ghost, padding:'4px 8px', fontSize:12}}>Reset</button>
+                </div>
+                <PropControls params={project.props} values={inputProps} onChange={(key, value)=>setInputProps(v => ({...v, [key]: value}))} onUpload={uploadParamImage} />
+              </div>
+            )}
+            <AssetPanel assets={assets} onChange={changeAssets} disabled={loading} />
+            <BrandKitPanel kit={brandKit} onChange={setBrandKit} applied={applyBrand} onApply={setApplyBrand} disabled={loading} />
+            {lintFindings.length > 0 && <LintPanel findings={lintFindings} onFix={applyLintFixes} disabled={loading} />}
+            <RenderPanel project={viewed} inputProps={inputProps} />
+            <div style={{display:'flex', flexDirection:'column', gap:8, marginTop:12}}>
+              {refineThread.length > 0 && (
+                <div style={{display:'flex', flexDirection:'column', gap:8, maxHeight:260, overflow:'auto'}}>
+                  {refineThread.map((step, i) => (
+                    <details key={step.id} open={i === refineThread.length - 1} style={refineStep}>
+                      <summary style={{cursor:'pointer', fontWeight:700}}>{step.instruction}</summary>
+                      <div style={{fontSize:12, margin:'6px 0', color: step.error ? '#ff9b9b' : '#a7b1c2'}}>{step.error || step.summary}</div>
+                      {!step.error && <ChangedRegions regions={step.regions} />}
+                    </details>
+                  ))}
+                </div>
+              )}
+              <div style={{display:'flex', gap:8}}>
+                <input value={refineText} onChange={(e)=>setRefineText(e.target.value)}
+                  onKeyDown={(e)=>{ if (e.key === 'Enter' && !refining) refine(); }}
+                  placeholder="Refine: e.g. make the title slower and move the bar to the top"
+                  style={{...input, flex:1}} disabled={refining || loading || !project}
+                />
+                <button onClick={refine} style={{...ghost, opacity: refining ? 0.7 : 1}} disabled={refining || loading || !project || !refineText.trim()}>{refining ? 'Refining…' : 'Refine'}</button>
+                {refineThread.length > 0 && <button onClick={()=>setRefineThread([])} style={ghost} disabled={refining}>Clear</button>}
+              </div>
+            </div>
           </section>
         </div>
       </div>
+      {packImport && (
+        <div style={editorOverlay}>
+          <div style={editorCard}>
+            <div style={{display:'flex', justifyContent:'space-between', alignItems:'center', marginBottom:10}}>
+              <div style={{fontWeight:800}}>Import “{packImport.pack.name}” · {packImport.pack.blocks.length} block{packImport.pack.blocks.length === 1 ? '' : 's'}</div>
+              <button onClick={()=>setPackImport(null)} style={ghost}>Cancel</button>
+            </div>
+            {packImport.pack.description && <div style={{fontSize:12, color:'#a7b1c2', marginBottom:8}}>{packImport.pack.description}</div>}
+            <div style={{display:'grid', gap:8}}>
+              {packImport.pack.blocks.map(pb => {
+                const existing = blocks.find(b => b.def.id === pb.id);
+                return (
+                  <div key={pb.id} style={{display:'flex', alignItems:'center', gap:8}}>
+                    <div style={{flex:1, minWidth:0}}>
+                      <div style={{fontWeight:700, whiteSpace:'nowrap', overflow:'hidden', textOverflow:'ellipsis'}}>{pb.name}</div>
+                      <div style={{fontSize:11, color: existing ? '#ffd479' : '#a7b1c2'}}>{existing ? `Same id as “${existing.def.name}” in your library` : pb.params.map(p => p.label || p.key).join(' · ')}</div>
+                    </div>
+                    <select value={packImport.choices[pb.id]} onChange={(e)=>{ const choice = e.target.value as PackChoice; setPackImport(s => s ? ({...s, choices: {...s.choices, [pb.id]: choice}}) : s); }} style={{...input, padding:'6px 8px'} as any}>
+                      {existing ? (<>
+                        <option value="rename">Import as copy</option>
+                        <option value="replace">Replace existing</option>
+                      </>) : <option value="add">Import</option>}
+                      <option value="skip">Skip</option>
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+            <div style={{display:'flex', gap:8, justifyContent:'flex-end', marginTop:12}}>
+              <button onClick={confirmPackImport} style={primary}>Import</button>
+            </div>
+          </div>
+        </div>
+      )}
       {editingBlock && (
         <div style={editorOverlay}>
           <div style={editorCard}>
@@ -541,6 +1170,7 @@ export const App: React.FC = () => {
             </div>
             {(() => { const blk = blocks.find(b => b.def.id === editingBlock.blockId)!; return (
               <div style={{display:'grid', gap:10}}>
+                {blk.project.props?.length ? <BlockPreview project={blk.project} values={editingBlock.values} /> : null}
                 <div style={{display:'grid', gap:6}}>
                   <label style={{fontSize:12, color:'#a7b1c2'}}>Context URL</label>
                   <input type="url" placeholder="https://..."
@@ -561,35 +1191,14 @@ export const App: React.FC = () => {
                 {blk.def.params.map(p => (
                   <div key={p.key} style={{display:'grid', gap:6}}>
                     <label style={{fontSize:12, color:'#a7b1c2'}}>{p.label || p.key}</label>
-                    {p.type === 'number' ? (
-                      <div style={{display:'flex', alignItems:'center', gap:8}}>
-                        <input type="range" min={0} max={10} step={1}
-                          value={Number(editingBlock.values[p.key] ?? p.default ?? 0)}
-                          onChange={(e)=>setEditingBlock(s => s ? ({...s, values: {...s.values, [p.key]: Number(e.target.value) }}) : s)}
-                          style={{flex:1}}
-                        />
-                        <span style={{fontSize:12, color:'#a7b1c2', width:28, textAlign:'right'}}>{String(editingBlock.values[p.key] ?? p.default ?? 0)}</span>
-                      </div>
-                    ) : (
-                      <input
-                        type={p.type === 'color' ? 'color' : 'text'}
-                        value={String(editingBlock.values[p.key] ?? p.default ?? '')}
-                        onChange={(e)=>setEditingBlock(s => s ? ({...s, values: {...s.values, [p.key]: e.target.value }}) : s)}
-                        style={input}
-                      />
-                    )}
+                    <ParamEditor param={p} value={editingBlock.values[p.key]} onChange={(v)=>setEditingBlock(s => s ? ({...s, values: {...s.values, [p.key]: v }}) : s)} onUpload={uploadParamImage} />
                   </div>
                 ))}
                 <div style={{marginTop:8, paddingTop:8, borderTop:'1px solid rgba(255,255,255,0.12)'}}>
                   <div style={{fontWeight:700, marginBottom:6}}>Add custom parameter</div>
                   <CustomParamForm onAdd={(param)=>{
-                    const blkIdx = blocks.findIndex(b => b.def.id === editingBlock.blockId);
-                    if (blkIdx>=0){
-                      const nextBlocks = [...blocks];
-                      nextBlocks[blkIdx] = { ...nextBlocks[blkIdx], def: { ...nextBlocks[blkIdx].def, params: [...nextBlocks[blkIdx].def.params, param] } };
-                      setBlocks(nextBlocks); localStorage.setItem('blocks_v1', JSON.stringify(nextBlocks));
-                      setEditingBlock(s => s ? ({...s, values: { ...s.values, [param.key]: param.default } }) : s);
-                    }
+                    addBlockParam(editingBlock.blockId, param);
+                    setEditingBlock(s => s ? ({...s, values: { ...s.values, [param.key]: param.default } }) : s);
                   }} />
                 </div>
                 <div style={{display:'flex', gap:8, justifyContent:'flex-end'}}>
@@ -609,28 +1218,19 @@ export const App: React.FC = () => {
             </div>
             {(() => { const blk = blocks.find(b => b.def.id === editingToken.blockId)!; return (
               <div style={{display:'grid', gap:10}}>
+                {blk.project.props?.length ? <BlockPreview project={blk.project} values={editingToken.values} /> : null}
                 {blk.def.params.map(p => (
                   <div key={p.key} style={{display:'grid', gap:6}}>
                     <label style={{fontSize:12, color:'#a7b1c2', wordBreak:'break-word'}}>{p.label}</label>
-                    <input
-                      type={p.type === 'number' ? 'number' : (p.type === 'color' ? 'color' : 'text')}
-                      value={String(editingToken.values[p.key] ?? p.default ?? '')}
-                      onChange={(e)=>setEditingToken(s => s ? ({...s, values: {...s.values, [p.key]: p.type==='number' ? Number(e.target.value) : e.target.value }}) : s)}
-                      style={{...input, width:'100%', maxWidth:'100%'}}
-                    />
+                    <ParamEditor param={p} value={editingToken.values[p.key]} onChange={(v)=>setEditingToken(s => s ? ({...s, values: {...s.values, [p.key]: v }}) : s)} onUpload={uploadParamImage} />
                   </div>
                 ))}
                 {/* Add custom parameter */}
                 <div style={{marginTop:8, paddingTop:8, borderTop:'1px solid rgba(255,255,255,0.12)'}}>
                   <div style={{fontWeight:700, marginBottom:6}}>Add custom parameter</div>
                   <CustomParamForm onAdd={(param)=>{
-                    const blkIdx = blocks.findIndex(b => b.def.id === editingToken.blockId);
-                    if (blkIdx>=0){
-                      const nextBlocks = [...blocks];
-                      nextBlocks[blkIdx] = { ...nextBlocks[blkIdx], def: { ...nextBlocks[blkIdx].def, params: [...nextBlocks[blkIdx].def.params, param] } };
-                      setBlocks(nextBlocks); localStorage.setItem('blocks_v1', JSON.stringify(nextBlocks));
-                      setEditingToken(s => s ? ({...s, values: { ...s.values, [param.key]: param.default } }) : s);
-                    }
+                    addBlockParam(editingToken.blockId, param);
+                    setEditingToken(s => s ? ({...s, values: { ...s.values, [param.key]: param.default } }) : s);
                   }} />
                 </div>
                 <div style={{display:'flex', gap:8, justifyContent:'flex-end'}}>
@@ -666,11 +1266,26 @@ const spinner: React.CSSProperties = { width:36, height:36, borderRadius:'50%',
 const uploader: React.CSSProperties = { width:220, minWidth:220, alignSelf:'stretch', background:'rgba(255,255,255,0.04)', border:'1px dashed rgba(255,255,255,0.16)', borderRadius:14, display:'flex', flexDirection:'column', alignItems:'center', justifyContent:'center', padding:12 };
 const uploadBtn: React.CSSProperties = { padding:'8px 12px', borderRadius:10, border:'1px solid rgba(255,255,255,0.16)', background:'rgba(255,255,255,0.06)', color:'#e9eef5', cursor:'pointer', fontWeight:700 };
 const removeChip: React.CSSProperties = { position:'absolute', top:6, right:6, padding:'6px 8px', fontSize:12, borderRadius:999, border:'1px solid rgba(255,255,255,0.2)', background:'rgba(0,0,0,0.45)', color:'#e9eef5', cursor:'pointer' };
+const tagChip: React.CSSProperties = { padding:'1px 6px', borderRadius:999, background:'rgba(255,255,255,0.08)', border:'1px solid rgba(255,255,255,0.12)', color:'#e9eef5' };
+const tinyButton: React.CSSProperties = { padding:'2px 6px', borderRadius:8, fontSize:11, color:'#e9eef5', background:'rgba(255,255,255,0.06)', border:'1px solid rgba(255,255,255,0.12)', cursor:'pointer' };
 const blockTile: React.CSSProperties = { padding:12, borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.05)', cursor:'grab' };
 const editorOverlay: React.CSSProperties = { position:'fixed', inset:0, display:'grid', placeItems:'center', background:'rgba(0,0,0,0.45)', zIndex:50 };
 const editorCard: React.CSSProperties = { width:520, maxWidth:'95vw', maxHeight:'80vh', overflow:'auto', background:'#0f1622', border:'1px solid rgba(255,255,255,0.12)', borderRadius:12, padding:16, boxShadow:'0 20px 60px rgba(0,0,0,0.5)' };
+const refineStep: React.CSSProperties = { padding:'8px 10px', borderRadius:10, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)' };
 const input: React.CSSProperties = { padding:'10px 12px', borderRadius:10, border:'1px solid rgba(255,255,255,0.16)', background:'rgba(255,255,255,0.06)', color:'#e9eef5', maxWidth:'100%' };
 
+type PackChoice = 'add' | 'rename' | 'replace' | 'skip';
+
+type RefineStep = { id: string; instruction: string; summary: string; regions: ChangedRegion[]; error?: string };
+
+type StoryboardResult = { project: Project; scenes: StoryboardScene[]; inputs?: ModelInput[]; provider?: string; model?: string };
+
+// A freshly generated project keeps the uploads it was generated with (next to any its blocks brought along)
+function withAssets(project: Project, assets: Record<string, ProjectAsset>): Project {
+  const merged = { ...(project.assets || {}), ...assets };
+  return Object.keys(merged).length ? { ...project, assets: merged } : project;
+}
+
 // --- Helpers: Block tokens in prompt --------------------------------------
 function findTokenAt(text: string, pos: number): null | { start: number; end: number; blockId: string; params: Record<string, any> } {
   const regex = /\[\[Block:([\w-]+)([^\]]*)\]\]/g;
@@ -738,25 +1353,174 @@ function parseToken(token: string){
   return { id, start, end, params };
 }
 
+function defaultValues(params: ParamDef[]) {
+  const values: Record<string, any> = {};
+  params.forEach(p => { values[p.key] = p.default; });
+  return values;
+}
+
+// Only the bound params reach the component; the others still work through the prompt
+function propsFromValues(params: ParamDef[], values: Record<string, any>) {
+  const props: Record<string, any> = {};
+  params.forEach(p => { props[p.key] = coerceParamValue(p, values[p.key]).value; });
+  return props;
+}
+
+const PropControls: React.FC<{ params: ParamDef[]; values: Record<string, any>; onChange: (key: string, value: any) => void; onUpload?: (file: File) => Promise<string> }> = ({ params, values, onChange, onUpload }) => (
+  <div style={{display:'grid', gridTemplateColumns:'auto 1fr', gap:'6px 10px', alignItems:'center'}}>
+    {params.map(p => (
+      <React.Fragment key={p.key}>
+        <label style={{fontSize:12, color:'#a7b1c2'}}>{p.label || p.key}</label>
+        <ParamEditor param={p} value={values[p.key]} onChange={(v)=>onChange(p.key, v)} onUpload={onUpload} compact />
+      </React.Fragment>
+    ))}
+  </div>
+);
+
+// Live preview of a block inside its parameter editor: edited values are passed straight through as inputProps
+const BlockPreview: React.FC<{ project: Project; values: Record<string, any> }> = ({ project, values }) => {
+  const props = useMemo(() => propsFromValues(project.props || [], values), [project, values]);
+  return (
+    <div style={{width:'100%', aspectRatio:`${project.width || 16}/${project.height || 9}`, background:'#0a0e15', borderRadius:12, overflow:'hidden'}}>
+      <SandboxPlayer project={project} inputProps={props} options={{autoPlay:true, loop:true}} />
+    </div>
+  );
+};
+
+// Compile/repair outcome reported by /api/generate
+const ValidationStatus: React.FC<{ validation: Validation }> = ({ validation }) => {
+  const errors = validation.diagnostics.filter(d => d.severity === 'error');
+  const fixed = validation.diagnostics.filter(d => d.fixed).length;
+  const label = (!validation.ok
+    ? `Still failing after ${validation.attempts} attempt${validation.attempts === 1 ? '' : 's'} · ${errors.length} error${errors.length === 1 ? '' : 's'}`
+    : validation.attempts > 1 ? `Fixed after ${validation.attempts} attempts` : 'Compiled on first attempt') + (fixed ? ` · ${fixed} lint fix${fixed === 1 ? '' : 'es'} applied` : '');
+  return (
+    <div style={{marginBottom:8, fontSize:12, color: validation.ok ? '#8fe3a0' : '#ff9b9b'}}>
+      <div style={{fontWeight:700}}>{label}</div>
+      {errors.length > 0 && (
+        <ul style={{margin:'4px 0 0', paddingLeft:18, maxHeight:96, overflow:'auto', fontFamily:ta.fontFamily}}>
+          {errors.map((d, i) => <li key={i}>{d.file}:{d.line}:{d.column} {d.message}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Lint findings for the current project; fixable ones (seeded random(), missing imports) can be applied in one go
+const LintPanel: React.FC<{ findings: LintFinding[]; onFix: () => void; disabled: boolean }> = ({ findings, onFix, disabled }) => {
+  const fixable = findings.filter(f => f.fix).length;
+  const errors = findings.filter(f => f.severity === 'error').length;
+  return (
+    <div style={{marginTop:12, padding:'10px 12px', borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)'}}>
+      <div style={{display:'flex', justifyContent:'space-between', alignItems:'center', marginBottom:6}}>
+        <div style={{fontWeight:700}}>Lint · {errors} error{errors === 1 ? '' : 's'} · {findings.length - errors} warning{findings.length - errors === 1 ? '' : 's'}</div>
+        {fixable > 0 && <button onClick={onFix} disabled={disabled} style={{...ghost, padding:'4px 8px', fontSize:12}}>Fix {fixable}</button>}
+      </div>
+      <ul style={{margin:0, paddingLeft:18, maxHeight:120, overflow:'auto', fontSize:12, fontFamily:ta.fontFamily}}>
+        {findings.map((f, i) => (
+          <li key={i} style={{color: f.severity === 'error' ? '#ff9b9b' : '#ffd479'}}>
+            {f.file}:{f.line}:{f.column} {f.message}{f.fix ? ' · fixable' : ''}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// Version list plus a diff between any two versions. Restoring an old version and generating again forks from it.
+const HistoryPanel: React.FC<{
+  history: ReturnType<typeof useProjectHistory>;
+  compareIds: { a: string; b: string };
+  onCompare: (ids: { a: string; b: string }) => void;
+  disabled: boolean;
+}> = ({ history, compareIds, onCompare, disabled }) => {
+  const { versions, current } = history;
+  const newestFirst = [...versions].reverse();
+  const a = versions.find(v => v.id === compareIds.a) || (current && versions.find(v => v.id === current.parentId)) || versions[0];
+  const b = versions.find(v => v.id === compareIds.b) || current || versions[versions.length - 1];
+  const optionLabel = (id: string) => {
+    const v = versions.find(x => x.id === id)!;
+    return `${new Date(v.createdAt).toLocaleTimeString()} · ${v.label}`;
+  };
+  return (
+    <div style={{display:'flex', flexDirection:'column', gap:10, flex:1, minHeight:0}}>
+      <div style={{display:'flex', flexDirection:'column', gap:6, maxHeight:220, overflow:'auto'}}>
+        {newestFirst.map(v => {
+          const isCurrent = current?.id === v.id;
+          const hasChildren = versions.some(x => x.parentId === v.id);
+          return (
+            <div key={v.id} style={{display:'flex', alignItems:'center', gap:8, padding:'6px 8px', paddingLeft: 8 + Math.min(versionDepth(versions, v.id), 8) * 8, borderRadius:10, border:'1px solid rgba(255,255,255,0.12)', background: isCurrent ? 'rgba(110,168,254,0.16)' : 'rgba(255,255,255,0.03)'}}>
+              <div style={{flex:1, minWidth:0}}>
+                <div style={{fontWeight:700, fontSize:13, whiteSpace:'nowrap', overflow:'hidden', textOverflow:'ellipsis'}}>{v.label}</div>
+                <div style={{fontSize:11, color:'#a7b1c2'}}>
+                  {new Date(v.createdAt).toLocaleString()} · {v.source}
+                  {v.model ? ` · ${v.provider ? v.provider + '/' : ''}${v.model}` : ''}
+                  {v.cached ? ' · from cache' : ''}
+                  {v.blocksUsed.length ? ` · ${v.blocksUsed.map(x => x.name).join(', ')}` : ''}
+                </div>
+                {v.inputs && v.inputs.length > 0 && (
+                  <div style={{fontSize:11, color:'#a7b1c2'}}>
+                    Inputs: {v.inputs.map(input => `${input.label} (${input.status}${input.detail ? ', ' + input.detail : ''})`).join(' · ')}
+                  </div>
+                )}
+              </div>
+              {!isCurrent && (
+                <button onClick={()=>history.checkout(v.id)} disabled={disabled} style={{...ghost, padding:'4px 8px', fontSize:12}} title={hasChildren ? 'Restore; generating from here starts a new branch' : 'Restore this version'}>
+                  {hasChildren ? 'Fork' : 'Restore'}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {a && b && (<>
+        <div style={{display:'grid', gridTemplateColumns:'1fr 1fr', gap:8}}>
+          <select value={a.id} onChange={(e)=>onCompare({ a: e.target.value, b: b.id })} style={input as any}>
+            {newestFirst.map(v => <option key={v.id} value={v.id}>{optionLabel(v.id)}</option>)}
+          </select>
+          <select value={b.id} onChange={(e)=>onCompare({ a: a.id, b: e.target.value })} style={input as any}>
+            {newestFirst.map(v => <option key={v.id} value={v.id}>{optionLabel(v.id)}</option>)}
+          </select>
+        </div>
+        <DiffView before={a.project.files} after={b.project.files} />
+      </>)}
+    </div>
+  );
+};
+
 // Small helper form for adding custom params
 const CustomParamForm: React.FC<{ onAdd: (p: ParamDef) => void }> = ({ onAdd }) => {
   const [name, setName] = useState('parameter');
-  const [type, setType] = useState<'color'|'text'|'number'|'select'>('text');
+  const [type, setType] = useState<ParamType>('text');
   const [def, setDef] = useState<any>('');
+  const [options, setOptions] = useState('');
+  const [range, setRange] = useState<{ min: string; max: string; step: string; unit: string }>({ min: '', max: '', step: '', unit: '' });
+  const num = (v: string) => v.trim() === '' || !Number.isFinite(Number(v)) ? undefined : Number(v);
+  const numeric = type === 'number' || type === 'duration';
+  const draft: ParamDef = {
+    key: name, label: name, type, default: def,
+    ...(type === 'select' ? { options: options.split(',').map(o => o.trim()).filter(Boolean) } : {}),
+    ...(numeric ? { min: num(range.min), max: num(range.max), step: num(range.step), unit: range.unit.trim() || undefined } : {}),
+  };
   return (
     <div style={{display:'grid', gap:8}}>
-      <input placeholder="name" value={name} onChange={(e)=>setName(e.target.value)} style={input}/>
       <div style={{display:'grid', gridTemplateColumns:'1fr 1fr', gap:8}}>
-        <select value={type} onChange={(e)=>setType(e.target.value as any)} style={input as any}>
-          <option value="text">text</option>
-          <option value="number">number</option>
-          <option value="color">color</option>
-          <option value="select">select</option>
+        <input placeholder="name" value={name} onChange={(e)=>setName(e.target.value)} style={input}/>
+        <select value={type} onChange={(e)=>{ setType(e.target.value as ParamType); setDef(''); }} style={input as any}>
+          {PARAM_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
         </select>
-        <input placeholder="default" value={String(def)} onChange={(e)=>setDef(e.target.value)} style={input}/>
       </div>
+      {type === 'select' && <input placeholder="options, comma separated" value={options} onChange={(e)=>setOptions(e.target.value)} style={input}/>}
+      {numeric && (
+        <div style={{display:'grid', gridTemplateColumns:'repeat(4, 1fr)', gap:8}}>
+          {(['min', 'max', 'step', 'unit'] as const).map(k => (
+            <input key={k} placeholder={k} value={range[k]} onChange={(e)=>setRange(r => ({ ...r, [k]: e.target.value }))} style={input}/>
+          ))}
+        </div>
+      )}
+      <ParamEditor param={draft} value={def} onChange={setDef} compact />
       <div style={{display:'flex', justifyContent:'flex-end'}}>
-        <button onClick={()=>onAdd({ key: name, label: name, type, default: type==='number' ? Number(def) : def })} style={ghost}>Add</button>
+        <button onClick={()=>onAdd({ ...draft, default: coerceParamValue(draft, def).value })} style={ghost}>Add</button>
       </div>
     </div>
   );
@@ -771,7 +1535,7 @@ function blockName(blockId: string, blocks: Block[]){
 
 function blockSummary(seg: BlockSeg, blocks: Block[]) {
   const blk = blocks.find(b => b.def.id === seg.blockId); if (!blk) return '';
-  return blk.def.params.map(p => `${p.label}: ${String(seg.values[p.key] ?? p.default ?? '')}`).join(' · ');
+  return blk.def.params.map(p => `${p.label}: ${formatParamValue(p, seg.values[p.key])}`).join(' · ');
 }
 
 function blockChip(seg: BlockSeg, blocks: Block[]): React.CSSProperties {
@@ -784,21 +1548,59 @@ const dropZone: React.CSSProperties = { border:'1px dashed rgba(255,255,255,0.16
 const dropZoneHover: React.CSSProperties = { borderColor:'rgba(110,168,254,0.8)', background:'rgba(110,168,254,0.12)', color:'#e9eef5' };
 const composerScroll: React.CSSProperties = { display:'flex', flexDirection:'column', gap:8, overflowY:'auto', paddingRight:4, maxHeight:'100%' };
 
+function usedBlock(bseg: BlockSeg, blk: Block) {
+  return {
+    id: blk.def.id,
+    name: blk.def.name,
+    def: { params: blk.def.params.map(p => ({ key: p.key, label: p.label, type: p.type, default: p.default, explain: (p as any).explain, unit: p.unit, options: p.options })) },
+    params: blk.def.params.map(p => ({ key: p.key, default: p.default, value: coerceParamValue(p, bseg.values[p.key]).value })),
+    project: blk.project,
+    context: { url: bseg.contextUrl || '', data: bseg.contextData || '' }
+  };
+}
+
+// Values of block segments that cannot be coerced to their param's type, as "Block · Param: problem" lines
+function segmentParamErrors(segments: PromptSeg[], blocks: Block[]) {
+  const errors: string[] = [];
+  for (const seg of segments) {
+    if (seg.type !== 'block') continue;
+    const blk = blocks.find(b => b.def.id === (seg as BlockSeg).blockId); if (!blk) continue;
+    errors.push(...validateParamValues(blk.def.params, (seg as BlockSeg).values).errors.map(e => `${blk.def.name} · ${e}`));
+  }
+  return errors;
+}
+
 function extractBlocksFromSegments(segments: PromptSeg[], blocks: Block[]) {
   const used: any[] = [];
   for (const seg of segments) {
     if (seg.type !== 'block') continue;
     const bseg = seg as BlockSeg; const blk = blocks.find(b => b.def.id === bseg.blockId); if (!blk) continue;
-    used.push({
-      id: blk.def.id,
-      name: blk.def.name,
-      def: { params: blk.def.params.map(p => ({ key: p.key, label: p.label, type: p.type, default: p.default, explain: (p as any).explain })) },
-      params: blk.def.params.map(p => ({ key: p.key, default: p.default, value: bseg.values[p.key] })),
-      project: blk.project,
-      context: { url: bseg.contextUrl || '', data: bseg.contextData || '' }
-    });
+    used.push(usedBlock(bseg, blk));
   }
   return used;
 }
 
+const TRANSITIONS: Transition[] = ['cut', 'fade', 'slide', 'wipe'];
+const SCENE_SOURCES: Record<string, string> = { block: 'Block as is', generated: 'Generated', cached: 'Reused' };
+
+// Storyboard request body: text before the first block is the brief for every scene, text after a block
+// describes that block's scene
+function storyboardFromSegments(segments: PromptSeg[], blocks: Block[], secondsPerBlock: number) {
+  const brief: string[] = [];
+  const scenes: { id: string; block: ReturnType<typeof usedBlock>; notes: string; seconds: number; transition: Transition }[] = [];
+  for (const seg of segments) {
+    if (seg.type === 'text') {
+      const text = (seg as TextSeg).value.trim();
+      if (!text) continue;
+      const last = scenes[scenes.length - 1];
+      if (last) last.notes = [last.notes, text].filter(Boolean).join('\n');
+      else brief.push(text);
+      continue;
+    }
+    const bseg = seg as BlockSeg; const blk = blocks.find(b => b.def.id === bseg.blockId); if (!blk) continue;
+    scenes.push({ id: bseg.id, block: usedBlock(bseg, blk), notes: '', seconds: bseg.seconds ?? secondsPerBlock, transition: bseg.transition || 'cut' });
+  }
+  return { brief: brief.join('\n\n'), scenes };
+}
+
 function openBlockEditor(seg: BlockSeg){ /* implemented in component via setEditingBlock; placeholder */ return; }
@@ -0,0 +1,84 @@
+import React, {ChangeEvent, useState} from 'react';
+import {ProjectAsset} from './types';
+import {assetKind, assetPath, formatBytes, uploadAsset} from './assetApi';
+
+const ICONS: Record<string, string> = { audio: '♪', video: '▶', font: 'Aa' };
+
+// The project's files under public/. Uploads are stored on the server; the composition reaches them with
+// staticFile('<name>'), which the preview resolves to the uploaded file and the renderer copies into public/.
+export const AssetPanel: React.FC<{ assets: Record<string, ProjectAsset>; onChange: (assets: Record<string, ProjectAsset>, label: string) => void; disabled?: boolean }> = ({ assets, onChange, disabled }) => {
+  const [uploading, setUploading] = useState(false);
+  const [copied, setCopied] = useState('');
+  const entries = Object.entries(assets).sort(([a], [b]) => a.localeCompare(b));
+
+  const onFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!files.length) return;
+    setUploading(true);
+    const next = { ...assets };
+    const added: string[] = [];
+    try {
+      for (const file of files) {
+        const path = assetPath(file.name, next);
+        next[path] = await uploadAsset(file);
+        added.push(path.slice(7));
+      }
+    } catch (err: any) {
+      alert('Upload failed' + (err?.message ? ': ' + err.message : ''));
+    } finally {
+      setUploading(false);
+      if (added.length) onChange(next, `Added ${added.join(', ')}`);
+    }
+  };
+
+  const remove = (path: string) => {
+    const { [path]: _, ...rest } = assets;
+    onChange(rest, `Removed ${path.slice(7)}`);
+  };
+
+  const copy = async (path: string) => {
+    const snippet = `staticFile('${path.slice(7)}')`;
+    try { await navigator.clipboard.writeText(snippet); setCopied(path); setTimeout(() => setCopied(c => (c === path ? '' : c)), 1200); }
+    catch { prompt('Copy this into the code:', snippet); }
+  };
+
+  return (
+    <div style={{marginTop:12, padding:'10px 12px', borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)'}}>
+      <div style={{display:'flex', gap:8, alignItems:'center'}}>
+        <div style={{fontWeight:700, flex:1}}>Assets</div>
+        <label style={{...button, opacity: disabled || uploading ? 0.6 : 1, pointerEvents: disabled || uploading ? 'none' : undefined}}>
+          <input type="file" multiple accept="image/*,audio/*,video/*,.woff,.woff2,.ttf,.otf" onChange={onFiles} style={{display:'none'}} />
+          {uploading ? 'Uploading…' : 'Upload'}
+        </label>
+      </div>
+      {entries.length === 0 ? (
+        <div style={{fontSize:12, color:'#a7b1c2', marginTop:6}}>Images, audio, video and fonts go to public/ and can be used with staticFile(). Generation and refine know about them.</div>
+      ) : (
+        <div style={{display:'grid', gap:6, marginTop:8, maxHeight:220, overflow:'auto'}}>
+          {entries.map(([path, asset]) => {
+            const kind = assetKind(asset.type);
+            return (
+              <div key={path} style={{display:'flex', gap:8, alignItems:'center', fontSize:12}}>
+                {kind === 'image'
+                  ? <img src={asset.data} alt="" style={thumb} />
+                  : <div style={{...thumb, display:'grid', placeItems:'center', color:'#a7b1c2', fontWeight:700}}>{ICONS[kind || ''] || '?'}</div>}
+                <div style={{flex:1, minWidth:0}}>
+                  <div style={{fontFamily:mono, overflow:'hidden', textOverflow:'ellipsis', whiteSpace:'nowrap'}}>{path.slice(7)}</div>
+                  <div style={{color:'#a7b1c2'}}>{asset.type}{asset.size ? ` · ${formatBytes(asset.size)}` : ''}</div>
+                </div>
+                <button onClick={()=>copy(path)} style={smallButton} title="Copy a staticFile() call for this file">{copied === path ? 'Copied' : 'staticFile'}</button>
+                <button onClick={()=>remove(path)} disabled={disabled} style={smallButton}>Remove</button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const mono = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+const thumb: React.CSSProperties = { width:36, height:36, flex:'none', objectFit:'cover', borderRadius:6, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(0,0,0,0.35)' };
+const button: React.CSSProperties = { padding:'6px 12px', borderRadius:10, fontWeight:700, color:'#e9eef5', background:'rgba(255,255,255,0.06)', border:'1px solid rgba(255,255,255,0.12)', cursor:'pointer' };
+const smallButton: React.CSSProperties = { ...button, padding:'2px 8px', fontSize:12, fontWeight:600 };
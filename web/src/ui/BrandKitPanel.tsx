@@ -0,0 +1,135 @@
+import React, {ChangeEvent, useEffect, useState} from 'react';
+import {assetKind, assetPath, uploadAsset} from './assetApi';
+import {BrandKit, clearBrandKit, EMPTY_BRAND_KIT, MOTION_STYLES, MotionStyle, saveBrandKit} from './brandKit';
+
+const MAX_COLORS = 8;
+
+// The team's brand kit, stored on the server and shared by everyone using it. While "Apply" is on, generations and
+// new blocks follow it and the lint panel reports colors outside its palette.
+export const BrandKitPanel: React.FC<{
+  kit: BrandKit | null;
+  onChange: (kit: BrandKit | null) => void;
+  applied: boolean;
+  onApply: (applied: boolean) => void;
+  disabled?: boolean;
+}> = ({ kit, onChange, applied, onApply, disabled }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<BrandKit>(kit || EMPTY_BRAND_KIT);
+  const [busy, setBusy] = useState(false);
+  useEffect(() => { if (!editing) setDraft(kit || EMPTY_BRAND_KIT); }, [kit, editing]);
+
+  const update = (patch: Partial<BrandKit>) => setDraft(d => ({ ...d, ...patch }));
+  const setColor = (i: number, patch: Partial<BrandKit['palette'][number]>) => update({ palette: draft.palette.map((p, j) => (j === i ? { ...p, ...patch } : p)) });
+
+  const onLogo = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setBusy(true);
+      const asset = await uploadAsset(file);
+      if (assetKind(asset.type) !== 'image') throw new Error('the logo must be an image');
+      update({ logo: { name: assetPath('brand-' + file.name, {}).slice(7), type: asset.type, url: asset.data, size: asset.size } });
+    } catch (err: any) {
+      alert('Upload failed' + (err?.message ? ': ' + err.message : ''));
+    } finally { setBusy(false); }
+  };
+
+  const save = async () => {
+    try {
+      setBusy(true);
+      onChange(await saveBrandKit(draft));
+      setEditing(false);
+    } catch (e: any) {
+      alert('Could not save the brand kit' + (e?.message ? ': ' + e.message : ''));
+    } finally { setBusy(false); }
+  };
+
+  const clear = async () => {
+    if (!confirm('Remove the brand kit for everyone using this server?')) return;
+    try {
+      setBusy(true);
+      await clearBrandKit();
+      onChange(null);
+      setEditing(false);
+    } catch (e: any) {
+      alert('Could not remove the brand kit' + (e?.message ? ': ' + e.message : ''));
+    } finally { setBusy(false); }
+  };
+
+  return (
+    <div style={{marginTop:12, padding:'10px 12px', borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)'}}>
+      <div style={{display:'flex', gap:8, alignItems:'center'}}>
+        <div style={{fontWeight:700, flex:1}}>Brand kit{kit?.name ? ` · ${kit.name}` : ''}</div>
+        {kit && !editing && (
+          <div style={{display:'flex', gap:3}} title={kit.palette.map(p => `${p.name} ${p.color}`).join(', ')}>
+            {kit.palette.map(p => <span key={p.color} style={{...swatch, background:p.color}} />)}
+          </div>
+        )}
+        {kit && (
+          <label style={{display:'flex', gap:4, alignItems:'center', fontSize:12}} title="Follow the brand kit in generations and new blocks">
+            <input type="checkbox" checked={applied} onChange={(e)=>onApply(e.target.checked)} /> Apply
+          </label>
+        )}
+        <button onClick={()=>setEditing(v => !v)} disabled={disabled || busy} style={smallButton}>{editing ? 'Cancel' : kit ? 'Edit' : 'Set up'}</button>
+      </div>
+      {!kit && !editing && <div style={{fontSize:12, color:'#a7b1c2', marginTop:6}}>Palette, fonts, logo, motion style and safe margins that every generation and block follows.</div>}
+      {editing && (
+        <div style={{display:'grid', gap:8, marginTop:8, fontSize:12}}>
+          <label style={row}>Name <input value={draft.name} onChange={(e)=>update({ name: e.target.value })} placeholder="Brand name" style={{...input, flex:1}} /></label>
+          <div style={{display:'grid', gap:4}}>
+            <div style={muted}>Palette (name them background and text for the backdrop and the copy)</div>
+            {draft.palette.map((p, i) => (
+              <div key={i} style={row}>
+                <input type="color" value={/^#[0-9a-f]{6}$/i.test(p.color) ? p.color : '#000000'} onChange={(e)=>setColor(i, { color: e.target.value })} style={colorInput} />
+                <input value={p.color} onChange={(e)=>setColor(i, { color: e.target.value })} style={{...input, width:84, fontFamily:'ui-monospace, monospace'}} />
+                <input value={p.name} onChange={(e)=>setColor(i, { name: e.target.value })} placeholder="name" style={{...input, flex:1}} />
+                <button onClick={()=>update({ palette: draft.palette.filter((_, j) => j !== i) })} style={smallButton} title="Remove this color">×</button>
+              </div>
+            ))}
+            {draft.palette.length < MAX_COLORS && (
+              <button onClick={()=>update({ palette: [...draft.palette, { name: `color ${draft.palette.length + 1}`, color: '#ffffff' }] })} style={{...smallButton, justifySelf:'start'}}>+ Color</button>
+            )}
+          </div>
+          <label style={row}>Headings <input value={draft.typography.heading} onChange={(e)=>update({ typography: { ...draft.typography, heading: e.target.value } })} placeholder="Poppins, sans-serif" style={{...input, flex:1}} /></label>
+          <label style={row}>Body <input value={draft.typography.body} onChange={(e)=>update({ typography: { ...draft.typography, body: e.target.value } })} placeholder="Inter, sans-serif" style={{...input, flex:1}} /></label>
+          <div style={row}>
+            Logo
+            {draft.logo
+              ? <><img src={draft.logo.url} alt="" style={logoThumb} /><span style={{flex:1, overflow:'hidden', textOverflow:'ellipsis'}}>{draft.logo.name}</span><button onClick={()=>update({ logo: null })} style={smallButton}>Remove</button></>
+              : <span style={{flex:1, color:'#a7b1c2'}}>none</span>}
+            <label style={{...smallButton, opacity: busy ? 0.6 : 1, pointerEvents: busy ? 'none' : undefined}}>
+              <input type="file" accept="image/*" onChange={onLogo} style={{display:'none'}} />
+              {draft.logo ? 'Replace' : 'Upload'}
+            </label>
+          </div>
+          <div style={row}>
+            Motion
+            <select value={draft.motion.style} onChange={(e)=>update({ motion: { ...draft.motion, style: e.target.value as MotionStyle } })} style={input}>
+              {MOTION_STYLES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            </select>
+            <input value={draft.motion.easing} onChange={(e)=>update({ motion: { ...draft.motion, easing: e.target.value } })} placeholder="easing, e.g. cubic-bezier(0.22, 1, 0.36, 1)" style={{...input, flex:1}} />
+          </div>
+          <label style={row}>
+            Safe margins
+            <input type="number" min={0} max={20} step={0.5} value={draft.safeMargin} onChange={(e)=>update({ safeMargin: Number(e.target.value) })} style={{...input, width:64}} />
+            % of the frame
+          </label>
+          <div style={{display:'flex', gap:8, justifyContent:'flex-end'}}>
+            {kit && <button onClick={clear} disabled={busy} style={smallButton}>Remove kit</button>}
+            <button onClick={save} disabled={busy} style={smallButton}>{busy ? 'Saving…' : 'Save'}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const button: React.CSSProperties = { padding:'6px 12px', borderRadius:10, fontWeight:700, color:'#e9eef5', background:'rgba(255,255,255,0.06)', border:'1px solid rgba(255,255,255,0.12)', cursor:'pointer' };
+const smallButton: React.CSSProperties = { ...button, padding:'2px 8px', fontSize:12, fontWeight:600 };
+const input: React.CSSProperties = { padding:'4px 8px', borderRadius:8, border:'1px solid rgba(255,255,255,0.16)', background:'rgba(255,255,255,0.06)', color:'#e9eef5', fontSize:12, minWidth:0 };
+const row: React.CSSProperties = { display:'flex', gap:8, alignItems:'center' };
+const muted: React.CSSProperties = { color:'#a7b1c2' };
+const swatch: React.CSSProperties = { width:14, height:14, borderRadius:4, border:'1px solid rgba(255,255,255,0.2)' };
+const colorInput: React.CSSProperties = { width:28, height:24, padding:0, border:0, background:'transparent', cursor:'pointer' };
+const logoThumb: React.CSSProperties = { width:28, height:28, objectFit:'contain', borderRadius:6, background:'rgba(255,255,255,0.06)' };
@@ -0,0 +1,123 @@
+import React, {ChangeEvent, useEffect, useMemo, useState} from 'react';
+import {Project} from './types';
+import {applyCaptions, CAPTIONS_FILE, CaptionPosition, Captions, CaptionStyle, Cue, DEFAULT_CAPTION_STYLE, formatTimestamp, parseCaptions, readCaptions} from './captions';
+
+const POSITIONS: { id: CaptionPosition; label: string }[] = [
+  { id: 'bottom', label: 'Bottom' },
+  { id: 'middle', label: 'Middle' },
+  { id: 'top', label: 'Top' },
+];
+
+// The project's caption track: import an .srt/.vtt file or a pasted transcript, edit the cues and their style.
+// Edits stay in a draft until saved; every save is a version like a timeline edit.
+export const CaptionPanel: React.FC<{
+  project: Project;
+  onChange: (project: Project, label: string) => void;
+  disabled?: boolean;
+}> = ({ project, onChange, disabled }) => {
+  // Other edits of the project (timeline, formats) keep an unsaved draft; only a new captions file replaces it
+  const saved = useMemo(() => readCaptions(project), [project.files[CAPTIONS_FILE]]);
+  const [draft, setDraft] = useState<Captions | null>(saved);
+  const [pasting, setPasting] = useState(false);
+  const [pasted, setPasted] = useState('');
+  useEffect(() => { setDraft(saved); }, [saved]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const duration = project.durationInFrames / project.fps;
+  const late = draft ? draft.cues.filter(c => c.end > duration + 1e-6).length : 0;
+
+  const apply = (captions: Captions | null, label: string) => {
+    const next = applyCaptions(project, captions);
+    onChange(next.project, label);
+    if (!next.wired) alert(`Could not find the element MyComp returns. Add <Captions /> from './Captions' to it by hand to show the captions.`);
+  };
+
+  const importText = (text: string, source: string) => {
+    try {
+      const { cues, format } = parseCaptions(text);
+      apply({ style: draft?.style || DEFAULT_CAPTION_STYLE, cues }, `Imported captions from ${source || format}`);
+      setPasting(false);
+      setPasted('');
+    } catch (e: any) {
+      alert('Could not import the captions' + (e?.message ? ': ' + e.message : ''));
+    }
+  };
+
+  const onFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importText(await file.text(), file.name);
+  };
+
+  const setStyle = (patch: Partial<CaptionStyle>) => setDraft(d => d && ({ ...d, style: { ...d.style, ...patch } }));
+  const setCue = (i: number, patch: Partial<Cue>) => setDraft(d => d && ({ ...d, cues: d.cues.map((c, j) => (j === i ? { ...c, ...patch } : c)) }));
+  const addCue = () => setDraft(d => {
+    const last = d?.cues[d.cues.length - 1];
+    const start = last ? Math.min(last.end, duration) : 0;
+    return { style: d?.style || DEFAULT_CAPTION_STYLE, cues: [...(d?.cues || []), { start, end: Math.min(start + 2, Math.max(duration, start + 0.5)), text: '' }] };
+  });
+  const remove = () => {
+    if (confirm('Remove the captions from this project?')) apply(null, 'Removed the captions');
+  };
+
+  return (
+    <div style={{marginTop:12, padding:'10px 12px', borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)'}}>
+      <div style={{display:'flex', gap:8, alignItems:'center'}}>
+        <div style={{fontWeight:700, flex:1}}>Captions{draft ? ` · ${draft.cues.length} cue${draft.cues.length === 1 ? '' : 's'}` : ''}</div>
+        <label style={{...smallButton, opacity: disabled ? 0.6 : 1, pointerEvents: disabled ? 'none' : undefined}} title="Import an .srt or .vtt file">
+          <input type="file" accept=".srt,.vtt,.txt,text/vtt" onChange={onFile} style={{display:'none'}} />
+          Import
+        </label>
+        <button onClick={()=>setPasting(v => !v)} disabled={disabled} style={smallButton} title="Paste SRT, WebVTT or a transcript with timestamps">{pasting ? 'Cancel' : 'Paste'}</button>
+        {!draft && <button onClick={addCue} disabled={disabled} style={smallButton}>+ Cue</button>}
+      </div>
+      {!draft && !pasting && <div style={{fontSize:12, color:'#a7b1c2', marginTop:6}}>Subtitles from an .srt/.vtt file or a transcript like "[00:01] Hello", drawn on top of the video.</div>}
+      {pasting && (
+        <div style={{display:'grid', gap:6, marginTop:8}}>
+          <textarea value={pasted} onChange={(e)=>setPasted(e.target.value)} rows={5} placeholder={'[00:00] Welcome to the demo\n[00:03] Here is what is new'} style={{...input, fontFamily:'ui-monospace, monospace', resize:'vertical'}} />
+          <button onClick={()=>importText(pasted, '')} disabled={disabled || !pasted.trim()} style={{...smallButton, justifySelf:'end'}}>Import</button>
+        </div>
+      )}
+      {draft && (
+        <div style={{display:'grid', gap:8, marginTop:8, fontSize:12}}>
+          <div style={{...row, flexWrap:'wrap'}}>
+            <select value={draft.style.position} onChange={(e)=>setStyle({ position: e.target.value as CaptionPosition })} style={input} title="Position">
+              {POSITIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            <label style={row} title="Font size on a 1080-pixel frame">Size <input type="number" min={12} max={200} value={draft.style.fontSize} onChange={(e)=>setStyle({ fontSize: Number(e.target.value) })} style={{...input, width:56}} /></label>
+            <label style={row} title="Text color"><input type="color" value={/^#[0-9a-f]{6}$/i.test(draft.style.color) ? draft.style.color : '#ffffff'} onChange={(e)=>setStyle({ color: e.target.value })} style={colorInput} /> Text</label>
+            <input value={draft.style.background} onChange={(e)=>setStyle({ background: e.target.value })} placeholder="background" title="Background behind the text (any CSS color, or transparent)" style={{...input, width:128}} />
+            <input value={draft.style.fontFamily} onChange={(e)=>setStyle({ fontFamily: e.target.value })} placeholder="font family" style={{...input, flex:1, minWidth:100}} />
+          </div>
+          <div style={{display:'grid', gap:4, maxHeight:260, overflowY:'auto'}}>
+            {draft.cues.map((c, i) => (
+              <div key={i} style={{...row, alignItems:'flex-start'}}>
+                <div style={{display:'grid', gap:2}}>
+                  <input type="number" min={0} step={0.1} value={c.start} onChange={(e)=>setCue(i, { start: Number(e.target.value) })} style={{...input, width:72}} title={formatTimestamp(c.start)} />
+                  <input type="number" min={0} step={0.1} value={c.end} onChange={(e)=>setCue(i, { end: Number(e.target.value) })} style={{...input, width:72, ...(c.end > duration + 1e-6 ? warn : {})}} title={formatTimestamp(c.end)} />
+                </div>
+                <textarea value={c.text} onChange={(e)=>setCue(i, { text: e.target.value })} rows={2} style={{...input, flex:1, resize:'vertical'}} />
+                <button onClick={()=>setDraft(d => d && ({ ...d, cues: d.cues.filter((_, j) => j !== i) }))} style={smallButton} title="Remove this cue">×</button>
+              </div>
+            ))}
+          </div>
+          {late > 0 && <div style={{color:'#ffcc66'}}>{late} cue{late === 1 ? ' ends' : 's end'} after the video ({duration.toFixed(1)} s); the rest is cut off.</div>}
+          <div style={{display:'flex', gap:8, alignItems:'center'}}>
+            <button onClick={addCue} disabled={disabled} style={smallButton}>+ Cue</button>
+            <div style={{flex:1}} />
+            {saved && <button onClick={remove} disabled={disabled} style={smallButton}>Remove captions</button>}
+            {dirty && <button onClick={()=>setDraft(saved)} disabled={disabled} style={smallButton}>Revert</button>}
+            {dirty && <button onClick={()=>apply(draft, saved ? 'Edited the captions' : 'Added captions')} disabled={disabled} style={smallButton}>Save</button>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const button: React.CSSProperties = { padding:'6px 12px', borderRadius:10, fontWeight:700, color:'#e9eef5', background:'rgba(255,255,255,0.06)', border:'1px solid rgba(255,255,255,0.12)', cursor:'pointer' };
+const smallButton: React.CSSProperties = { ...button, padding:'2px 8px', fontSize:12, fontWeight:600 };
+const input: React.CSSProperties = { padding:'4px 8px', borderRadius:8, border:'1px solid rgba(255,255,255,0.16)', background:'rgba(255,255,255,0.06)', color:'#e9eef5', fontSize:12, minWidth:0 };
+const row: React.CSSProperties = { display:'flex', gap:8, alignItems:'center' };
+const warn: React.CSSProperties = { borderColor:'#ffcc66' };
+const colorInput: React.CSSProperties = { width:28, height:24, padding:0, border:0, background:'transparent', cursor:'pointer' };
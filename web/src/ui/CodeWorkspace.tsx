@@ -0,0 +1,252 @@
+import React, {KeyboardEvent, useEffect, useMemo, useRef, useState} from 'react';
+import {Diagnostic} from './types';
+import {highlight, Run, TOKEN_COLORS} from './highlight';
+import {DiagnosticsCache, projectDiagnostics} from './diagnostics';
+import {typeDiagnostics} from './typecheck';
+
+// Files the preview and the renderer need; they can be edited but not renamed or deleted
+const REQUIRED_FILES = ['src/index.ts', 'src/Root.tsx', 'src/MyComp.tsx'];
+const SOURCE_FILE = /^src\/[\w./-]+\.(tsx?|jsx?|json)$/;
+// Edits reach the preview, and are checked, once typing pauses for this long
+const APPLY_DELAY_MS = 600;
+
+type Props = {
+  files: Record<string, string>;
+  // Files of the version the edits started from; when given and different, "Reset to generated" is offered
+  generatedFiles?: Record<string, string>;
+  // Called with the edited files after a pause in typing (and at once when the editor loses focus)
+  onChange: (files: Record<string, string>) => void;
+  // A finished edit (focus left the editor, or a file was added, renamed or deleted), worth a history version
+  onCommit: (files: Record<string, string>, label: string) => void;
+  onReset: () => void;
+  disabled?: boolean;
+};
+
+// Highlighted runs split into lines, so lines with diagnostics can be marked
+function lineRuns(source: string) {
+  const lines: Run[][] = [[]];
+  for (const run of highlight(source)) {
+    run.text.split('\n').forEach((text, i) => {
+      if (i > 0) lines.push([]);
+      if (text) lines[lines.length - 1].push({ kind: run.kind, text });
+    });
+  }
+  return lines;
+}
+
+function sameFiles(a: Record<string, string>, b: Record<string, string>) {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(k => a[k] === b[k]);
+}
+
+// Per-file tabbed editor over project.files: highlighted source, diagnostics from the preview's compiler, the
+// shared lint rules and the type checker, and edits that flow back into the project (and so into the preview).
+export const CodeWorkspace: React.FC<Props> = ({ files, generatedFiles, onChange, onCommit, onReset, disabled }) => {
+  const [draft, setDraft] = useState(files);
+  // The files diagnostics describe: the draft as of the last pause in typing
+  const [checked, setChecked] = useState(files);
+  const cacheRef = useRef<DiagnosticsCache>(new Map());
+  // Type errors arrive from the worker after the other checks; the previous ones stay up until then
+  const [typeErrors, setTypeErrors] = useState<Diagnostic[]>([]);
+  const [active, setActive] = useState('src/MyComp.tsx');
+  const emittedRef = useRef(files);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const textRef = useRef<HTMLTextAreaElement | null>(null);
+  const layerRef = useRef<HTMLPreElement | null>(null);
+
+  // A new project from outside (generation, refine, undo, import) replaces whatever was being typed
+  useEffect(() => {
+    if (files === emittedRef.current) return;
+    if (timerRef.current) { clearTimeout(timerRef.current); timerRef.current = null; }
+    emittedRef.current = files;
+    setDraft(files);
+    setChecked(files);
+  }, [files]);
+  useEffect(() => () => { if (timerRef.current) clearTimeout(timerRef.current); }, []);
+  useEffect(() => {
+    let current = true;
+    typeDiagnostics(checked).then(found => { if (current) setTypeErrors(found); });
+    return () => { current = false; };
+  }, [checked]);
+
+  const names = useMemo(() => Object.keys(draft).sort((a, b) => (REQUIRED_FILES.indexOf(b) - REQUIRED_FILES.indexOf(a)) || a.localeCompare(b)), [draft]);
+  const file = typeof draft[active] === 'string' ? active : names.includes('src/MyComp.tsx') ? 'src/MyComp.tsx' : names[0];
+  const source = draft[file] ?? '';
+  const diagnostics = useMemo(() => {
+    const found = projectDiagnostics(checked, cacheRef.current);
+    // A file that does not compile gets nothing but its syntax error
+    const broken = new Set(found.filter(d => d.code === 'compile').map(d => d.file));
+    return [...found, ...typeErrors.filter(d => !broken.has(d.file) && typeof checked[d.file] === 'string')];
+  }, [checked, typeErrors]);
+  const byFile = useMemo(() => {
+    const out: Record<string, Diagnostic[]> = {};
+    for (const d of diagnostics) (out[d.file] = out[d.file] || []).push(d);
+    return out;
+  }, [diagnostics]);
+  const lines = useMemo(() => lineRuns(source), [source]);
+  const marked = useMemo(() => {
+    const out = new Map<number, 'error' | 'warning'>();
+    for (const d of byFile[file] || []) if (out.get(d.line) !== 'error') out.set(d.line, d.severity);
+    return out;
+  }, [byFile, file]);
+  const edited = generatedFiles ? !sameFiles(draft, generatedFiles) : false;
+
+  const emit = (next: Record<string, string>) => {
+    if (timerRef.current) { clearTimeout(timerRef.current); timerRef.current = null; }
+    emittedRef.current = next;
+    setChecked(next);
+    onChange(next);
+  };
+  const flush = () => {
+    if (!timerRef.current) return;
+    emit(draft);
+  };
+
+  const edit = (text: string) => {
+    const next = { ...draft, [file]: text };
+    setDraft(next);
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => { timerRef.current = null; emittedRef.current = next; setChecked(next); onChange(next); }, APPLY_DELAY_MS);
+  };
+
+  const commit = (next: Record<string, string>, label: string) => {
+    emit(next);
+    setDraft(next);
+    onCommit(next, label);
+  };
+
+  // Identical projects are not recorded twice, so leaving the editor without typing adds no version
+  const onBlur = () => {
+    flush();
+    onCommit(draft, `Edited ${file.slice(4)}`);
+  };
+
+  const askPath = (message: string, initial: string) => {
+    const path = prompt(message, initial)?.trim().replace(/^\.?\//, '');
+    if (!path) return null;
+    const full = path.startsWith('src/') ? path : 'src/' + path;
+    if (!SOURCE_FILE.test(full)) { alert('Files go under src/ and end in .tsx, .ts, .jsx, .js or .json'); return null; }
+    if (typeof draft[full] === 'string') { alert(`${full} already exists`); return null; }
+    return full;
+  };
+
+  const addFile = () => {
+    const path = askPath('New file (under src/):', 'src/Component.tsx');
+    if (!path) return;
+    const name = path.split('/').pop()!.replace(/\.\w+$/, '').replace(/[^\w$]/g, '') || 'Component';
+    const text = /\.tsx$/.test(path) ? `import React from 'react';\n\nexport const ${name}: React.FC = () => {\n  return null;\n};\n` : path.endsWith('.json') ? '{}\n' : '';
+    commit({ ...draft, [path]: text }, `Added ${path.slice(4)}`);
+    setActive(path);
+  };
+
+  const renameFile = () => {
+    const path = askPath(`Rename ${file} to:`, file);
+    if (!path) return;
+    const next: Record<string, string> = {};
+    for (const [name, text] of Object.entries(draft)) next[name === file ? path : name] = text;
+    commit(next, `Renamed ${file.slice(4)} to ${path.slice(4)}`);
+    setActive(path);
+  };
+
+  const deleteFile = () => {
+    if (!confirm(`Delete ${file}?`)) return;
+    const { [file]: _, ...rest } = draft;
+    commit(rest, `Deleted ${file.slice(4)}`);
+  };
+
+  // Tab indents instead of leaving the editor
+  const onKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || e.shiftKey || e.altKey || e.metaKey || e.ctrlKey) return;
+    e.preventDefault();
+    const el = e.currentTarget;
+    const { selectionStart: start, selectionEnd: end } = el;
+    edit(source.slice(0, start) + '  ' + source.slice(end));
+    requestAnimationFrame(() => { el.selectionStart = el.selectionEnd = start + 2; });
+  };
+
+  const jumpTo = (d: Diagnostic) => {
+    if (d.file !== file) setActive(d.file);
+    requestAnimationFrame(() => {
+      const el = textRef.current;
+      if (!el) return;
+      const text = el.value.split('\n');
+      const offset = text.slice(0, d.line - 1).reduce((n, l) => n + l.length + 1, 0) + Math.max(0, d.column - 1);
+      el.focus();
+      el.setSelectionRange(offset, offset);
+      el.scrollTop = Math.max(0, (d.line - 4) * LINE_HEIGHT);
+    });
+  };
+
+  const syncScroll = () => {
+    if (!textRef.current || !layerRef.current) return;
+    layerRef.current.scrollTop = textRef.current.scrollTop;
+    layerRef.current.scrollLeft = textRef.current.scrollLeft;
+  };
+
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  const shown = [...(byFile[file] || []), ...diagnostics.filter(d => d.file !== file)];
+
+  return (
+    <div style={{display:'flex', flexDirection:'column', flex:1, minHeight:0}}>
+      <div style={{display:'flex', gap:4, flexWrap:'wrap', alignItems:'center', marginBottom:6}}>
+        {names.map(name => {
+          const count = (byFile[name] || []).filter(d => d.severity === 'error').length;
+          return (
+            <button key={name} onClick={()=>{ flush(); setActive(name); }} title={name} style={{...tab, ...(name === file ? activeTab : {})}}>
+              {name.slice(4)}{count > 0 && <span style={{color:'#ff9b9b', marginLeft:6}}>{count}</span>}
+            </button>
+          );
+        })}
+        <button onClick={addFile} disabled={disabled} style={tab} title="Add a file under src/">+</button>
+      </div>
+      <div style={{position:'relative', flex:1, minHeight:280, borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(0,0,0,0.35)', overflow:'hidden'}}>
+        <pre ref={layerRef} aria-hidden style={{...layer, overflow:'hidden'}}>
+          {lines.map((runs, i) => (
+            <div key={i} style={marked.has(i + 1) ? { background: marked.get(i + 1) === 'error' ? 'rgba(255,110,110,0.16)' : 'rgba(255,212,121,0.12)' } : undefined}>
+              {runs.length ? runs.map((r, j) => <span key={j} style={{color: TOKEN_COLORS[r.kind]}}>{r.text}</span>) : ' '}
+            </div>
+          ))}
+        </pre>
+        <textarea
+          ref={textRef}
+          value={source}
+          onChange={(e)=>edit(e.target.value)}
+          onKeyDown={onKeyDown}
+          onBlur={onBlur}
+          onScroll={syncScroll}
+          readOnly={disabled}
+          spellCheck={false}
+          wrap="off"
+          style={{...layer, resize:'none', color:'transparent', caretColor:'#e9eef5', background:'transparent', border:0, outline:'none', overflow:'auto'}}
+        />
+      </div>
+      <div style={{display:'flex', gap:8, alignItems:'center', marginTop:6, fontSize:12}}>
+        <div style={{flex:1, color: errors ? '#ff9b9b' : '#8fe3a0'}}>
+          {errors ? `${errors} error${errors === 1 ? '' : 's'}` : 'No errors'}{diagnostics.length > errors ? ` · ${diagnostics.length - errors} warning${diagnostics.length - errors === 1 ? '' : 's'}` : ''}
+        </div>
+        {!REQUIRED_FILES.includes(file) && <>
+          <button onClick={renameFile} disabled={disabled} style={small}>Rename</button>
+          <button onClick={deleteFile} disabled={disabled} style={small}>Delete</button>
+        </>}
+        {generatedFiles && <button onClick={onReset} disabled={disabled || !edited} style={{...small, opacity: edited ? 1 : 0.5}} title="Discard the edits made since the last generated version">Reset to generated</button>}
+      </div>
+      {shown.length > 0 && (
+        <ul style={{margin:'6px 0 0', paddingLeft:18, maxHeight:96, overflow:'auto', fontSize:12, fontFamily:mono}}>
+          {shown.map((d, i) => (
+            <li key={i} onClick={()=>jumpTo(d)} style={{cursor:'pointer', color: d.severity === 'error' ? '#ff9b9b' : '#ffd479'}}>
+              {d.file}:{d.line}:{d.column} {d.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const mono = 'ui-monospace, SFMono-Regular, Menlo, Monaco, "Roboto Mono", Consolas, monospace';
+const LINE_HEIGHT = 18;
+// The highlighted layer and the textarea over it must lay text out identically
+const layer: React.CSSProperties = { position:'absolute', inset:0, margin:0, padding:12, width:'100%', height:'100%', boxSizing:'border-box', fontFamily:mono, fontSize:13, lineHeight:`${LINE_HEIGHT}px`, tabSize:2, whiteSpace:'pre', color:'#e9eef5' };
+const tab: React.CSSProperties = { padding:'4px 10px', borderRadius:8, fontSize:12, fontFamily:mono, color:'#a7b1c2', background:'rgba(255,255,255,0.04)', border:'1px solid rgba(255,255,255,0.1)', cursor:'pointer' };
+const activeTab: React.CSSProperties = { color:'#e9eef5', background:'rgba(110,168,254,0.18)', borderColor:'rgba(110,168,254,0.5)' };
+const small: React.CSSProperties = { padding:'2px 8px', borderRadius:8, fontSize:12, fontWeight:600, color:'#e9eef5', background:'rgba(255,255,255,0.06)', border:'1px solid rgba(255,255,255,0.12)', cursor:'pointer' };
@@ -0,0 +1,77 @@
+import React, {useMemo, useState} from 'react';
+import {ChangedRegion, changedFiles, diffLines} from './diff';
+
+// Side-by-side, per-file diff of two project.files maps
+export const DiffView: React.FC<{ before: Record<string, string>; after: Record<string, string> }> = ({ before, after }) => {
+  const files = useMemo(() => changedFiles(before, after), [before, after]);
+  const firstChanged = files.find(f => f.status !== 'same')?.file || files[0]?.file || '';
+  const [selected, setSelected] = useState<string>(firstChanged);
+  const file = files.some(f => f.file === selected) ? selected : firstChanged;
+  const rows = useMemo(() => diffLines(before[file] || '', after[file] || ''), [before, after, file]);
+
+  return (
+    <div style={{display:'flex', flexDirection:'column', gap:8, minHeight:0, flex:1}}>
+      <div style={{display:'flex', flexWrap:'wrap', gap:6}}>
+        {files.map(f => (
+          <button key={f.file} onClick={()=>setSelected(f.file)} style={{...tab, ...(f.file === file ? tabActive : {}), color: statusColor[f.status]}}>
+            {f.file}{f.status === 'same' ? '' : ` · ${f.status}`}
+          </button>
+        ))}
+      </div>
+      <div style={{overflow:'auto', flex:1, minHeight:200, borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(0,0,0,0.35)'}}>
+        <table style={{borderCollapse:'collapse', width:'100%', fontFamily:mono, fontSize:12}}>
+          <tbody>
+            {rows.map((r, i) => {
+              const leftNo = r.kind === 'add' ? '' : r.left;
+              const rightNo = r.kind === 'del' ? '' : r.right;
+              const leftText = r.kind === 'change' ? r.leftText : r.kind === 'add' ? '' : r.text;
+              const rightText = r.kind === 'change' ? r.rightText : r.kind === 'del' ? '' : r.text;
+              const leftBg = r.kind === 'del' || r.kind === 'change' ? delBg : undefined;
+              const rightBg = r.kind === 'add' || r.kind === 'change' ? addBg : undefined;
+              return (
+                <tr key={i}>
+                  <td style={{...lineNo}}>{leftNo}</td>
+                  <td style={{...cell, background: leftBg}}>{leftText}</td>
+                  <td style={{...lineNo, borderLeft:'1px solid rgba(255,255,255,0.12)'}}>{rightNo}</td>
+                  <td style={{...cell, background: rightBg}}>{rightText}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// Compact list of the changed lines only, e.g. what a refinement step touched
+export const ChangedRegions: React.FC<{ regions: ChangedRegion[] }> = ({ regions }) => {
+  if (!regions.length) return <div style={{fontSize:12, color:'#a7b1c2'}}>No files changed.</div>;
+  return (
+    <div style={{display:'grid', gap:6}}>
+      {regions.map(r => (
+        <div key={r.file} style={{fontFamily:mono, fontSize:12}}>
+          <div style={{color: statusColor[r.status], fontWeight:700}}>{r.file} · {r.status}</div>
+          {r.status === 'modified' && r.hunks.map((hunk, i) => (
+            <div key={i} style={{marginTop:4, borderRadius:8, overflow:'hidden', border:'1px solid rgba(255,255,255,0.08)'}}>
+              {hunk.map((row, j) => (<React.Fragment key={j}>
+                {(row.kind === 'del' || row.kind === 'change') && <div style={{...regionLine, background:delBg}}>{`${row.left}`.padStart(4)} - {row.kind === 'change' ? row.leftText : row.text}</div>}
+                {(row.kind === 'add' || row.kind === 'change') && <div style={{...regionLine, background:addBg}}>{`${row.right}`.padStart(4)} + {row.kind === 'change' ? row.rightText : row.text}</div>}
+              </React.Fragment>))}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const mono = 'ui-monospace, SFMono-Regular, Menlo, Monaco, "Roboto Mono", Consolas, monospace';
+const tab: React.CSSProperties = { padding:'4px 8px', borderRadius:8, fontSize:12, background:'rgba(255,255,255,0.04)', border:'1px solid rgba(255,255,255,0.12)', cursor:'pointer' };
+const tabActive: React.CSSProperties = { background:'rgba(110,168,254,0.18)', borderColor:'rgba(110,168,254,0.6)' };
+const statusColor = { same:'#a7b1c2', modified:'#ffd479', added:'#8fe3a0', removed:'#ff9b9b' } as const;
+const lineNo: React.CSSProperties = { width:1, padding:'0 6px', textAlign:'right', color:'#5d6b80', userSelect:'none', verticalAlign:'top' };
+const cell: React.CSSProperties = { padding:'0 8px', whiteSpace:'pre-wrap', wordBreak:'break-all', color:'#e9eef5', verticalAlign:'top', width:'50%' };
+const regionLine: React.CSSProperties = { padding:'0 6px', whiteSpace:'pre-wrap', wordBreak:'break-all', color:'#e9eef5' };
+const delBg = 'rgba(255,99,99,0.16)';
+const addBg = 'rgba(86,211,100,0.16)';
@@ -0,0 +1,76 @@
+import React, {useState} from 'react';
+import {Project} from './types';
+import {apiFetch} from './apiFetch';
+import {Format, FORMAT_PRESETS, formatLabel} from './formats';
+
+// The project's output formats. Adding or removing one rewrites src/Root.tsx on the server (POST /api/formats) so
+// it has one composition per format; clicking a format previews and renders that composition.
+export const FormatPanel: React.FC<{
+  project: Project;
+  selected: string;
+  onSelect: (compositionId: string) => void;
+  onChange: (project: Project, label: string) => void;
+  disabled?: boolean;
+}> = ({ project, selected, onSelect, onChange, disabled }) => {
+  const [busy, setBusy] = useState(false);
+  const compositions = project.compositions || [{ id: project.compositionId, width: project.width, height: project.height, file: 'src/MyComp.tsx', component: 'MyComp' }];
+  const extras = compositions.filter(c => c.id !== project.compositionId);
+  const has = (f: Format) => compositions.some(c => c.width === f.width && c.height === f.height);
+
+  const adapt = async (formats: Format[], label: string) => {
+    try {
+      setBusy(true);
+      const {validation, ...spec} = project;
+      const resp = await apiFetch('/api/formats', { method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify({ project: spec, formats }) });
+      const body = await resp.json().catch(() => null);
+      if (!resp.ok) throw new Error(body?.error || 'Backend error: ' + resp.status);
+      onChange(body.project, label);
+    } catch (e: any) {
+      alert('Could not change the formats' + (e?.message ? ': ' + e.message : ''));
+    } finally { setBusy(false); }
+  };
+
+  const add = (value: string) => {
+    let format: Format | null = FORMAT_PRESETS.find(p => p.id === value) || null;
+    if (value === 'custom') {
+      const input = window.prompt('Width × height in pixels', '1280x720');
+      const m = input && /^\s*(\d+)\s*[x×,\s]\s*(\d+)\s*$/i.exec(input);
+      if (!m) { if (input) alert('Enter a size like 1280x720'); return; }
+      format = { width: Number(m[1]), height: Number(m[2]) };
+    }
+    if (!format || has(format)) return;
+    adapt([...extras, format], `Added the ${formatLabel(format)} format`);
+  };
+  const remove = (id: string) => {
+    const gone = extras.find(c => c.id === id);
+    if (!gone) return;
+    if (selected === id) onSelect(project.compositionId);
+    adapt(extras.filter(c => c.id !== id), `Removed the ${formatLabel(gone)} format`);
+  };
+
+  return (
+    <div style={{marginTop:12, padding:'10px 12px', borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)'}}>
+      <div style={{display:'flex', gap:8, alignItems:'center', flexWrap:'wrap'}}>
+        <div style={{fontWeight:700, flex:1}}>Formats</div>
+        {compositions.map(c => (
+          <span key={c.id} style={{...chip, ...(c.id === (selected || project.compositionId) ? chipActive : {})}}>
+            <button onClick={()=>onSelect(c.id)} style={chipButton} title={`${c.id} · ${c.width}×${c.height}${c.file !== 'src/MyComp.tsx' ? ' · the fixed layout is scaled to fit' : ''}`}>
+              {formatLabel(c)}{c.file !== 'src/MyComp.tsx' ? ' · fit' : ''}
+            </button>
+            {c.id !== project.compositionId && <button onClick={()=>remove(c.id)} disabled={disabled || busy} style={chipButton} title="Remove this format">×</button>}
+          </span>
+        ))}
+        <select value="" onChange={(e)=>add(e.target.value)} disabled={disabled || busy} style={select}>
+          <option value="">{busy ? 'Adapting…' : 'Add format…'}</option>
+          {FORMAT_PRESETS.filter(p => !has(p)).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          <option value="custom">Custom size…</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+const chip: React.CSSProperties = { display:'inline-flex', alignItems:'center', gap:2, borderRadius:999, border:'1px solid rgba(255,255,255,0.16)', background:'rgba(255,255,255,0.04)', fontSize:12 };
+const chipActive: React.CSSProperties = { borderColor:'#6ea8fe', background:'rgba(110,168,254,0.16)' };
+const chipButton: React.CSSProperties = { padding:'2px 8px', border:0, background:'transparent', color:'#e9eef5', cursor:'pointer', fontSize:12, fontWeight:600 };
+const select: React.CSSProperties = { padding:'4px 8px', borderRadius:10, border:'1px solid rgba(255,255,255,0.16)', background:'rgba(255,255,255,0.06)', color:'#e9eef5', fontSize:12 };
@@ -0,0 +1,125 @@
+import React, {ChangeEvent, useId} from 'react';
+import {ParamDef} from './types';
+import {coerceParamValue, EASINGS, easingPoints, FONT_FAMILIES} from './params';
+
+// Editor for one block parameter, chosen by its type. Used by the block and token editors and the Props panel;
+// onChange gets the raw value and the caller coerces it (see params.ts). Invalid input is shown, not hidden.
+// onUpload stores an image as a project asset and returns the public/ file name that becomes the value.
+export const ParamEditor: React.FC<{ param: ParamDef; value: any; onChange: (value: any) => void; onUpload?: (file: File) => Promise<string>; compact?: boolean }> = ({ param, value, onChange, onUpload, compact }) => {
+  const listId = useId();
+  const current = value ?? param.default;
+  const { error } = coerceParamValue(param, current);
+  const field: React.CSSProperties = { ...input, padding: compact ? '6px 8px' : '10px 12px' };
+  let editor: React.ReactNode;
+
+  switch (param.type) {
+    case 'number':
+    case 'duration': {
+      const unit = param.unit || (param.type === 'duration' ? 's' : '');
+      const ranged = typeof param.min === 'number' && typeof param.max === 'number';
+      const step = param.step ?? (param.type === 'duration' ? 0.1 : 'any');
+      editor = (
+        <div style={row}>
+          {ranged && <input type="range" min={param.min} max={param.max} step={step} value={Number(current) || 0} onChange={(e)=>onChange(Number(e.target.value))} style={{flex:1}} />}
+          <input type="number" min={param.min ?? (param.type === 'duration' ? 0 : undefined)} max={param.max} step={step} value={String(current)}
+            onChange={(e)=>onChange(e.target.value === '' ? '' : Number(e.target.value))}
+            style={{...field, width: ranged ? 84 : '100%'}} />
+          {unit && <span style={muted}>{unit}</span>}
+        </div>
+      );
+      break;
+    }
+    case 'select':
+      editor = (
+        <select value={String(current)} onChange={(e)=>onChange(e.target.value)} style={field as any}>
+          {!(param.options || []).includes(String(current)) && <option value={String(current)}>{String(current)}</option>}
+          {(param.options || []).map(o => <option key={o} value={o}>{o}</option>)}
+        </select>
+      );
+      break;
+    case 'boolean':
+      editor = (
+        <label style={{...row, cursor:'pointer'}}>
+          <input type="checkbox" checked={current === true || current === 'true'} onChange={(e)=>onChange(e.target.checked)} />
+          <span style={muted}>{current === true || current === 'true' ? 'On' : 'Off'}</span>
+        </label>
+      );
+      break;
+    case 'color':
+      editor = (
+        <div style={row}>
+          <input type="color" value={/^#[0-9a-f]{6}$/i.test(String(current)) ? String(current) : '#000000'} onChange={(e)=>onChange(e.target.value)} style={{...field, padding:2, width:44, height:compact ? 32 : 40}} />
+          <input type="text" value={String(current)} onChange={(e)=>onChange(e.target.value)} style={{...field, flex:1, fontFamily:mono}} />
+        </div>
+      );
+      break;
+    case 'font':
+      editor = (
+        <div style={{display:'grid', gap:4}}>
+          <input type="text" list={listId} value={String(current)} onChange={(e)=>onChange(e.target.value)} style={field} />
+          <datalist id={listId}>{FONT_FAMILIES.map(f => <option key={f} value={f} />)}</datalist>
+          {!compact && <div style={{fontFamily:String(current), fontSize:18, color:'#e9eef5'}}>The quick brown fox</div>}
+        </div>
+      );
+      break;
+    case 'easing':
+      editor = (
+        <div style={row}>
+          <EasingCurve value={String(current)} />
+          <input type="text" list={listId} value={String(current)} onChange={(e)=>onChange(e.target.value)} style={{...field, flex:1, fontFamily:mono}} />
+          <datalist id={listId}>{EASINGS.map(f => <option key={f} value={f} />)}</datalist>
+        </div>
+      );
+      break;
+    case 'image': {
+      const onFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !onUpload) return;
+        try { onChange(await onUpload(file)); }
+        catch (err: any) { alert('Upload failed' + (err?.message ? ': ' + err.message : '')); }
+      };
+      const shown = String(current || '');
+      editor = (
+        <div style={row}>
+          {shown && /^https?:/.test(shown) && <img src={shown} alt="" style={{width:40, height:40, objectFit:'cover', borderRadius:6, border:'1px solid rgba(255,255,255,0.12)'}} />}
+          <input type="text" placeholder="https://… or logo.png" value={shown.startsWith('data:') ? '' : shown} onChange={(e)=>onChange(e.target.value)} style={{...field, flex:1}} />
+          {onUpload && (
+            <label style={{...field, cursor:'pointer', whiteSpace:'nowrap'}}>
+              <input type="file" accept="image/*" onChange={onFile} style={{display:'none'}} />
+              Upload
+            </label>
+          )}
+        </div>
+      );
+      break;
+    }
+    default:
+      editor = <input type="text" value={String(current)} onChange={(e)=>onChange(e.target.value)} style={field} />;
+  }
+
+  return (
+    <div style={{display:'grid', gap:4, minWidth:0}}>
+      {editor}
+      {error && <div style={{fontSize:11, color:'#ff8f8f'}}>{error.slice(error.indexOf(': ') + 2)}</div>}
+    </div>
+  );
+};
+
+// The curve of a CSS easing, or nothing when the value is not one
+const EasingCurve: React.FC<{ value: string }> = ({ value }) => {
+  const points = easingPoints(value);
+  const size = 32;
+  const y = (v: number) => size - 4 - v * (size - 8);
+  const x = (v: number) => 4 + v * (size - 8);
+  return (
+    <svg width={size} height={size} style={{flex:'none', borderRadius:6, background:'rgba(255,255,255,0.06)'}}>
+      {points && <path d={`M ${x(0)} ${y(0)} C ${x(points[0])} ${y(points[1])}, ${x(points[2])} ${y(points[3])}, ${x(1)} ${y(1)}`} fill="none" stroke="#6ea8fe" strokeWidth={2} />}
+    </svg>
+  );
+};
+
+const mono = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+const row: React.CSSProperties = { display:'flex', alignItems:'center', gap:8, minWidth:0 };
+const muted: React.CSSProperties = { fontSize:12, color:'#a7b1c2' };
+const input: React.CSSProperties = { borderRadius:10, border:'1px solid rgba(255,255,255,0.16)', background:'rgba(255,255,255,0.06)', color:'#e9eef5', maxWidth:'100%', boxSizing:'border-box' };
@@ -0,0 +1,106 @@
+import React, {useEffect, useState} from 'react';
+import {Project} from './types';
+import {apiFetch, apiUrl} from './apiFetch';
+import {storeAssets} from './assetApi';
+
+export type RenderJob = {
+  id: string;
+  kind: 'video' | 'still';
+  format: 'mp4' | 'webm' | 'png';
+  status: 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+  stage: string;
+  progress: number;
+  error: string | null;
+  size: number | null;
+  createdAt: number;
+  downloadUrl: string | null;
+};
+
+const ACTIVE = new Set(['queued', 'running']);
+
+// Server-side renders of the current project (MP4, WebM or a PNG still), polled until they finish
+export const RenderPanel: React.FC<{ project: Project | null; inputProps: Record<string, any> }> = ({ project, inputProps }) => {
+  const [format, setFormat] = useState<'mp4' | 'webm' | 'png'>('mp4');
+  const [jobs, setJobs] = useState<RenderJob[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const active = jobs.some(j => ACTIVE.has(j.status));
+
+  useEffect(() => {
+    apiFetch('/api/render').then(r => r.json()).then(body => setJobs(body.jobs || [])).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+    const t = setInterval(async () => {
+      try {
+        const body = await apiFetch('/api/render').then(r => r.json());
+        setJobs(body.jobs || []);
+      } catch (e) { console.error(e); }
+    }, 1000);
+    return () => clearInterval(t);
+  }, [active]);
+
+  const start = async () => {
+    if (!project) return;
+    try {
+      setSubmitting(true);
+      const {validation, props, ...spec} = project;
+      // Blocks saved before the asset store may still hold data URLs; the job only needs their store URLs
+      if (spec.assets) spec.assets = await storeAssets(spec.assets);
+      const resp = await apiFetch(format === 'png' ? '/api/still' : '/api/render', {
+        method: 'POST', headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify({ project: spec, format, inputProps, frame: Math.floor((project.durationInFrames || 1) / 2) }),
+      });
+      const body = await resp.json();
+      if (!resp.ok) throw new Error(body?.error || 'Backend error: ' + resp.status);
+      setJobs(prev => [body, ...prev.filter(j => j.id !== body.id)]);
+    } catch (e: any) {
+      alert('Render failed' + (e?.message ? ': ' + e.message : ''));
+    } finally { setSubmitting(false); }
+  };
+
+  const cancel = async (id: string) => {
+    const resp = await apiFetch(`/api/render/${id}/cancel`, { method: 'POST' });
+    if (resp.ok) { const job = await resp.json(); setJobs(prev => prev.map(j => j.id === id ? job : j)); }
+  };
+
+  return (
+    <div style={{marginTop:12, padding:'10px 12px', borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)'}}>
+      <div style={{display:'flex', gap:8, alignItems:'center'}}>
+        <div style={{fontWeight:700, flex:1}}>Render</div>
+        <select value={format} onChange={(e)=>setFormat(e.target.value as any)} style={select}>
+          <option value="mp4">MP4 (H.264)</option>
+          <option value="webm">WebM (VP8)</option>
+          <option value="png">PNG still (middle frame)</option>
+        </select>
+        <button onClick={start} disabled={!project || submitting} style={{...button, opacity: submitting ? 0.7 : 1}}>{submitting ? 'Queuing…' : 'Render'}</button>
+      </div>
+      {jobs.length > 0 && (
+        <div style={{display:'grid', gap:6, marginTop:8, maxHeight:180, overflow:'auto'}}>
+          {jobs.map(job => (
+            <div key={job.id} style={{display:'grid', gap:4, fontSize:12}}>
+              <div style={{display:'flex', gap:8, alignItems:'center'}}>
+                <span style={{flex:1, color: job.status === 'failed' ? '#ff9b9b' : '#a7b1c2'}}>
+                  {new Date(job.createdAt).toLocaleTimeString()} · {job.format.toUpperCase()} · {job.status === 'running' ? job.stage : job.status}
+                  {job.size ? ` · ${(job.size / 1024 / 1024).toFixed(1)} MB` : ''}
+                </span>
+                {ACTIVE.has(job.status) && <button onClick={()=>cancel(job.id)} style={smallButton}>Cancel</button>}
+                {job.downloadUrl && <a href={apiUrl(job.downloadUrl)} style={{...smallButton, textDecoration:'none'}}>Download</a>}
+              </div>
+              {ACTIVE.has(job.status) && (
+                <div style={{height:6, borderRadius:4, background:'rgba(0,0,0,0.35)'}}>
+                  <div style={{height:'100%', width:`${Math.round(job.progress * 100)}%`, background:'linear-gradient(90deg, #6ea8fe, #a07bff)', borderRadius:4, transition:'width .2s ease'}} />
+                </div>
+              )}
+              {job.error && <div style={{color:'#ff9b9b', whiteSpace:'pre-wrap'}}>{job.error}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const button: React.CSSProperties = { padding:'6px 12px', borderRadius:10, fontWeight:700, color:'#e9eef5', background:'rgba(255,255,255,0.06)', border:'1px solid rgba(255,255,255,0.12)', cursor:'pointer' };
+const smallButton: React.CSSProperties = { ...button, padding:'2px 8px', fontSize:12, fontWeight:600 };
+const select: React.CSSProperties = { padding:'6px 8px', borderRadius:10, border:'1px solid rgba(255,255,255,0.16)', background:'rgba(255,255,255,0.06)', color:'#e9eef5' };
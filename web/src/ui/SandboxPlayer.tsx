@@ -0,0 +1,147 @@
+import React, {useEffect, useRef, useState} from 'react';
+import {Project, ProjectAsset} from './types';
+import {assetBlob} from './assetApi';
+import {FromSandbox, HANG_AFTER_MS, isSandboxMessage, PlayerOptions, postToSandbox, SandboxError} from './sandboxProtocol';
+
+// Fetched assets by URL, shared by every preview (stored uploads never change under the same URL)
+const blobCache = new Map<string, Promise<Blob>>();
+
+async function assetBlobs(assets?: Record<string, ProjectAsset>) {
+  if (!assets || !Object.keys(assets).length) return undefined;
+  const out: Record<string, Blob> = {};
+  for (const [path, asset] of Object.entries(assets)) {
+    let blob = blobCache.get(asset.data);
+    if (!blob) {
+      blob = assetBlob(asset);
+      blobCache.set(asset.data, blob);
+      blob.catch(() => blobCache.delete(asset.data));
+    }
+    try { out[path] = await blob; }
+    catch (e: any) { throw new Error(`${path}: ${e?.message || e}`); }
+  }
+  return out;
+}
+
+const TITLES: Record<SandboxError['phase'], string> = {
+  resolve: 'Import error',
+  compile: 'Syntax error',
+  evaluate: 'Error while loading the composition',
+  render: 'Error while rendering',
+  runtime: 'Runtime error',
+  loop: 'Loop stopped',
+  hang: 'Preview stopped responding',
+};
+
+// Plays a project inside the preview sandbox (sandbox.html). Generated code never runs in the app's window:
+// errors come back as messages and are shown in an overlay, and a frame that stops sending heartbeats is
+// replaced. Endless loops are normally cut short by the loop guard inside the frame; the watchdog covers
+// whatever it cannot see (deep recursion, slow built-ins) when the browser runs the frame in its own process.
+export const SandboxPlayer: React.FC<{ project: Project; inputProps: Record<string, any>; options?: PlayerOptions }> = ({ project, inputProps, options }) => {
+  const frameRef = useRef<HTMLIFrameElement | null>(null);
+  const [frameKey, setFrameKey] = useState(0);
+  const [error, setError] = useState<SandboxError | null>(null);
+  const [halted, setHalted] = useState(false);
+  const readyRef = useRef(false);
+  const haltedRef = useRef(false);
+  const lastBeatRef = useRef(0);
+  const latest = useRef({ project, inputProps, options });
+  latest.current = { project, inputProps, options };
+
+  const loadRef = useRef(0);
+
+  const load = async () => {
+    if (!frameRef.current?.contentWindow || !readyRef.current) return;
+    const run = ++loadRef.current;
+    const {project} = latest.current;
+    const {files, width, height, fps, durationInFrames} = project;
+    // A project adapted to several formats plays the component of its selected composition
+    const composition = project.compositions?.find(c => c.id === project.compositionId);
+    const entry = composition && { file: composition.file, component: composition.component };
+    setError(null);
+    let assets: Record<string, Blob> | undefined;
+    try { assets = await assetBlobs(project.assets); }
+    catch (e: any) { setError({ phase: 'resolve', message: String(e?.message || e) }); }
+    const frame = frameRef.current?.contentWindow;
+    // A newer project (or a restarted frame) took over while the assets were loading
+    if (run !== loadRef.current || !frame || !readyRef.current) return;
+    lastBeatRef.current = Date.now();
+    postToSandbox(frame, { type: 'load', project: { files, width, height, fps, durationInFrames, assets, entry }, inputProps: latest.current.inputProps, options: latest.current.options || {} });
+  };
+
+  const halt = (value: boolean) => { haltedRef.current = value; setHalted(value); };
+
+  useEffect(() => {
+    const onMessage = (e: MessageEvent) => {
+      if (!frameRef.current || e.source !== frameRef.current.contentWindow || !isSandboxMessage(e.data)) return;
+      const message = e.data as FromSandbox;
+      lastBeatRef.current = Date.now();
+      if (message.type === 'ready') {
+        readyRef.current = true;
+        if (!haltedRef.current) load();
+      } else if (message.type === 'error') setError(message.error);
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  useEffect(() => {
+    const t = setInterval(() => {
+      // Hidden tabs throttle timers on both sides, so silence there says nothing about the frame
+      if (document.visibilityState !== 'visible') { lastBeatRef.current = Date.now(); return; }
+      if (!readyRef.current || haltedRef.current || Date.now() - lastBeatRef.current < HANG_AFTER_MS) return;
+      readyRef.current = false;
+      halt(true);
+      setError({ phase: 'hang', message: `The composition kept the preview busy for more than ${HANG_AFTER_MS / 1000} s, so the preview was restarted without it. Check for code that never finishes, such as endless recursion.` });
+      setFrameKey(k => k + 1);
+    }, 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  useEffect(() => { halt(false); load(); }, [project]);
+
+  useEffect(() => {
+    const frame = frameRef.current?.contentWindow;
+    if (frame && readyRef.current && !haltedRef.current) postToSandbox(frame, { type: 'props', inputProps });
+  }, [inputProps]);
+
+  const source = error?.file ? project.files[error.file] : undefined;
+  const excerpt = source && error?.line ? source.split('\n').map((text, i) => ({ n: i + 1, text })).slice(Math.max(0, error.line - 4), error.line + 2) : [];
+
+  return (
+    <div style={{position:'relative', width:'100%', height:'100%'}}>
+      <iframe
+        key={frameKey}
+        ref={frameRef}
+        src="/sandbox.html"
+        sandbox="allow-scripts"
+        allow="autoplay; fullscreen"
+        title="Composition preview"
+        style={{display:'block', width:'100%', height:'100%', border:0, background:'transparent'}}
+      />
+      {error && (
+        <div style={overlay}>
+          <div style={{display:'flex', gap:8, alignItems:'center'}}>
+            <div style={{fontWeight:800, flex:1}}>{TITLES[error.phase]}</div>
+            {halted && <button onClick={()=>{ halt(false); load(); }} style={button}>Run again</button>}
+            <button onClick={()=>setError(null)} style={button}>Dismiss</button>
+          </div>
+          {error.file && <div style={{fontFamily:mono, color:'#a7b1c2'}}>{error.file}{error.line ? `:${error.line}` : ''}{error.column ? `:${error.column}` : ''}</div>}
+          <div style={{whiteSpace:'pre-wrap'}}>{error.message}</div>
+          {excerpt.length > 0 && (
+            <pre style={{margin:0, padding:'6px 0', borderRadius:8, background:'rgba(0,0,0,0.45)', overflow:'auto', fontFamily:mono}}>
+              {excerpt.map(({ n, text }) => (
+                <div key={n} style={{padding:'0 8px', background: n === error.line ? 'rgba(255,107,107,0.22)' : undefined}}>
+                  <span style={{display:'inline-block', width:36, color:'#6b7686', userSelect:'none'}}>{n}</span>{text}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const mono = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+const overlay: React.CSSProperties = { position:'absolute', left:12, right:12, top:12, maxHeight:'calc(100% - 24px)', overflow:'auto', display:'grid', gap:6, padding:'10px 12px', borderRadius:12, fontSize:12, color:'#ffd6d6', background:'rgba(20,10,14,0.92)', border:'1px solid rgba(255,107,107,0.45)', boxShadow:'0 12px 36px rgba(0,0,0,0.45)' };
+const button: React.CSSProperties = { padding:'2px 8px', borderRadius:10, fontSize:12, fontWeight:600, color:'#e9eef5', background:'rgba(255,255,255,0.06)', border:'1px solid rgba(255,255,255,0.12)', cursor:'pointer' };
@@ -0,0 +1,104 @@
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {Project} from './types';
+import {canEdit, moveProp, parseTimeline, retimeClip, TimelineClip} from './timeline';
+
+const FILE = 'src/MyComp.tsx';
+const ROW = 24;
+
+type Drag = { clip: TimelineClip; mode: 'move' | 'resize'; x: number; delta: number };
+
+// Sequence/Series structure of src/MyComp.tsx as draggable clips. Moving a clip rewrites its `from` (or `offset`
+// inside a <Series>), resizing rewrites `durationInFrames`; the change is committed when the pointer is released.
+export const TimelineEditor: React.FC<{ project: Project; onChange: (files: Record<string, string>, label: string) => void; disabled?: boolean }> = ({ project, onChange, disabled }) => {
+  const source = project.files[FILE] || '';
+  const total = Math.max(1, project.durationInFrames || 1);
+  const clips = useMemo(() => parseTimeline(source, total), [source, total]);
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  dragRef.current = drag;
+
+  const framesPerPixel = () => total / Math.max(1, trackRef.current?.clientWidth || 1);
+
+  useEffect(() => {
+    if (!drag) return;
+    const onMove = (e: PointerEvent) => {
+      const d = dragRef.current;
+      if (d) setDrag({ ...d, delta: Math.round((e.clientX - d.x) * framesPerPixel()) });
+    };
+    const onUp = () => {
+      const d = dragRef.current;
+      setDrag(null);
+      if (!d || d.delta === 0) return;
+      const { clip } = d;
+      const values = d.mode === 'resize'
+        ? { durationInFrames: Math.max(1, clip.duration! + d.delta) }
+        : { [moveProp(clip)]: relativeStart(clip) + clampMove(clip, d.delta) };
+      onChange({ ...project.files, [FILE]: retimeClip(source, clip, values) }, `${d.mode === 'resize' ? 'Resized' : 'Moved'} ${clip.label}`);
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp, { once: true });
+    return () => { window.removeEventListener('pointermove', onMove); window.removeEventListener('pointerup', onUp); };
+  }, [drag !== null]);
+
+  const hidden = clips.filter(c => c.start === null || c.duration === null).length;
+  const shown = clips.filter(c => c.start !== null && c.duration !== null);
+  if (!clips.length) return null;
+
+  const seconds = Math.floor(total / (project.fps || 30));
+  const tickEvery = seconds > 20 ? 5 : 1;
+
+  return (
+    <div style={{marginTop:12, padding:'10px 12px', borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)'}}>
+      <div style={{display:'flex', justifyContent:'space-between', alignItems:'center', marginBottom:6}}>
+        <div style={{fontWeight:700}}>Timeline</div>
+        <div style={{fontSize:12, color:'#a7b1c2'}}>
+          {drag ? `${drag.mode === 'resize' ? 'Duration' : 'Start'} ${drag.mode === 'resize' ? Math.max(1, drag.clip.duration! + drag.delta) : drag.clip.start! + clampMove(drag.clip, drag.delta)}f` : `${total} frames`}
+          {hidden > 0 && ` · ${hidden} computed clip${hidden === 1 ? '' : 's'} not shown`}
+        </div>
+      </div>
+      <div ref={trackRef} style={{position:'relative', height: shown.length * ROW + 18, userSelect:'none'}}>
+        {Array.from({ length: Math.floor(seconds / tickEvery) + 1 }, (_, i) => i * tickEvery).map(s => (
+          <div key={s} style={{position:'absolute', left:`${(s * (project.fps || 30)) / total * 100}%`, top:0, bottom:0, borderLeft:'1px solid rgba(255,255,255,0.06)', fontSize:10, color:'#6b7686', paddingLeft:2}}>{s}s</div>
+        ))}
+        {shown.map((clip, row) => {
+          const movable = !disabled && canEdit(clip, moveProp(clip));
+          const resizable = !disabled && canEdit(clip, 'durationInFrames');
+          const active = drag?.clip.id === clip.id ? drag : null;
+          const start = clip.start! + (active?.mode === 'move' ? clampMove(clip, active.delta) : 0);
+          const duration = Math.max(1, clip.duration! + (active?.mode === 'resize' ? active.delta : 0));
+          return (
+            <div
+              key={clip.id}
+              title={`${clip.label}: frames ${start}–${start + duration}${movable ? '' : ' (start is computed)'}`}
+              onPointerDown={(e)=>{ if (movable) { e.preventDefault(); setDrag({ clip, mode:'move', x:e.clientX, delta:0 }); } }}
+              style={{...clipStyle, top: 16 + row * ROW, left:`${start / total * 100}%`, width:`${Math.min(duration, total) / total * 100}%`, marginLeft: clip.depth * 2,
+                cursor: movable ? 'grab' : 'default', opacity: movable || resizable ? 1 : 0.6,
+                background: clip.kind === 'series-item' ? 'rgba(160,123,255,0.35)' : 'rgba(110,168,254,0.35)'}}
+            >
+              <span style={{overflow:'hidden', textOverflow:'ellipsis', whiteSpace:'nowrap'}}>{clip.label}</span>
+              {resizable && (
+                <div
+                  onPointerDown={(e)=>{ e.preventDefault(); e.stopPropagation(); setDrag({ clip, mode:'resize', x:e.clientX, delta:0 }); }}
+                  style={{position:'absolute', right:0, top:0, bottom:0, width:8, cursor:'ew-resize', background:'rgba(255,255,255,0.18)', borderRadius:'0 6px 6px 0'}}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+// The current value of the prop that positions the clip, relative to its parent (or the previous Series item)
+function relativeStart(clip: TimelineClip) {
+  return clip.start! - clip.origin!;
+}
+
+// Keep clips from starting before frame 0 of the composition
+function clampMove(clip: TimelineClip, delta: number) {
+  return Math.max(delta, -clip.start!);
+}
+
+const clipStyle: React.CSSProperties = { position:'absolute', height:ROW - 6, display:'flex', alignItems:'center', padding:'0 10px 0 6px', boxSizing:'border-box', borderRadius:6, border:'1px solid rgba(255,255,255,0.18)', fontSize:11, color:'#e9eef5', overflow:'hidden' };
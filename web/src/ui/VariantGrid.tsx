@@ -0,0 +1,60 @@
+import React from 'react';
+import {Project} from './types';
+import {SandboxPlayer} from './SandboxPlayer';
+
+export type VariantStatus = 'queued' | 'generating' | 'done' | 'error';
+
+// One variant of a "Generate N variants" run. Finished variants are recorded in history as siblings, so versionId
+// stays reachable after the grid is closed.
+export type Variant = {
+  index: number;
+  seed: number;
+  temperature?: number;
+  status: VariantStatus;
+  stage?: string;
+  project?: Project;
+  cached?: boolean;
+  error?: string;
+  versionId?: string;
+};
+
+const NO_PROPS = {};
+
+// Small players of every variant, filled in as they finish. Keep checks one out as the current project and Discard
+// closes the grid; both stop variants that are still generating, and the finished ones stay in history.
+export const VariantGrid: React.FC<{
+  variants: Variant[];
+  onKeep: (variant: Variant) => void;
+  onMakeBlock: (variant: Variant) => void;
+  onDiscard: () => void;
+  blockBusy: boolean;
+}> = ({ variants, onKeep, onMakeBlock, onDiscard, blockBusy }) => (
+  <div style={{marginBottom:12, padding:'10px 12px', borderRadius:12, border:'1px solid rgba(255,255,255,0.12)', background:'rgba(255,255,255,0.03)'}}>
+    <div style={{display:'flex', gap:8, alignItems:'center', marginBottom:8}}>
+      <div style={{fontWeight:700, flex:1}}>Variants · {variants.filter(v => v.status === 'done').length}/{variants.length}</div>
+      <button onClick={onDiscard} style={smallButton} title="Close the grid; finished variants stay in history">Discard</button>
+    </div>
+    <div style={{display:'grid', gridTemplateColumns:'repeat(auto-fill, minmax(200px, 1fr))', gap:10}}>
+      {variants.map(v => (
+        <div key={v.index} style={{display:'grid', gap:6}}>
+          <div style={{position:'relative', width:'100%', aspectRatio: v.project ? `${v.project.width}/${v.project.height}` : '16/9', background:'#0a0e15', borderRadius:10, overflow:'hidden', display:'grid', placeItems:'center'}}>
+            {v.project
+              ? <SandboxPlayer project={v.project} inputProps={NO_PROPS} options={{controls:true, loop:true, autoPlay:true}} />
+              : <div style={{fontSize:12, padding:'0 8px', textAlign:'center', color: v.status === 'error' ? '#ff9b9b' : '#a7b1c2'}}>{v.status === 'error' ? v.error : v.stage || (v.status === 'queued' ? 'Queued' : 'Generating…')}</div>}
+          </div>
+          <div style={{display:'flex', gap:6, alignItems:'center', fontSize:12}}>
+            <span style={{flex:1, color:'#a7b1c2', whiteSpace:'nowrap', overflow:'hidden', textOverflow:'ellipsis'}}>
+              #{v.index + 1} · seed {v.seed}{v.temperature != null ? ` · t ${v.temperature}` : ''}{v.cached ? ' · cached' : ''}
+              {v.project?.validation && !v.project.validation.ok ? ' · has errors' : ''}
+            </span>
+            <button onClick={()=>onMakeBlock(v)} disabled={!v.project || blockBusy} style={{...smallButton, opacity: !v.project || blockBusy ? 0.5 : 1}}>Block</button>
+            <button onClick={()=>onKeep(v)} disabled={!v.versionId} style={{...smallButton, opacity: v.versionId ? 1 : 0.5}}>Keep</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const button: React.CSSProperties = { padding:'6px 12px', borderRadius:10, fontWeight:700, color:'#e9eef5', background:'rgba(255,255,255,0.06)', border:'1px solid rgba(255,255,255,0.12)', cursor:'pointer' };
+const smallButton: React.CSSProperties = { ...button, padding:'2px 8px', fontSize:12, fontWeight:600 };
@@ -0,0 +1,44 @@
+// Requests to the backend. A server started with API_KEYS answers 401 without a key: the key is then asked for once,
+// kept in localStorage and sent with every request. Plain links (render downloads) cannot carry headers, so apiUrl()
+// adds it as a query parameter instead.
+
+const STORAGE_KEY = 'api_key_v1';
+
+let asking: Promise<string | null> | null = null;
+
+function storedKey() {
+  try { return localStorage.getItem(STORAGE_KEY) || ''; } catch { return ''; }
+}
+
+// One prompt however many requests were refused at the same time
+function askForKey(rejected: string) {
+  if (!asking) {
+    asking = new Promise<string | null>(resolve => {
+      const key = prompt(rejected ? 'The server rejected the API key. Enter another one:' : 'This server needs an API key:')?.trim() || null;
+      if (key) localStorage.setItem(STORAGE_KEY, key);
+      resolve(key);
+    }).finally(() => { setTimeout(() => { asking = null; }, 0); });
+  }
+  return asking;
+}
+
+function withKey(init: RequestInit | undefined, key: string): RequestInit | undefined {
+  if (!key) return init;
+  const headers = new Headers(init?.headers);
+  headers.set('Authorization', `Bearer ${key}`);
+  return { ...init, headers };
+}
+
+export async function apiFetch(url: string, init?: RequestInit): Promise<Response> {
+  const key = storedKey();
+  const resp = await fetch(url, withKey(init, key));
+  if (resp.status !== 401) return resp;
+  const next = await askForKey(key);
+  if (!next) return resp;
+  return fetch(url, withKey(init, next));
+}
+
+export function apiUrl(url: string) {
+  const key = storedKey();
+  return key ? `${url}${url.includes('?') ? '&' : '?'}api_key=${encodeURIComponent(key)}` : url;
+}
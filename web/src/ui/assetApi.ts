@@ -0,0 +1,88 @@
+import {ProjectAsset} from './types';
+import {apiFetch} from './apiFetch';
+
+// Project assets (images, audio, video and fonts under public/). Uploads go to the server's content-addressed
+// store (/api/assets) and the project keeps only their URL, so history and the block library stay small.
+
+export type AssetKind = 'image' | 'audio' | 'video' | 'font';
+
+// Browsers leave File.type empty for some fonts, and files read from a ZIP have no type at all
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', svg: 'image/svg+xml', avif: 'image/avif',
+  mp3: 'audio/mpeg', wav: 'audio/wav', ogg: 'audio/ogg', m4a: 'audio/mp4', aac: 'audio/aac',
+  mp4: 'video/mp4', webm: 'video/webm', mov: 'video/quicktime',
+  woff: 'font/woff', woff2: 'font/woff2', ttf: 'font/ttf', otf: 'font/otf',
+};
+
+export function assetKind(type: string): AssetKind | null {
+  const major = type.split('/')[0];
+  if (major === 'image' || major === 'audio' || major === 'video' || major === 'font') return major;
+  return /font/.test(type) ? 'font' : null;
+}
+
+export function fileType(file: File) {
+  return file.type || EXTENSION_TYPES[file.name.split('.').pop()!.toLowerCase()] || 'application/octet-stream';
+}
+
+// public/<name> for an uploaded file, made unique among the existing asset paths
+export function assetPath(fileName: string, taken: Record<string, unknown>) {
+  const clean = fileName.normalize('NFKD').replace(/[^\w.-]+/g, '-').replace(/^[-.]+|-+(?=\.)/g, '').toLowerCase() || 'asset';
+  const dot = clean.lastIndexOf('.');
+  const [stem, ext] = dot > 0 ? [clean.slice(0, dot), clean.slice(dot)] : [clean, ''];
+  let path = `public/${stem}${ext}`;
+  for (let n = 2; path in taken; n++) path = `public/${stem}-${n}${ext}`;
+  return path;
+}
+
+export async function uploadAsset(file: File): Promise<ProjectAsset> {
+  const type = fileType(file);
+  const resp = await apiFetch('/api/assets', { method: 'POST', headers: {'Content-Type': type}, body: file });
+  const body = await resp.json().catch(() => null);
+  if (!resp.ok) throw new Error(body?.error || 'Upload failed: ' + resp.status);
+  return { type: body.type, data: body.url, size: body.size };
+}
+
+export async function assetBlob(asset: ProjectAsset): Promise<Blob> {
+  const resp = await fetch(asset.data);
+  if (!resp.ok) throw new Error(`Asset not available (${resp.status})`);
+  const blob = await resp.blob();
+  return blob.type === asset.type ? blob : new Blob([blob], { type: asset.type });
+}
+
+function toDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// The same assets with stored uploads inlined as data URLs, for files that leave the app (block packs)
+export async function inlineAssets(assets: Record<string, ProjectAsset>) {
+  const out: Record<string, ProjectAsset> = {};
+  for (const [path, asset] of Object.entries(assets)) {
+    out[path] = asset.data.startsWith('data:') ? asset : { type: asset.type, data: await toDataUrl(await assetBlob(asset)) };
+  }
+  return out;
+}
+
+// The same assets with data URLs uploaded to the store, for bodies sent to the server (imported block packs,
+// renders), which are too small to carry media inline
+export async function storeAssets(assets: Record<string, ProjectAsset>) {
+  const out: Record<string, ProjectAsset> = {};
+  for (const [path, asset] of Object.entries(assets)) {
+    out[path] = asset.data.startsWith('data:') ? await uploadAsset(new File([await assetBlob(asset)], path.split('/').pop()!, { type: asset.type })) : asset;
+  }
+  return out;
+}
+
+// What the model is told about the assets (it never sees their bytes)
+export function assetManifest(assets?: Record<string, ProjectAsset>) {
+  return Object.entries(assets || {}).map(([path, a]) => ({ path, type: a.type, size: a.size ?? (a.data.startsWith('data:') ? Math.round(a.data.length * 0.75) : undefined) }));
+}
+
+export function formatBytes(bytes?: number) {
+  if (!bytes) return '';
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
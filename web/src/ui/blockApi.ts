@@ -0,0 +1,93 @@
+import {Block, BlockDef, Project} from './types';
+import {apiFetch} from './apiFetch';
+import {normalizeLegacyParam} from './params';
+
+// Client for the server-side block library (/api/blocks). The server stores blocks flat
+// ({ id, name, hue, params, project, ... }); the app works with { def, project } blocks.
+
+export type StoredBlock = {
+  id: string;
+  name: string;
+  hue: number;
+  tags: string[];
+  params: BlockDef['params'];
+  project: Project;
+  version: number;
+  usageCount: number;
+  updatedAt: number;
+  versionCount?: number;
+  versions?: { version: number; name: string; params: BlockDef['params']; project: Project; createdAt: number }[];
+};
+
+export type BlockQuery = { q?: string; tag?: string; sort?: 'updated' | 'usage' | 'name' };
+
+const LEGACY_KEY = 'blocks_v1';
+const MIGRATED_KEY = 'blocks_v1_migrated';
+
+export function toBlock(s: StoredBlock): Block {
+  return {
+    def: { id: s.id, name: s.name, params: s.params || [], hue: s.hue },
+    project: s.project,
+    tags: s.tags || [],
+    version: s.version,
+    usageCount: s.usageCount,
+    versionCount: s.versionCount ?? s.versions?.length ?? 0,
+  };
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const resp = await apiFetch(url, init && init.body ? { ...init, headers: {'Content-Type': 'application/json'} } : init);
+  const body = await resp.json().catch(() => null);
+  if (!resp.ok) throw new Error(body?.error || 'Backend error: ' + resp.status);
+  return body as T;
+}
+
+export async function listBlocks(query: BlockQuery = {}) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([k, v]) => { if (v) params.set(k, v); });
+  const body = await request<{ blocks: StoredBlock[]; tags: Record<string, number> }>('/api/blocks' + (params.toString() ? '?' + params : ''));
+  return { blocks: body.blocks.map(toBlock), tags: body.tags || {} };
+}
+
+export async function createStoredBlock(block: Block) {
+  const {id, name, params, hue} = block.def;
+  return toBlock(await request<StoredBlock>('/api/blocks', { method: 'POST', body: JSON.stringify({ id, name, params, hue, project: block.project, tags: block.tags || [], usageCount: block.usageCount }) }));
+}
+
+export async function updateStoredBlock(id: string, patch: Partial<Pick<StoredBlock, 'name' | 'params' | 'project' | 'tags' | 'hue'>>) {
+  return toBlock(await request<StoredBlock>(`/api/blocks/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(patch) }));
+}
+
+export async function deleteStoredBlock(id: string) {
+  await request(`/api/blocks/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export async function getBlockVersions(id: string) {
+  const block = await request<StoredBlock>(`/api/blocks/${encodeURIComponent(id)}`);
+  return [...(block.versions || [])].reverse();
+}
+
+export async function restoreBlockVersion(id: string, version: number) {
+  return toBlock(await request<StoredBlock>(`/api/blocks/${encodeURIComponent(id)}/restore`, { method: 'POST', body: JSON.stringify({ version }) }));
+}
+
+// One-time upload of blocks saved by older versions of the app in localStorage. Blocks are sent one at a time
+// (each carries a full project); the local copy is only dropped once every block reached the server.
+export async function migrateLocalBlocks() {
+  if (localStorage.getItem(MIGRATED_KEY)) return 0;
+  let legacy: Block[] = [];
+  try { legacy = JSON.parse(localStorage.getItem(LEGACY_KEY) || '[]'); } catch {}
+  let migrated = 0;
+  for (const block of Array.isArray(legacy) ? legacy : []) {
+    if (!block?.def?.id || !block.project) continue;
+    try {
+      await request(`/api/blocks/${encodeURIComponent(block.def.id)}`);
+      continue; // already on the server (an earlier, interrupted migration)
+    } catch {}
+    await createStoredBlock({ ...block, def: { ...block.def, params: Array.isArray(block.def.params) ? block.def.params.map(normalizeLegacyParam) : [] } });
+    migrated++;
+  }
+  localStorage.setItem(MIGRATED_KEY, String(Date.now()));
+  localStorage.removeItem(LEGACY_KEY);
+  return migrated;
+}
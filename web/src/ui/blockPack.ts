@@ -0,0 +1,167 @@
+import {Block, ParamDef, Project, ProjectAsset} from './types';
+import {normalizeLegacyParam, PARAM_TYPES} from './params';
+
+// Block packs: a portable JSON file for sharing blocks between teams and repos.
+//
+//   { format: 'visublocks.block-pack', version: 2, name, description?, createdAt,
+//     blocks: [{ id, name, hue?, tags?, params: ParamDef[] (with explain templates), project, assets? }] }
+//
+// Older files are upgraded step by step through MIGRATIONS before validation, so every version ever written keeps loading:
+//   0: a bare array of app blocks ({ def, project }), e.g. a copy of localStorage.blocks_v1
+//   1: { version: 1, blocks: [{ def, project }] }
+//   2: flat blocks with tags and assets (current)
+
+export const PACK_FORMAT = 'visublocks.block-pack';
+export const PACK_VERSION = 2;
+
+export type PackBlock = {
+  id: string;
+  name: string;
+  hue?: number;
+  tags?: string[];
+  params: ParamDef[];
+  project: Omit<Project, 'validation' | 'assets'>;
+  assets?: Record<string, ProjectAsset>;
+};
+
+export type BlockPack = {
+  format: typeof PACK_FORMAT;
+  version: number;
+  name: string;
+  description?: string;
+  createdAt: string;
+  blocks: PackBlock[];
+};
+
+export class PackError extends Error {
+  problems: string[];
+  constructor(message: string, problems: string[] = []) {
+    super(problems.length ? `${message}:\n${problems.slice(0, 12).join('\n')}${problems.length > 12 ? `\n… ${problems.length - 12} more` : ''}` : message);
+    this.name = 'PackError';
+    this.problems = problems;
+  }
+}
+
+const MIGRATIONS: Record<number, (pack: any) => any> = {
+  0: (blocks: any[]) => ({ version: 1, blocks }),
+  1: (pack: any) => ({
+    ...pack,
+    format: PACK_FORMAT,
+    name: typeof pack.name === 'string' ? pack.name : 'Imported blocks',
+    createdAt: pack.createdAt || new Date().toISOString(),
+    version: 2,
+    blocks: (Array.isArray(pack.blocks) ? pack.blocks : []).map((b: any) => ({
+      id: b?.def?.id,
+      name: b?.def?.name,
+      hue: b?.def?.hue,
+      tags: [],
+      // Blocks of those versions predate typed params and may not pass today's checks
+      params: Array.isArray(b?.def?.params) ? b.def.params.map(normalizeLegacyParam) : b?.def?.params,
+      project: b?.project,
+    })),
+  }),
+};
+
+function packVersion(data: any) {
+  if (Array.isArray(data)) return 0;
+  if (data && typeof data === 'object' && Number.isInteger(data.version)) return data.version;
+  throw new PackError('Not a block pack (missing "version")');
+}
+
+export function migratePack(data: any): any {
+  let version = packVersion(data);
+  if (version > PACK_VERSION) throw new PackError(`Block pack version ${version} is newer than this app supports (${PACK_VERSION})`);
+  let pack = data;
+  while (version < PACK_VERSION) {
+    pack = MIGRATIONS[version](pack);
+    version = pack.version;
+  }
+  return pack;
+}
+
+// Collects every problem instead of stopping at the first, so a broken pack can be fixed in one pass
+export function validatePack(pack: any): string[] {
+  const problems: string[] = [];
+  const check = (ok: boolean, path: string, message: string) => { if (!ok) problems.push(`${path}: ${message}`); };
+  check(pack?.format === PACK_FORMAT, 'format', `expected "${PACK_FORMAT}"`);
+  check(typeof pack?.name === 'string', 'name', 'expected a string');
+  if (!Array.isArray(pack?.blocks)) { problems.push('blocks: expected an array'); return problems; }
+  const ids = new Set<string>();
+  pack.blocks.forEach((b: any, i: number) => {
+    const at = `blocks[${i}]`;
+    if (!b || typeof b !== 'object') { problems.push(`${at}: expected an object`); return; }
+    check(typeof b.id === 'string' && /^[\w-]{1,64}$/.test(b.id), `${at}.id`, 'expected letters, digits, "_" or "-" (max 64)');
+    check(!ids.has(b.id), `${at}.id`, `duplicate id "${b.id}"`);
+    ids.add(b.id);
+    check(typeof b.name === 'string' && b.name.trim() !== '', `${at}.name`, 'expected a non-empty string');
+    check(b.hue === undefined || (typeof b.hue === 'number' && isFinite(b.hue)), `${at}.hue`, 'expected a number');
+    check(b.tags === undefined || (Array.isArray(b.tags) && b.tags.every((t: any) => typeof t === 'string')), `${at}.tags`, 'expected an array of strings');
+    if (!Array.isArray(b.params)) problems.push(`${at}.params: expected an array`);
+    else b.params.forEach((p: any, j: number) => {
+      const pat = `${at}.params[${j}]`;
+      check(typeof p?.key === 'string' && p.key !== '', `${pat}.key`, 'expected a non-empty string');
+      check(PARAM_TYPES.includes(p?.type), `${pat}.type`, `expected one of ${PARAM_TYPES.join(', ')}`);
+      check(p?.type !== 'select' || (Array.isArray(p.options) && p.options.length > 0 && p.options.every((o: any) => typeof o === 'string')), `${pat}.options`, 'expected a non-empty array of strings');
+      ['min', 'max', 'step'].forEach(k => check(p?.[k] === undefined || (typeof p[k] === 'number' && isFinite(p[k])), `${pat}.${k}`, 'expected a number'));
+      check(p?.explain === undefined || (typeof p.explain === 'string' && p.explain.includes('{value}')), `${pat}.explain`, 'expected a template containing {value}');
+    });
+    const project = b.project;
+    if (!project || typeof project !== 'object' || !project.files || typeof project.files !== 'object') problems.push(`${at}.project.files: expected an object`);
+    else {
+      Object.entries(project.files).forEach(([file, content]) => check(typeof content === 'string', `${at}.project.files["${file}"]`, 'expected a string'));
+      check(typeof project.files['src/MyComp.tsx'] === 'string', `${at}.project.files`, 'missing src/MyComp.tsx');
+      for (const key of ['width', 'height', 'fps', 'durationInFrames']) {
+        check(typeof project[key] === 'number' && project[key] > 0, `${at}.project.${key}`, 'expected a positive number');
+      }
+    }
+    if (b.assets !== undefined) {
+      if (!b.assets || typeof b.assets !== 'object') problems.push(`${at}.assets: expected an object`);
+      else Object.entries(b.assets).forEach(([file, a]: [string, any]) => {
+        check(/^public\//.test(file), `${at}.assets["${file}"]`, 'asset paths must start with public/');
+        check(typeof a?.type === 'string' && typeof a?.data === 'string' && a.data.startsWith('data:'), `${at}.assets["${file}"]`, 'expected { type, data: data URL }');
+      });
+    }
+  });
+  return problems;
+}
+
+// Parse, upgrade and validate a pack file's text. Throws PackError listing every problem.
+export function readBlockPack(text: string): BlockPack {
+  let data: any;
+  try { data = JSON.parse(text); }
+  catch (e: any) { throw new PackError('Block pack is not valid JSON: ' + e.message); }
+  const pack = migratePack(data);
+  const problems = validatePack(pack);
+  if (problems.length) throw new PackError('Invalid block pack', problems);
+  return pack as BlockPack;
+}
+
+export function createBlockPack(blocks: Block[], name: string, description?: string): BlockPack {
+  return {
+    format: PACK_FORMAT,
+    version: PACK_VERSION,
+    name,
+    ...(description ? { description } : {}),
+    createdAt: new Date().toISOString(),
+    blocks: blocks.map(b => {
+      const { validation, assets, ...project } = b.project;
+      return {
+        id: b.def.id,
+        name: b.def.name,
+        hue: b.def.hue,
+        tags: b.tags || [],
+        params: b.def.params,
+        project,
+        ...(assets && Object.keys(assets).length ? { assets } : {}),
+      };
+    }),
+  };
+}
+
+export function packBlockToBlock(b: PackBlock): Block {
+  return {
+    def: { id: b.id, name: b.name, hue: b.hue, params: b.params },
+    project: { ...b.project, ...(b.assets ? { assets: b.assets } : {}) } as Project,
+    tags: b.tags || [],
+  };
+}
@@ -0,0 +1,65 @@
+import {ProjectAsset} from './types';
+import {apiFetch} from './apiFetch';
+
+// Client for the team's brand kit (/api/brand). The server adds it to every generation and block-params request
+// unless the request sends brand: false; its logo is an uploaded image that projects get as public/<name>.
+
+export type MotionStyle = 'calm' | 'smooth' | 'energetic' | 'playful';
+
+export type BrandKit = {
+  name: string;
+  // Colors named background and text are meant for the backdrop and the copy
+  palette: { name: string; color: string }[];
+  typography: { heading: string; body: string };
+  logo: { name: string; type: string; url: string; size?: number } | null;
+  motion: { style: MotionStyle; easing: string };
+  // Percent of the frame kept free of text and logos along every edge
+  safeMargin: number;
+  updatedAt?: number;
+};
+
+export const MOTION_STYLES: { id: MotionStyle; label: string }[] = [
+  { id: 'calm', label: 'Calm' },
+  { id: 'smooth', label: 'Smooth' },
+  { id: 'energetic', label: 'Energetic' },
+  { id: 'playful', label: 'Playful' },
+];
+
+export const EMPTY_BRAND_KIT: BrandKit = {
+  name: '',
+  palette: [{ name: 'primary', color: '#6ea8fe' }, { name: 'secondary', color: '#a07bff' }, { name: 'background', color: '#0b0f14' }, { name: 'text', color: '#e9eef5' }],
+  typography: { heading: '', body: '' },
+  logo: null,
+  motion: { style: 'smooth', easing: '' },
+  safeMargin: 5,
+};
+
+async function request(init?: RequestInit): Promise<{ brand: BrandKit | null }> {
+  const resp = await apiFetch('/api/brand', init && init.body ? { ...init, headers: {'Content-Type': 'application/json'} } : init);
+  const body = await resp.json().catch(() => null);
+  if (!resp.ok) throw new Error(body?.error || 'Backend error: ' + resp.status);
+  return { brand: body?.brand ?? null };
+}
+
+export async function fetchBrandKit() {
+  return (await request()).brand;
+}
+
+export async function saveBrandKit(kit: BrandKit) {
+  const {updatedAt, ...body} = kit;
+  return (await request({ method: 'PUT', body: JSON.stringify(body) })).brand;
+}
+
+export async function clearBrandKit() {
+  await request({ method: 'DELETE' });
+}
+
+// The logo as a project asset, so the staticFile('<name>') the prompt asks for resolves in the preview and renders
+export function brandAssets(kit: BrandKit | null): Record<string, ProjectAsset> {
+  return kit?.logo ? { [`public/${kit.logo.name}`]: { type: kit.logo.type, data: kit.logo.url, size: kit.logo.size } } : {};
+}
+
+// Options of the shared lint rules: colors outside the palette are reported as off-brand
+export function brandLint(kit: BrandKit | null) {
+  return kit && kit.palette.length ? { palette: kit.palette.map(p => p.color) } : undefined;
+}
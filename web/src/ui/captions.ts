@@ -0,0 +1,251 @@
+import {Project} from './types';
+
+// Captions: cues parsed from SRT, WebVTT or a transcript with timestamps, stored in src/captions.json and drawn by
+// src/Captions.tsx, which MyComp renders on top of its content. Cue times are seconds; the component turns them into
+// frames with the composition's fps, so the captions stay frame-accurate when fps or the format changes.
+
+export const CAPTIONS_FILE = 'src/captions.json';
+export const CAPTIONS_COMPONENT_FILE = 'src/Captions.tsx';
+
+export type Cue = { start: number; end: number; text: string };
+export type CaptionPosition = 'bottom' | 'middle' | 'top';
+// fontSize is in pixels of a 1080-pixel frame side; margin is a percentage of the frame height
+export type CaptionStyle = { fontFamily: string; fontSize: number; fontWeight: number; color: string; background: string; position: CaptionPosition; margin: number };
+export type Captions = { style: CaptionStyle; cues: Cue[] };
+export type CaptionFormat = 'srt' | 'vtt' | 'transcript';
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontFamily: 'Inter, system-ui, sans-serif', fontSize: 48, fontWeight: 700, color: '#ffffff', background: 'rgba(0, 0, 0, 0.6)', position: 'bottom', margin: 8,
+};
+
+const TIME = String.raw`(?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?`;
+const CUE_TIMING = new RegExp(`^\\s*(${TIME})\\s*-->\\s*(${TIME})`);
+// "[00:01] text", "0:01 - text", "(1:02.5) text", "00:01 - 00:04 text"
+const TRANSCRIPT_LINE = new RegExp(`^\\s*[\\[(]?(${TIME})(?:\\s*(?:-->|–|-)\\s*(${TIME}))?[\\])]?\\s*[-–:]?\\s*(.*)$`);
+
+// Seconds of "01:02:03,456", "02:03.4" or "2:03"
+export function parseTimestamp(value: string) {
+  const m = /^\s*(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?\s*$/.exec(value);
+  if (!m) return NaN;
+  return Number(m[1] || 0) * 3600 + Number(m[2]) * 60 + Number(m[3]) + Number((m[4] || '0').padEnd(3, '0')) / 1000;
+}
+
+function pad(n: number, width = 2) {
+  return String(n).padStart(width, '0');
+}
+
+// "00:01:02,500" (SRT) or "00:01:02.500" (WebVTT)
+export function formatTimestamp(seconds: number, separator: ',' | '.' = ',') {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+// Cue text without WebVTT/SRT markup (<v Speaker>, <i>, <font …>, inline timestamps) and with entities decoded
+function cueText(line: string) {
+  return line.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&').trim();
+}
+
+// Roughly how long a line without an end time takes to read
+function readingTime(text: string) {
+  return Math.min(6, Math.max(1.5, text.split(/\s+/).length * 0.4));
+}
+
+function normalizeCues(cues: Cue[]) {
+  return cues
+    .filter(c => Number.isFinite(c.start) && Number.isFinite(c.end) && c.text.trim())
+    .map(c => ({ start: Math.round(Math.max(0, c.start) * 1000) / 1000, end: Math.round(Math.max(c.start + 0.1, c.end) * 1000) / 1000, text: c.text.trim() }))
+    .sort((a, b) => a.start - b.start);
+}
+
+// Parse an .srt or .vtt file, or pasted lines that start with a timestamp (the end of such a line is the next line's
+// start). Throws when nothing in the text looks like a caption.
+export function parseCaptions(text: string): { cues: Cue[]; format: CaptionFormat } {
+  const clean = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const vtt = /^WEBVTT\b/.test(clean.trimStart());
+  let cues: Cue[];
+  let format: CaptionFormat;
+  if (vtt || clean.includes('-->')) {
+    format = vtt ? 'vtt' : 'srt';
+    cues = [];
+    // Header, NOTE, STYLE and REGION blocks have no timing line and are skipped; SRT's index line comes before it
+    for (const block of clean.split(/\n[ \t]*\n/)) {
+      const lines = block.split('\n');
+      const at = lines.findIndex(l => CUE_TIMING.test(l));
+      if (at === -1) continue;
+      const m = CUE_TIMING.exec(lines[at])!;
+      cues.push({ start: parseTimestamp(m[1]), end: parseTimestamp(m[2]), text: lines.slice(at + 1).map(cueText).filter(Boolean).join('\n') });
+    }
+  } else {
+    format = 'transcript';
+    const rows: { start: number; end: number | null; text: string }[] = [];
+    for (const line of clean.split('\n')) {
+      const m = TRANSCRIPT_LINE.exec(line);
+      if (m && m[3].trim()) rows.push({ start: parseTimestamp(m[1]), end: m[2] ? parseTimestamp(m[2]) : null, text: cueText(m[3]) });
+      else if (line.trim() && rows.length) rows[rows.length - 1].text += '\n' + cueText(line); // a wrapped line
+    }
+    cues = rows.map((r, i) => {
+      const next = rows.slice(i + 1).find(n => n.start > r.start);
+      return { start: r.start, end: r.end ?? (next ? Math.min(next.start, r.start + 8) : r.start + readingTime(r.text)), text: r.text };
+    });
+  }
+  cues = normalizeCues(cues);
+  if (!cues.length) throw new Error('No captions found. Use an .srt or .vtt file, or lines that start with a timestamp such as "[00:04] Hello".');
+  return { cues, format };
+}
+
+export function toSrt(cues: Cue[]) {
+  return cues.map((c, i) => `${i + 1}\n${formatTimestamp(c.start)} --> ${formatTimestamp(c.end)}\n${c.text}\n`).join('\n');
+}
+
+export function toVtt(cues: Cue[]) {
+  return `WEBVTT\n\n${cues.map(c => `${formatTimestamp(c.start, '.')} --> ${formatTimestamp(c.end, '.')}\n${c.text}\n`).join('\n')}`;
+}
+
+// The project's captions, or null when it has none (or src/captions.json is not a captions file)
+export function readCaptions(project: Project): Captions | null {
+  const source = project.files[CAPTIONS_FILE];
+  if (typeof source !== 'string') return null;
+  try {
+    const parsed = JSON.parse(source);
+    if (!parsed || !Array.isArray(parsed.cues)) return null;
+    const cues = parsed.cues.filter((c: any) => c && typeof c.text === 'string' && Number.isFinite(c.start) && Number.isFinite(c.end));
+    return { style: { ...DEFAULT_CAPTION_STYLE, ...(parsed.style || {}) }, cues };
+  } catch {
+    return null;
+  }
+}
+
+const COMPONENT = `import React from 'react';
+import {AbsoluteFill, useCurrentFrame, useVideoConfig} from 'remotion';
+import captions from './captions.json';
+
+export type Caption = {start: number; end: number; text: string};
+export type CaptionStyle = typeof captions.style;
+
+// Timed captions. Cue times in captions.json are seconds; a cue shows from the frame its start falls on up to the
+// frame its end falls on, computed with the composition's fps. Sizes follow the shorter side of the frame.
+export const Captions: React.FC<{cues?: Caption[]; style?: Partial<CaptionStyle>}> = ({cues = captions.cues, style}) => {
+  const frame = useCurrentFrame();
+  const {fps, width, height} = useVideoConfig();
+  const s = {...captions.style, ...style};
+  const cue = cues.find((c) => frame >= Math.round(c.start * fps) && frame < Math.round(c.end * fps));
+  if (!cue) return null;
+  const unit = Math.min(width, height) / 1080;
+  const justify = s.position === 'top' ? 'flex-start' : s.position === 'middle' ? 'center' : 'flex-end';
+  return (
+    <AbsoluteFill style={{justifyContent: justify, alignItems: 'center', padding: \`\${(s.margin / 100) * height}px \${0.05 * width}px\`, pointerEvents: 'none'}}>
+      <div
+        style={{
+          maxWidth: '90%',
+          padding: \`\${0.25 * s.fontSize * unit}px \${0.5 * s.fontSize * unit}px\`,
+          borderRadius: 0.2 * s.fontSize * unit,
+          background: s.background,
+          color: s.color,
+          fontFamily: s.fontFamily,
+          fontSize: s.fontSize * unit,
+          fontWeight: s.fontWeight,
+          lineHeight: 1.25,
+          textAlign: 'center',
+          whiteSpace: 'pre-line',
+        }}
+      >
+        {cue.text}
+      </div>
+    </AbsoluteFill>
+  );
+};
+`;
+
+const IMPORT_LINE = `import {Captions} from './Captions';`;
+
+// Index just past the brace that closes the block opened at `open`. Quoted strings are skipped when they close on the
+// same line (an apostrophe in JSX text does not), template literals up to their closing backtick.
+function blockEnd(code: string, open: number) {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    const c = code[i];
+    if (c === '"' || c === "'" || c === '`') {
+      const close = code.indexOf(c, i + 1);
+      if (close !== -1 && (c === '`' || !code.slice(i + 1, close).includes('\n'))) i = close;
+    } else if (c === '{') depth++;
+    else if (c === '}' && --depth === 0) return i + 1;
+  }
+  return -1;
+}
+
+// Index just past the "/>" of the self-closing tag starting at `at`, or -1 when the tag has children
+function selfClosingEnd(code: string, at: number) {
+  for (let i = at; i < code.length; i++) {
+    if (code[i] === '{') {
+      const end = blockEnd(code, i);
+      if (end === -1) return -1;
+      i = end - 1;
+    } else if (code.startsWith('/>', i)) return i + 2;
+    else if (code[i] === '>') return -1;
+  }
+  return -1;
+}
+
+// MyComp with <Captions /> as the last child of the element it returns (or next to it when that element is
+// self-closing), or null when that element is not found
+function wireComponent(code: string) {
+  if (/<Captions\b/.test(code)) return code;
+  const decl = /export\s+(?:const\s+MyComp\b[^=]*=\s*(?:\([^)]*\)|[\w$]+)\s*=>\s*\{|function\s+MyComp\s*\([^)]*\)[^{]*\{)/.exec(code);
+  if (!decl) return null;
+  const open = decl.index + decl[0].length - 1;
+  const end = blockEnd(code, open);
+  if (end === -1) return null;
+  // The returned element: from the last `return <…` of the body up to the last closing tag after it
+  const returned = [...code.slice(open, end).matchAll(/return\s*\(?\s*(<[\w.$]+)/g)].pop();
+  if (!returned || returned.index === undefined) return null;
+  const start = open + returned.index + returned[0].length - returned[1].length;
+  const closing = [...code.slice(start, end).matchAll(/<\/[\w.$]*>/g)].pop();
+  let next: string;
+  if (closing && closing.index !== undefined) {
+    const at = start + closing.index;
+    const lineStart = code.lastIndexOf('\n', at - 1) + 1;
+    const indent = code.slice(lineStart, at);
+    next = /^[ \t]*$/.test(indent)
+      ? code.slice(0, lineStart) + `${indent}  <Captions />\n` + code.slice(lineStart)
+      : code.slice(0, at) + '<Captions />' + code.slice(at);
+  } else {
+    // A single self-closing element is returned: render both in a fragment
+    const close = selfClosingEnd(code, start);
+    if (close === -1) return null;
+    next = code.slice(0, start) + '<>' + code.slice(start, close) + '<Captions /></>' + code.slice(close);
+  }
+  const lastImport = [...next.matchAll(/^import[^\n]*\n/gm)].pop();
+  const importAt = lastImport && lastImport.index !== undefined ? lastImport.index + lastImport[0].length : 0;
+  next = next.slice(0, importAt) + IMPORT_LINE + '\n' + next.slice(importAt);
+  return next;
+}
+
+function unwireComponent(code: string) {
+  return code
+    .replace(/^[ \t]*import\s*\{\s*Captions\s*\}\s*from\s*['"]\.\/Captions['"];?[ \t]*\n/m, '')
+    .replace(/^[ \t]*<Captions\b[^<>]*\/>[ \t]*\n/gm, '')
+    .replace(/<>(<[\w.$]+(?:[^<>{}]|\{[^{}]*(?:\{[^{}]*\}[^{}]*)*\})*\/>)<Captions\b[^<>]*\/><\/>/g, '$1')
+    .replace(/<Captions\b[^<>]*\/>/g, '');
+}
+
+// The project with these captions (src/captions.json, src/Captions.tsx when it is missing, and <Captions /> rendered
+// by MyComp), or without any when `captions` is null. `wired` is false when MyComp's returned element could not be
+// found; the files are written anyway so <Captions /> can be added by hand.
+export function applyCaptions(project: Project, captions: Captions | null): { project: Project; wired: boolean } {
+  const files = { ...project.files };
+  const myComp = files['src/MyComp.tsx'] || '';
+  let wired = true;
+  if (!captions) {
+    delete files[CAPTIONS_FILE];
+    delete files[CAPTIONS_COMPONENT_FILE];
+    files['src/MyComp.tsx'] = unwireComponent(myComp);
+  } else {
+    files[CAPTIONS_FILE] = JSON.stringify({ style: captions.style, cues: normalizeCues(captions.cues) }, null, 2) + '\n';
+    if (typeof files[CAPTIONS_COMPONENT_FILE] !== 'string') files[CAPTIONS_COMPONENT_FILE] = COMPONENT;
+    const next = wireComponent(myComp);
+    if (next === null) wired = false;
+    else files['src/MyComp.tsx'] = next;
+  }
+  const { validation: _stale, ...rest } = project;
+  return { project: { ...rest, files }, wired };
+}
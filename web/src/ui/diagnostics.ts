@@ -0,0 +1,74 @@
+import {lintFile} from '../shared/lint.js';
+import {Diagnostic} from './types';
+import {compileModule} from './transpile';
+import {isRelativeSpecifier, resolveImport} from './modules';
+
+// Checks for hand-edited project files, the client-side counterpart of server/validate.js: syntax errors from the
+// compiler the preview uses, imports that do not resolve (files, or packages other than react and remotion),
+// invalid JSON and the shared lint rules. Codes match the server's so both report the same way. Type errors come
+// separately, and later, from typecheck.ts.
+
+const PREVIEW_PACKAGES = new Set(['react', 'remotion']);
+const REQUIRED_FILES = ['src/index.ts', 'src/Root.tsx', 'src/MyComp.tsx'];
+const IMPORT_RE = /(?:^|[\s;])(?:import|export)\s[^'"`;]*?from\s*['"]([^'"]+)['"]|(?:^|[\s;])import\s*['"]([^'"]+)['"]/g;
+
+function diag(file: string, message: string, extra: Partial<Diagnostic> = {}): Diagnostic {
+  return { file, line: 1, column: 1, severity: 'error', message, ...extra };
+}
+
+function importDiagnostics(files: Record<string, string>, file: string, source: string) {
+  const out: Diagnostic[] = [];
+  IMPORT_RE.lastIndex = 0;
+  for (let m = IMPORT_RE.exec(source); m; m = IMPORT_RE.exec(source)) {
+    const specifier = m[1] || m[2];
+    const line = source.slice(0, m.index).split('\n').length + (source[m.index] === '\n' ? 1 : 0);
+    if (isRelativeSpecifier(specifier)) {
+      if (!resolveImport(files, file, specifier)) out.push(diag(file, `Cannot resolve import '${specifier}'`, { line, code: 'resolve' }));
+    } else if (!PREVIEW_PACKAGES.has(specifier)) {
+      out.push(diag(file, `Package '${specifier}' is not available in the preview; only 'react' and 'remotion' can be imported`, { line, code: 'resolve' }));
+    }
+  }
+  return out;
+}
+
+// Diagnostics of one file; `files` is the whole project, for import resolution
+export function fileDiagnostics(files: Record<string, string>, file: string): Diagnostic[] {
+  const source = files[file];
+  if (typeof source !== 'string') return [];
+  if (file.endsWith('.json')) {
+    try { JSON.parse(source); return []; }
+    catch (e: any) { return [diag(file, 'Invalid JSON: ' + e.message, { code: 'compile' })]; }
+  }
+  if (!/\.(tsx?|jsx?)$/.test(file)) return [];
+  const out = importDiagnostics(files, file, source);
+  let js: string;
+  try {
+    js = compileModule(source, file);
+  } catch (e: any) {
+    const loc = e?.loc || {};
+    out.push(diag(file, String(e?.message || e).replace(/^Error transforming [^:]+: /, '').replace(/ \(\d+:\d+\)$/, ''), { line: loc.line || 1, column: loc.column || 1, code: 'compile' }));
+    return out;
+  }
+  for (const f of lintFile(source, file, js)) out.push(diag(file, f.message, { line: f.line, column: f.column, severity: f.severity, code: f.code }));
+  return out;
+}
+
+// Results of fileDiagnostics by file, reused while the file and the set of file names (its imports) are unchanged
+export type DiagnosticsCache = Map<string, { source: string; names: string; diagnostics: Diagnostic[] }>;
+
+export function projectDiagnostics(files: Record<string, string>, cache?: DiagnosticsCache): Diagnostic[] {
+  const out: Diagnostic[] = [];
+  for (const required of REQUIRED_FILES) {
+    if (typeof files[required] !== 'string') out.push(diag(required, 'Required file is missing', { code: 'shape' }));
+  }
+  const names = Object.keys(files).sort().join('\n');
+  for (const file of Object.keys(files)) {
+    const hit = cache?.get(file);
+    if (hit && hit.source === files[file] && hit.names === names) { out.push(...hit.diagnostics); continue; }
+    const diagnostics = fileDiagnostics(files, file);
+    cache?.set(file, { source: files[file], names, diagnostics });
+    out.push(...diagnostics);
+  }
+  if (cache) for (const file of [...cache.keys()]) if (!(file in files)) cache.delete(file);
+  return out;
+}
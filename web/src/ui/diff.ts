@@ -0,0 +1,83 @@
+// Line diff for side-by-side file comparison (LCS over lines; generated files are small enough for O(n·m))
+
+export type DiffRow =
+  | { kind: 'same'; left: number; right: number; text: string }
+  | { kind: 'del'; left: number; text: string }
+  | { kind: 'add'; right: number; text: string }
+  | { kind: 'change'; left: number; right: number; leftText: string; rightText: string };
+
+const MAX_CELLS = 4_000_000;
+
+export function diffLines(a: string, b: string): DiffRow[] {
+  const x = a ? a.split('\n') : [];
+  const y = b ? b.split('\n') : [];
+  // Trim the common prefix and suffix so the table only covers the changed middle
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) start++;
+  let endX = x.length, endY = y.length;
+  while (endX > start && endY > start && x[endX - 1] === y[endY - 1]) { endX--; endY--; }
+  const midX = x.slice(start, endX), midY = y.slice(start, endY);
+
+  const ops: Array<'same'|'del'|'add'> = [];
+  if (midX.length * midY.length > MAX_CELLS) {
+    midX.forEach(() => ops.push('del'));
+    midY.forEach(() => ops.push('add'));
+  } else {
+    const n = midX.length, m = midY.length;
+    const lcs: Uint32Array[] = Array.from({length: n + 1}, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midX[i] === midY[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0, j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midX[i] === midY[j]) { ops.push('same'); i++; j++; }
+      else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) { ops.push('del'); i++; }
+      else { ops.push('add'); j++; }
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  for (let k = 0; k < start; k++) rows.push({ kind: 'same', left: k + 1, right: k + 1, text: x[k] });
+  let li = start, ri = start;
+  for (let k = 0; k < ops.length;) {
+    if (ops[k] === 'same') { rows.push({ kind: 'same', left: li + 1, right: ri + 1, text: x[li] }); li++; ri++; k++; continue; }
+    // Pair a run of deletions with the following run of additions as changed lines
+    const dels: number[] = [], adds: number[] = [];
+    while (k < ops.length && ops[k] === 'del') { dels.push(li++); k++; }
+    while (k < ops.length && ops[k] === 'add') { adds.push(ri++); k++; }
+    for (let p = 0; p < Math.max(dels.length, adds.length); p++) {
+      const d = dels[p], a = adds[p];
+      if (d !== undefined && a !== undefined) rows.push({ kind: 'change', left: d + 1, right: a + 1, leftText: x[d], rightText: y[a] });
+      else if (d !== undefined) rows.push({ kind: 'del', left: d + 1, text: x[d] });
+      else rows.push({ kind: 'add', right: a + 1, text: y[a] });
+    }
+  }
+  for (let k = endX; k < x.length; k++) rows.push({ kind: 'same', left: k + 1, right: k - endX + endY + 1, text: x[k] });
+  return rows;
+}
+
+export function changedFiles(a: Record<string, string>, b: Record<string, string>) {
+  const names = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+  return names.map(file => ({
+    file,
+    status: !(file in a) ? 'added' as const : !(file in b) ? 'removed' as const : a[file] === b[file] ? 'same' as const : 'modified' as const,
+  }));
+}
+
+export type ChangedRegion = { file: string; status: 'added' | 'removed' | 'modified'; hunks: DiffRow[][] };
+
+// Only the changed rows of each file, grouped into contiguous hunks
+export function changedRegions(a: Record<string, string>, b: Record<string, string>): ChangedRegion[] {
+  return changedFiles(a, b).filter(f => f.status !== 'same').map(({file, status}) => {
+    const hunks: DiffRow[][] = [];
+    let hunk: DiffRow[] | null = null;
+    for (const row of diffLines(a[file] || '', b[file] || '')) {
+      if (row.kind === 'same') { hunk = null; continue; }
+      if (!hunk) { hunk = []; hunks.push(hunk); }
+      hunk.push(row);
+    }
+    return { file, status: status as ChangedRegion['status'], hunks };
+  });
+}
@@ -0,0 +1,34 @@
+import {Project} from './types';
+
+// Output formats: the presets offered when composing a prompt and when adapting a project, and the project as seen
+// through one of its compositions.
+
+export type Format = { width: number; height: number };
+
+export const FORMAT_PRESETS: { id: string; label: string; width: number; height: number }[] = [
+  { id: '16:9', label: '16:9 · Landscape', width: 1920, height: 1080 },
+  { id: '9:16', label: '9:16 · Vertical (Shorts, Reels)', width: 1080, height: 1920 },
+  { id: '1:1', label: '1:1 · Square', width: 1080, height: 1080 },
+  { id: '4:5', label: '4:5 · Portrait feed', width: 1080, height: 1350 },
+];
+
+export const DEFAULT_FORMAT: Format = { width: 1920, height: 1080 };
+
+export function presetFor(format: Format) {
+  return FORMAT_PRESETS.find(p => p.width === format.width && p.height === format.height) || null;
+}
+
+function gcd(a: number, b: number): number { return b ? gcd(b, a % b) : a; }
+
+// "9:16" for 1080×1920; sizes without a short ratio are shown as they are
+export function formatLabel(format: Format) {
+  const d = gcd(format.width, format.height);
+  return format.width / d <= 32 && format.height / d <= 32 ? `${format.width / d}:${format.height / d}` : `${format.width}×${format.height}`;
+}
+
+// The project with one of its compositions selected: its size for the preview and its id for renders
+export function viewComposition(project: Project, id: string | null): Project {
+  const composition = id ? project.compositions?.find(c => c.id === id) : undefined;
+  if (!composition || composition.id === project.compositionId) return project;
+  return { ...project, compositionId: composition.id, width: composition.width, height: composition.height };
+}
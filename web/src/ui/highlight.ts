@@ -0,0 +1,47 @@
+// Syntax highlighting for the code workspace: splits a TS/TSX/JSON source into runs of one token kind. Every
+// character lands in exactly one run, so joining the runs gives the source back and the highlighted layer lines
+// up with the textarea drawn over it. Lexing is approximate (template substitutions stay part of the template).
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'keyword' | 'number' | 'type' | 'punct';
+
+export type Run = { kind: TokenKind; text: string };
+
+const KEYWORDS = new Set([
+  'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in',
+  'instanceof', 'interface', 'let', 'new', 'null', 'of', 'private', 'public', 'readonly', 'return', 'static', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+]);
+
+// One alternative per kind; the first that matches at the current position wins
+const LEXER = /(\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|("(?:\\[\s\S]|[^"\\\n])*"?|'(?:\\[\s\S]|[^'\\\n])*'?|`(?:\\[\s\S]|[^`\\])*`?)|([A-Za-z_$][\w$]*)|(\d[\w.]*|\.\d[\w.]*)|([{}()[\]<>/=:;,.?!&|+\-*%^~@]+)|(\s+|[^])/y;
+
+export function highlight(source: string): Run[] {
+  const runs: Run[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = runs[runs.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else runs.push({ kind, text });
+  };
+  LEXER.lastIndex = 0;
+  for (let m = LEXER.exec(source); m; m = LEXER.exec(source)) {
+    if (m[1]) push('comment', m[1]);
+    else if (m[2]) push('string', m[2]);
+    else if (m[3]) push(KEYWORDS.has(m[3]) ? 'keyword' : /^[A-Z]/.test(m[3]) ? 'type' : 'plain', m[3]);
+    else if (m[4]) push('number', m[4]);
+    else if (m[5]) push('punct', m[5]);
+    else push('plain', m[6]);
+    if (LEXER.lastIndex >= source.length) break;
+  }
+  return runs;
+}
+
+export const TOKEN_COLORS: Record<TokenKind, string> = {
+  plain: '#e9eef5',
+  comment: '#6f7d92',
+  string: '#8fe3a0',
+  keyword: '#c792ea',
+  number: '#f78c6c',
+  type: '#82aaff',
+  punct: '#89ddff',
+};
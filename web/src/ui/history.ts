@@ -0,0 +1,126 @@
+import {useCallback, useEffect, useState} from 'react';
+import {ModelInput, Project, PromptSeg} from './types';
+
+// Project version history. Versions form a tree through parentId: recording while an older version is checked
+// out starts a new branch (a fork) instead of discarding what came after it. Persisted in localStorage.
+
+export type VersionSource = 'initial' | 'generate' | 'block' | 'refine' | 'import' | 'edit';
+
+export type Version = {
+  id: string;
+  parentId: string | null;
+  createdAt: number;
+  source: VersionSource;
+  label: string;
+  segments: PromptSeg[];
+  blocksUsed: { id: string; name: string }[];
+  model?: string;
+  provider?: string;
+  // Images and attachment text sent with the prompt (generations only)
+  inputs?: ModelInput[];
+  // Answered from the server's generation cache instead of the model
+  cached?: boolean;
+  project: Project;
+};
+
+export type HistoryState = {
+  versions: Version[];
+  currentId: string | null;
+  // Versions undone from, most recent last; redo walks back down the branch we came from
+  redoStack: string[];
+};
+
+const STORAGE_KEY = 'history_v1';
+const MAX_VERSIONS = 60;
+
+function load(): HistoryState {
+  try {
+    const s = localStorage.getItem(STORAGE_KEY);
+    if (s) {
+      const parsed = JSON.parse(s);
+      if (Array.isArray(parsed.versions)) return { versions: parsed.versions, currentId: parsed.currentId ?? null, redoStack: parsed.redoStack || [] };
+    }
+  } catch {}
+  return { versions: [], currentId: null, redoStack: [] };
+}
+
+function save(state: HistoryState) {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(state)); }
+  catch (e) { console.error('Failed to persist history', e); }
+}
+
+// Drop the oldest versions beyond the cap, keeping the checked-out version and its ancestors
+function prune(versions: Version[], currentId: string | null) {
+  if (versions.length <= MAX_VERSIONS) return versions;
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const keep = new Set<string>();
+  for (let v = currentId ? byId.get(currentId) : undefined; v; v = v.parentId ? byId.get(v.parentId) : undefined) keep.add(v.id);
+  const newest = [...versions].sort((a, b) => b.createdAt - a.createdAt);
+  for (const v of newest) { if (keep.size >= MAX_VERSIONS) break; keep.add(v.id); }
+  return versions.filter(v => keep.has(v.id)).map(v => (v.parentId && !keep.has(v.parentId) ? { ...v, parentId: null } : v));
+}
+
+export function versionDepth(versions: Version[], id: string) {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  let depth = 0;
+  for (let v = byId.get(id); v && v.parentId; v = byId.get(v.parentId)) depth++;
+  return depth;
+}
+
+export function useProjectHistory() {
+  const [state, setState] = useState<HistoryState>(load);
+  useEffect(() => { save(state); }, [state]);
+
+  const current = state.versions.find(v => v.id === state.currentId) || null;
+
+  // Record a new version as a child of the checked-out one. Identical consecutive projects are not recorded twice.
+  const record = useCallback((entry: Omit<Version, 'id' | 'parentId' | 'createdAt'>) => {
+    setState(prev => {
+      const parent = prev.versions.find(v => v.id === prev.currentId) || null;
+      if (parent && JSON.stringify([parent.project.files, parent.project.assets]) === JSON.stringify([entry.project.files, entry.project.assets])) return prev;
+      const version: Version = { ...entry, id: 'v_' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6), parentId: parent ? parent.id : null, createdAt: Date.now() };
+      return { versions: prune([...prev.versions, version], version.id), currentId: version.id, redoStack: [] };
+    });
+  }, []);
+
+  // Record a version as a child of the checked-out one without checking it out (variants of one generation become
+  // siblings). Returns the new version's id.
+  const recordBranch = useCallback((entry: Omit<Version, 'id' | 'parentId' | 'createdAt'>) => {
+    const id = 'v_' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+    setState(prev => {
+      const version: Version = { ...entry, id, parentId: prev.currentId, createdAt: Date.now() };
+      return { ...prev, versions: prune([...prev.versions, version], prev.currentId) };
+    });
+    return id;
+  }, []);
+
+  const checkout = useCallback((id: string) => {
+    setState(prev => prev.versions.some(v => v.id === id) ? { ...prev, currentId: id, redoStack: [] } : prev);
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      const cur = prev.versions.find(v => v.id === prev.currentId);
+      if (!cur || !cur.parentId) return prev;
+      return { ...prev, currentId: cur.parentId, redoStack: [...prev.redoStack, cur.id] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => {
+      const next = prev.redoStack[prev.redoStack.length - 1];
+      if (!next) return prev;
+      return { ...prev, currentId: next, redoStack: prev.redoStack.slice(0, -1) };
+    });
+  }, []);
+
+  const clear = useCallback(() => setState({ versions: [], currentId: null, redoStack: [] }), []);
+
+  return {
+    versions: state.versions,
+    current,
+    canUndo: Boolean(current && current.parentId),
+    canRedo: state.redoStack.length > 0,
+    record, recordBranch, checkout, undo, redo, clear,
+  };
+}
@@ -0,0 +1,38 @@
+// Images the model receives (the guidance image, image attachments of blocks) are downscaled here to the server's
+// IMAGE_MAX_SIDE before they are sent: the server only decodes PNGs and skips other images over the limit.
+
+export const DEFAULT_IMAGE_MAX_SIDE = 1568;
+
+// Formats a canvas can draw; SVG has no pixel size to reduce and is left as it is
+const RASTER = /^image\/(png|jpeg|webp|gif|bmp)$/i;
+
+function readDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// A data URL of the image no larger than maxSide on either side. JPEGs stay JPEGs; other formats become PNGs
+// (an animated GIF keeps its first frame).
+export async function imageDataUrl(file: Blob, maxSide = DEFAULT_IMAGE_MAX_SIDE): Promise<string> {
+  if (!RASTER.test(file.type)) return readDataUrl(file);
+  const bitmap = await createImageBitmap(file).catch(() => null);
+  if (!bitmap) return readDataUrl(file);
+  try {
+    const scale = maxSide / Math.max(bitmap.width, bitmap.height);
+    if (scale >= 1) return readDataUrl(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return readDataUrl(file);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return /jpeg/i.test(file.type) ? canvas.toDataURL('image/jpeg', 0.9) : canvas.toDataURL('image/png');
+  } finally {
+    bitmap.close();
+  }
+}
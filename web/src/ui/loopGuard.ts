@@ -0,0 +1,126 @@
+// Runaway-loop protection for generated code. Every `while`, `do … while` and classic `for` condition in a
+// transpiled module is prefixed with a call to LOOP_GUARD, which throws once the current task has spent more
+// than the time budget inside guarded loops. `for … in` / `for … of` walk finite collections and are left alone.
+// Insertions never add line breaks, so line numbers in stack traces keep matching the source.
+
+export const LOOP_GUARD = '__vbLoopGuard';
+
+export class LoopLimitError extends Error {
+  constructor(ms: number) {
+    super(`A loop ran for more than ${ms} ms without finishing and was stopped`);
+    this.name = 'LoopLimitError';
+  }
+}
+
+// The clock starts at the first guarded iteration of a task and is reset by a timer that can only run once the
+// task has yielded, so a loop that keeps the thread busy sees an ever-growing elapsed time.
+export function createLoopGuard(budgetMs: number) {
+  let started = 0;
+  let armed = false;
+  let count = 0;
+  return () => {
+    if (!armed) {
+      armed = true;
+      started = performance.now();
+      setTimeout(() => { armed = false; }, 0);
+    }
+    if ((++count & 1023) === 0 && performance.now() - started > budgetMs) throw new LoopLimitError(budgetMs);
+    return true;
+  };
+}
+
+// Tokens after which a `/` starts a regular expression rather than a division
+const REGEX_AFTER = new Set(['', '(', ',', '=', ':', '[', '!', '&', '|', '?', '{', '}', ';', '+', '-', '*', '%', '<', '>', '~', '^',
+  'return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw', 'yield', 'await']);
+
+type Open = { char: string; loop?: 'for' | 'while'; at: number; semicolons: number[] };
+
+export function instrumentLoops(js: string) {
+  const inserts: { at: number; text: string }[] = [];
+  const stack: Open[] = [];
+  let pendingLoop: 'for' | 'while' | null = null;
+  let last = '';
+  let i = 0;
+
+  // Skips a template literal body starting after the opening backtick; returns true if it stopped at `${`
+  const skipTemplate = () => {
+    while (i < js.length) {
+      const c = js[i];
+      if (c === '\\') { i += 2; continue; }
+      if (c === '`') { i++; return false; }
+      if (c === '$' && js[i + 1] === '{') { i += 2; return true; }
+      i++;
+    }
+    return false;
+  };
+
+  while (i < js.length) {
+    const c = js[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (c === '/' && js[i + 1] === '/') { while (i < js.length && js[i] !== '\n') i++; continue; }
+    if (c === '/' && js[i + 1] === '*') { const end = js.indexOf('*/', i + 2); i = end === -1 ? js.length : end + 2; continue; }
+    if (c === '"' || c === "'") {
+      i++;
+      while (i < js.length && js[i] !== c && js[i] !== '\n') i += js[i] === '\\' ? 2 : 1;
+      i++; last = 'value'; pendingLoop = null; continue;
+    }
+    if (c === '`') {
+      i++;
+      if (skipTemplate()) stack.push({ char: '${', at: i, semicolons: [] });
+      last = 'value'; pendingLoop = null; continue;
+    }
+    if (c === '/' && REGEX_AFTER.has(last)) {
+      i++;
+      let inClass = false;
+      while (i < js.length && js[i] !== '\n') {
+        if (js[i] === '\\') { i += 2; continue; }
+        if (js[i] === '[') inClass = true;
+        else if (js[i] === ']') inClass = false;
+        else if (js[i] === '/' && !inClass) break;
+        i++;
+      }
+      i++;
+      while (i < js.length && /\w/.test(js[i])) i++;
+      last = 'value'; pendingLoop = null; continue;
+    }
+    if (/[\w$]/.test(c)) {
+      const start = i;
+      while (i < js.length && /[\w$]/.test(js[i])) i++;
+      const word = js.slice(start, i);
+      if (pendingLoop === 'for' && word === 'await') continue; // for await (… of …)
+      pendingLoop = (word === 'for' || word === 'while') && last !== '.' ? word : null;
+      last = /^\d/.test(word) ? 'value' : word;
+      continue;
+    }
+    if (c === '(' || c === '[' || c === '{') {
+      stack.push({ char: c, loop: c === '(' && pendingLoop ? pendingLoop : undefined, at: i, semicolons: [] });
+    } else if (c === ')' || c === ']' || c === '}') {
+      const open = stack.pop();
+      if (open?.char === '${') {
+        i++;
+        if (skipTemplate()) stack.push({ char: '${', at: i, semicolons: [] });
+        last = 'value'; pendingLoop = null; continue;
+      }
+      if (open?.loop === 'while') {
+        inserts.push({ at: open.at + 1, text: `${LOOP_GUARD}() && (` }, { at: i, text: ')' });
+      } else if (open?.loop === 'for' && open.semicolons.length === 2) {
+        const [first, second] = open.semicolons;
+        if (js.slice(first + 1, second).trim()) inserts.push({ at: first + 1, text: ` ${LOOP_GUARD}() && (` }, { at: second, text: ')' });
+        else inserts.push({ at: first + 1, text: ` ${LOOP_GUARD}()` });
+      }
+    } else if (c === ';') {
+      const top = stack[stack.length - 1];
+      if (top?.loop === 'for') top.semicolons.push(i);
+    }
+    last = c;
+    pendingLoop = null;
+    i++;
+  }
+
+  if (!inserts.length) return js;
+  inserts.sort((a, b) => a.at - b.at);
+  let out = '';
+  let from = 0;
+  for (const { at, text } of inserts) { out += js.slice(from, at) + text; from = at; }
+  return out + js.slice(from);
+}
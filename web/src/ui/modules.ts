@@ -0,0 +1,103 @@
+import {transpileTSX} from './transpile';
+
+// In-browser module graph for generated projects: resolves relative imports across project.files,
+// compiles and evaluates every module once, and tolerates import cycles the way CommonJS does
+// (a module that is still evaluating hands out its partially filled exports).
+
+export type ModulePhase = 'resolve' | 'compile' | 'evaluate';
+
+export class ModuleError extends Error {
+  file: string;
+  phase: ModulePhase;
+  // The original error, whose stack still points into the failing module
+  cause?: any;
+  constructor(file: string, phase: ModulePhase, message: string, cause?: any) {
+    super(message);
+    this.name = 'ModuleError';
+    this.file = file;
+    this.phase = phase;
+    this.cause = cause;
+  }
+}
+
+const extensions = ['.tsx', '.ts', '.jsx', '.js', '.json'];
+
+function dirname(file: string) {
+  const i = file.lastIndexOf('/');
+  return i === -1 ? '' : file.slice(0, i);
+}
+
+function normalize(p: string) {
+  const out: string[] = [];
+  for (const part of p.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') out.pop();
+    else out.push(part);
+  }
+  return out.join('/');
+}
+
+// Resolve a relative specifier against the importing file: exact match, then known extensions, then index files.
+export function resolveImport(files: Record<string, string>, from: string, spec: string): string | null {
+  const base = normalize(spec.startsWith('/') ? spec : dirname(from) + '/' + spec);
+  const candidates = [base, ...extensions.map(ext => base + ext), ...extensions.map(ext => base + '/index' + ext)];
+  return candidates.find(c => typeof files[c] === 'string') || null;
+}
+
+export function isRelativeSpecifier(spec: string) {
+  return spec.startsWith('./') || spec.startsWith('../') || spec.startsWith('/') || spec === '.' || spec === '..';
+}
+
+type Module = { exports: any };
+
+// `instrument` may rewrite each transpiled module before it is evaluated, as long as it keeps line numbers intact
+export function loadProjectModule(files: Record<string, string>, entry: string, externals: Record<string, any>, instrument?: (js: string) => string) {
+  const cache = new Map<string, Module>();
+  const React = externals['react'];
+  const Remotion = externals['remotion'];
+
+  const load = (file: string): any => {
+    const cached = cache.get(file);
+    if (cached) return cached.exports;
+    const module: Module = { exports: {} };
+    cache.set(file, module);
+    const source = files[file];
+
+    if (file.endsWith('.json')) {
+      try { module.exports = JSON.parse(source); }
+      catch (e: any) { throw new ModuleError(file, 'compile', e?.message || String(e)); }
+      return module.exports;
+    }
+
+    let fn: Function;
+    try {
+      const compiled = transpileTSX(source, file);
+      const js = instrument ? instrument(compiled) : compiled;
+      fn = new Function('exports', 'require', 'module', 'React', 'Remotion', js + '\n//# sourceURL=' + file);
+    } catch (e: any) {
+      throw new ModuleError(file, 'compile', e?.message || String(e), e);
+    }
+
+    const require = (spec: string) => {
+      if (!isRelativeSpecifier(spec)) {
+        if (spec in externals) return externals[spec];
+        throw new ModuleError(file, 'resolve', `Cannot resolve package '${spec}'`);
+      }
+      const target = resolveImport(files, file, spec);
+      if (!target) throw new ModuleError(file, 'resolve', `Cannot resolve '${spec}'`);
+      return load(target);
+    };
+
+    try {
+      fn(module.exports, require, module, React, Remotion);
+    } catch (e: any) {
+      // Errors raised by a nested import already name the file that failed
+      if (e instanceof ModuleError) throw e;
+      throw new ModuleError(file, 'evaluate', e?.message || String(e), e);
+    }
+    return module.exports;
+  };
+
+  if (typeof files[entry] !== 'string') throw new ModuleError(entry, 'resolve', 'Entry file not found');
+  return load(entry);
+}
@@ -0,0 +1,131 @@
+import {ParamDef, ParamType} from './types';
+
+// Block parameter values: every value a user enters goes through coerceParamValue before it is previewed or sent
+// to /api/generate, so the model and the bound props only ever see values of the declared type.
+
+export const PARAM_TYPES: ParamType[] = ['color', 'text', 'number', 'select', 'boolean', 'font', 'easing', 'duration', 'image'];
+
+export const EASINGS = ['linear', 'ease', 'ease-in', 'ease-out', 'ease-in-out', 'cubic-bezier(0.34, 1.56, 0.64, 1)'];
+
+export const FONT_FAMILIES = ['Inter, sans-serif', 'Helvetica, Arial, sans-serif', 'Georgia, serif', '"Times New Roman", serif', 'ui-monospace, Menlo, monospace', '"Courier New", monospace', 'system-ui, sans-serif', 'Impact, sans-serif'];
+
+// Control points of the named CSS easings (for the curve preview and for checking cubic-bezier values)
+export const EASING_POINTS: Record<string, [number, number, number, number]> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+export type Coerced = { value: any; error?: string };
+
+export function easingPoints(value: string): [number, number, number, number] | null {
+  if (EASING_POINTS[value]) return EASING_POINTS[value];
+  const m = /^cubic-bezier\(\s*([^,]+),\s*([^,]+),\s*([^,]+),\s*([^)]+)\)$/.exec(value.trim());
+  if (!m) return null;
+  const points = m.slice(1).map(Number) as [number, number, number, number];
+  if (points.some(n => !Number.isFinite(n)) || points[0] < 0 || points[0] > 1 || points[2] < 0 || points[2] > 1) return null;
+  return points;
+}
+
+function clampNumber(param: ParamDef, n: number) {
+  let v = n;
+  if (typeof param.min === 'number') v = Math.max(param.min, v);
+  if (typeof param.max === 'number') v = Math.min(param.max, v);
+  if (typeof param.step === 'number' && param.step > 0) {
+    const base = typeof param.min === 'number' ? param.min : 0;
+    v = +(base + Math.round((v - base) / param.step) * param.step).toFixed(6);
+  }
+  return v;
+}
+
+// Bring a raw editor or token value to the param's type. When that is impossible the default is returned with an error.
+export function coerceParamValue(param: ParamDef, raw: any): Coerced {
+  const value = raw === undefined || raw === null || (raw === '' && param.type !== 'text') ? param.default : raw;
+  const fail = (error: string): Coerced => ({ value: param.default, error: `${param.label || param.key}: ${error}` });
+  switch (param.type) {
+    case 'number':
+    case 'duration': {
+      const n = typeof value === 'number' ? value : Number(String(value).trim().replace(/s$/, ''));
+      if (!Number.isFinite(n)) return fail('expected a number');
+      if (param.type === 'duration' && n < 0) return fail('a duration cannot be negative');
+      return { value: clampNumber(param, n) };
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return { value };
+      if (value === 'true' || value === 1 || value === '1') return { value: true };
+      if (value === 'false' || value === 0 || value === '0') return { value: false };
+      return fail('expected true or false');
+    case 'color': {
+      const s = String(value).trim();
+      if (/^#[0-9a-f]{6}$/i.test(s)) return { value: s.toLowerCase() };
+      if (/^#[0-9a-f]{3}$/i.test(s)) return { value: ('#' + s.slice(1).split('').map(c => c + c).join('')).toLowerCase() };
+      return fail('expected a hex color like #6ea8fe');
+    }
+    case 'select': {
+      const options = param.options || [];
+      const s = String(value);
+      return options.includes(s) ? { value: s } : fail(`expected one of ${options.join(', ') || '(no options)'}`);
+    }
+    case 'font': {
+      const s = String(value).trim();
+      return s && !/[;{}<>]/.test(s) ? { value: s } : fail('expected a CSS font-family');
+    }
+    case 'easing': {
+      const s = String(value).trim();
+      return easingPoints(s) ? { value: s } : fail(`expected ${Object.keys(EASING_POINTS).join(', ')} or cubic-bezier(x1, y1, x2, y2)`);
+    }
+    case 'image': {
+      const s = String(value ?? '').trim();
+      if (!s) return { value: '' };
+      // A remote URL or a file under public/ (used with staticFile). Data URLs would travel inside prompts and code.
+      if (s.startsWith('data:')) return fail('upload the image as a project asset instead of an inline data URL');
+      return /^https?:\/\//.test(s) || /^[\w./-]+\.(png|jpe?g|gif|webp|svg|avif)$/i.test(s) ? { value: s } : fail('expected an image URL or a public/ file name');
+    }
+    default:
+      return { value: String(value) };
+  }
+}
+
+export function validateParamValues(params: ParamDef[], values: Record<string, any>) {
+  const out: Record<string, any> = {};
+  const errors: string[] = [];
+  for (const p of params) {
+    const { value, error } = coerceParamValue(p, values[p.key]);
+    out[p.key] = value;
+    if (error) errors.push(error);
+  }
+  return { values: out, errors };
+}
+
+// A param as blocks written before typed params stored it ({ name?, type, explain? } from the model): unknown types
+// and selects without options become text, explain templates without {value} and invalid ranges are replaced
+export function normalizeLegacyParam(raw: any): ParamDef & { explain?: string } {
+  const key = String(raw?.key || raw?.name || 'value');
+  const options = Array.isArray(raw?.options) ? raw.options.filter((o: any) => typeof o === 'string') : [];
+  const type: ParamType = !PARAM_TYPES.includes(raw?.type) || (raw.type === 'select' && !options.length) ? 'text' : raw.type;
+  const number = (v: any) => (typeof v === 'number' && isFinite(v) ? v : undefined);
+  const { name: _name, options: _options, min, max, step, explain, ...rest } = raw || {};
+  return {
+    ...rest,
+    key,
+    label: String(raw?.label || raw?.name || key),
+    type,
+    ...(type === 'select' ? { options } : {}),
+    ...(number(min) !== undefined ? { min } : {}),
+    ...(number(max) !== undefined ? { max } : {}),
+    ...(number(step) !== undefined ? { step } : {}),
+    explain: typeof explain === 'string' && explain.includes('{value}') ? explain : `set ${key} to {value}`,
+  };
+}
+
+// Short text for chips and summaries
+export function formatParamValue(param: ParamDef, value: any) {
+  const v = value ?? param.default;
+  if (param.type === 'boolean') return v ? 'on' : 'off';
+  if (param.type === 'duration') return `${v}${param.unit || 's'}`;
+  if (param.type === 'image') return String(v ?? '').startsWith('data:') ? 'uploaded image' : String(v ?? '').split('/').pop() || '';
+  if (param.type === 'number' && param.unit) return `${v}${param.unit}`;
+  return String(v ?? '');
+}
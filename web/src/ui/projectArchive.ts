@@ -0,0 +1,211 @@
+import JSZip from 'jszip';
+import {Block, ParamDef, Project, ProjectComposition, PromptSeg} from './types';
+import {apiFetch} from './apiFetch';
+import {assetBlob, inlineAssets, uploadAsset} from './assetApi';
+import {BlockPack, createBlockPack, readBlockPack} from './blockPack';
+import {readCaptions, toSrt, toVtt} from './captions';
+
+// Project archives: a ZIP that runs as it is (`npm install && npx remotion studio`) and loads back into the app.
+//
+//   package.json, tsconfig.json, remotion.config.ts   the remotion-studio scaffold (GET /api/scaffold)
+//   src/**, public/**                                 project.files and project.assets
+//   visublocks.json                                   ProjectManifest: composition settings, prompt, block definitions
+//   captions.srt, captions.vtt                        the caption track as subtitle files, when src/captions.json has cues
+//
+// Import takes such a ZIP, or any remotion-studio-style folder: without a manifest the composition settings are
+// read from src/Root.tsx.
+
+export const MANIFEST_FILE = 'visublocks.json';
+export const MANIFEST_FORMAT = 'visublocks.project';
+
+export type ProjectManifest = {
+  format: typeof MANIFEST_FORMAT;
+  version: 1;
+  exportedAt: string;
+  compositionId: string;
+  width: number; height: number; fps: number; durationInFrames: number;
+  // Every composition of src/Root.tsx when the project was adapted to more output formats
+  compositions?: ProjectComposition[];
+  props?: ParamDef[];
+  prompt: { text: string; segments: PromptSeg[] };
+  // Definitions of the blocks the prompt uses, as a block pack
+  blocks?: BlockPack;
+  assets?: Record<string, { type: string; size?: number }>;
+};
+
+export type ArchiveEntry = { path: string; read: () => Promise<Blob> };
+
+export type ImportedProject = {
+  project: Project;
+  manifest: ProjectManifest | null;
+  // What could not be imported as it was, for the user
+  notes: string[];
+};
+
+const SOURCE_FILE = /\.(tsx?|jsx?|json|css|md)$/;
+const MAX_SOURCE_FILES = 400;
+const MAX_SOURCE_BYTES = 2 * 1024 * 1024;
+const SKIPPED_DIRS = /(^|\/)(node_modules|\.git|out|__MACOSX)\//;
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'remotion-project';
+
+function packageJson(scaffold: string | undefined, name: string, compositionId: string) {
+  let pkg: any = {};
+  try { pkg = JSON.parse(scaffold || '{}'); } catch {}
+  const scripts: Record<string, string> = { ...(pkg.scripts || {}) };
+  for (const key of Object.keys(scripts)) scripts[key] = scripts[key].replace(/\bMyComp\b/g, compositionId);
+  return JSON.stringify({ ...pkg, name, scripts: { studio: 'remotion studio', ...scripts } }, null, 2) + '\n';
+}
+
+function readme(name: string, project: Project, manifest: ProjectManifest) {
+  const compositions = project.compositions || [{ id: project.compositionId, width: project.width, height: project.height }];
+  return `${name}
+${'='.repeat(name.length)}
+
+Remotion project exported from VisuBlocks.
+
+- npm install
+- npx remotion studio            (preview)
+${compositions.map(c => `- npx remotion render ${c.id} out/${compositions.length > 1 ? c.id : 'video'}.mp4`).join('\n')}
+
+${compositions.map(c => `Composition "${c.id}": ${c.width}×${c.height}, ${project.fps} fps, ${project.durationInFrames} frames.`).join('\n')}
+${manifest.prompt.text ? `\nPrompt:\n${manifest.prompt.text}\n` : ''}
+${MANIFEST_FILE} lets the app import this project again (Import Project).
+${readCaptions(project)?.cues.length ? '\nThe video burns in the captions of src/captions.json; captions.srt and captions.vtt hold the same cues for players.\n' : ''}`;
+}
+
+export async function exportProjectArchive(project: Project, { segments, promptText, blocks }: { segments: PromptSeg[]; promptText: string; blocks: Block[] }) {
+  const resp = await apiFetch('/api/scaffold');
+  if (!resp.ok) throw new Error('Could not load the project scaffold: ' + resp.status);
+  const scaffold: Record<string, string> = (await resp.json()).files || {};
+  const name = slug(promptText.split('\n')[0] || project.compositionId);
+  const used = blocks.filter(b => segments.some(s => s.type === 'block' && s.blockId === b.def.id));
+  const manifest: ProjectManifest = {
+    format: MANIFEST_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    compositionId: project.compositionId,
+    width: project.width, height: project.height, fps: project.fps, durationInFrames: project.durationInFrames,
+    ...(project.compositions ? { compositions: project.compositions } : {}),
+    ...(project.props ? { props: project.props } : {}),
+    prompt: { text: promptText, segments },
+    ...(used.length ? { blocks: createBlockPack(await Promise.all(used.map(async b => b.project.assets ? { ...b, project: { ...b.project, assets: await inlineAssets(b.project.assets) } } : b)), name) } : {}),
+    ...(project.assets ? { assets: Object.fromEntries(Object.entries(project.assets).map(([path, a]) => [path, { type: a.type, ...(a.size ? { size: a.size } : {}) }])) } : {}),
+  };
+
+  const zip = new JSZip();
+  for (const [file, content] of Object.entries(scaffold)) zip.file(file, file === 'package.json' ? packageJson(content, name, project.compositionId) : content);
+  zip.file('.gitignore', 'node_modules/\nout/\n');
+  zip.file('README.md', readme(name, project, manifest));
+  for (const [file, content] of Object.entries(project.files)) zip.file(file, content);
+  for (const [file, asset] of Object.entries(project.assets || {})) zip.file(file, await (await assetBlob(asset)).arrayBuffer());
+  const cues = readCaptions(project)?.cues || [];
+  if (cues.length) {
+    zip.file('captions.srt', toSrt(cues));
+    zip.file('captions.vtt', toVtt(cues));
+  }
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2) + '\n');
+  return { blob: await zip.generateAsync({ type: 'blob' }), fileName: `${name}.zip` };
+}
+
+export async function zipEntries(file: Blob): Promise<ArchiveEntry[]> {
+  const zip = await JSZip.loadAsync(file);
+  return Object.values(zip.files).filter(f => !f.dir).map(f => ({ path: f.name, read: () => f.async('blob') }));
+}
+
+// Files picked with <input webkitdirectory>, whose paths start with the chosen folder's name
+export function folderEntries(files: FileList | File[]): ArchiveEntry[] {
+  return Array.from(files).map(f => ({ path: f.webkitRelativePath || f.name, read: async () => f }));
+}
+
+// Settings of the first <Composition> in a Root file
+function parseComposition(root: string) {
+  const tag = /<Composition\b([\s\S]*?)\/>/.exec(root)?.[1];
+  if (!tag) return null;
+  const num = (key: string) => { const m = new RegExp(`\\b${key}=\\{\\s*(\\d+)\\s*\\}`).exec(tag); return m ? Number(m[1]) : undefined; };
+  return {
+    compositionId: /\bid=["']([^"']+)["']/.exec(tag)?.[1],
+    width: num('width'), height: num('height'), fps: num('fps'), durationInFrames: num('durationInFrames'),
+  };
+}
+
+function readManifest(text: string, notes: string[]): ProjectManifest | null {
+  try {
+    const m = JSON.parse(text);
+    if (m?.format === MANIFEST_FORMAT) return m;
+    notes.push(`${MANIFEST_FILE} is not a project manifest and was ignored`);
+  } catch { notes.push(`${MANIFEST_FILE} is not valid JSON and was ignored`); }
+  return null;
+}
+
+export async function readProjectArchive(entries: ArchiveEntry[]): Promise<ImportedProject> {
+  const list = entries.map(e => ({ ...e, path: e.path.replace(/\\/g, '/').replace(/^\.?\//, '') })).filter(e => !SKIPPED_DIRS.test(e.path));
+  // The project root is the folder holding src/index.ts; archives often wrap everything in one top-level folder
+  const entry = list.filter(e => /(^|\/)src\/index\.ts$/.test(e.path)).sort((a, b) => a.path.length - b.path.length)[0];
+  if (!entry) throw new Error('No src/index.ts found. Import a project ZIP exported by the app or a Remotion project folder.');
+  const root = entry.path.slice(0, -'src/index.ts'.length);
+  const notes: string[] = [];
+  const files: Record<string, string> = {};
+  const media: ArchiveEntry[] = [];
+  let manifest: ProjectManifest | null = null;
+  let skipped = 0;
+
+  for (const e of list) {
+    if (!e.path.startsWith(root)) continue;
+    const rel = e.path.slice(root.length);
+    if (rel === MANIFEST_FILE) manifest = readManifest(await (await e.read()).text(), notes);
+    else if (rel.startsWith('public/')) media.push({ ...e, path: rel });
+    else if (rel.startsWith('src/') && SOURCE_FILE.test(rel)) {
+      if (Object.keys(files).length >= MAX_SOURCE_FILES) { skipped++; continue; }
+      const blob = await e.read();
+      if (blob.size > MAX_SOURCE_BYTES) notes.push(`${rel} is larger than ${MAX_SOURCE_BYTES / 1024 / 1024} MB and was skipped`);
+      else files[rel] = await blob.text();
+    }
+  }
+  if (skipped) notes.push(`Only the first ${MAX_SOURCE_FILES} source files were imported (${skipped} skipped)`);
+  if (typeof files['src/Root.tsx'] !== 'string') throw new Error('No src/Root.tsx found next to src/index.ts.');
+
+  const parsed = parseComposition(files['src/Root.tsx']);
+  if (!manifest && !parsed) notes.push('No <Composition> found in src/Root.tsx; using 1920×1080, 30 fps, 150 frames');
+  const settings = {
+    compositionId: manifest?.compositionId || parsed?.compositionId || 'MyComp',
+    width: manifest?.width || parsed?.width || 1920,
+    height: manifest?.height || parsed?.height || 1080,
+    fps: manifest?.fps || parsed?.fps || 30,
+    durationInFrames: manifest?.durationInFrames || parsed?.durationInFrames || 150,
+  };
+
+  // The preview plays src/MyComp.tsx; point it at the composition's component when the project names it otherwise
+  if (typeof files['src/MyComp.tsx'] !== 'string') {
+    const component = /<Composition\b[\s\S]*?\bcomponent=\{\s*([A-Za-z_$][\w$]*)\s*\}/.exec(files['src/Root.tsx'])?.[1];
+    const from = component && new RegExp(`import\\s*\\{[^}]*\\b${component}\\b[^}]*\\}\\s*from\\s*['"](\\./[^'"]+)['"]`).exec(files['src/Root.tsx'])?.[1];
+    if (!component || !from) throw new Error('No src/MyComp.tsx, and the component of the composition in src/Root.tsx could not be found.');
+    files['src/MyComp.tsx'] = `// Added on import: the app previews src/MyComp.tsx\nexport {${component} as MyComp} from '${from}';\n`;
+    notes.push(`Added src/MyComp.tsx, which re-exports ${component} for the preview`);
+  }
+
+  const assets: NonNullable<Project['assets']> = {};
+  for (const e of media) {
+    const blob = await e.read();
+    const type = manifest?.assets?.[e.path]?.type || blob.type;
+    try { assets[e.path] = await uploadAsset(new File([blob], e.path.split('/').pop()!, { type })); }
+    catch (err: any) { notes.push(`${e.path} was not imported: ${err?.message || err}`); }
+  }
+
+  if (manifest?.blocks) {
+    try { manifest = { ...manifest, blocks: readBlockPack(JSON.stringify(manifest.blocks)) }; }
+    catch (err: any) { notes.push(`The block definitions in ${MANIFEST_FILE} were ignored: ${err.message}`); manifest = { ...manifest, blocks: undefined }; }
+  }
+
+  const project: Project = {
+    kind: 'remotion-project',
+    files,
+    ...settings,
+    // Only compositions that are still in src/Root.tsx; edits made outside the app may have removed some
+    ...(manifest?.compositions?.length && manifest.compositions.every(c => [`"${c.id}"`, `'${c.id}'`].some(id => files['src/Root.tsx'].includes(id)) && typeof files[c.file] === 'string')
+      ? { compositions: manifest.compositions } : {}),
+    ...(manifest?.props ? { props: manifest.props } : {}),
+    ...(Object.keys(assets).length ? { assets } : {}),
+  };
+  return { project, manifest, notes };
+}
@@ -0,0 +1,55 @@
+import {Project} from './types';
+
+// Messages between the app and the preview sandbox (sandbox.html, an iframe with sandbox="allow-scripts").
+// The frame has an opaque origin, so both sides post with targetOrigin '*' and identify each other by
+// `event.source` plus the channel tag.
+
+export const SANDBOX_CHANNEL = 'visublocks-sandbox';
+// The frame reports in this often; the app treats a frame that misses HANG_AFTER_MS worth of beats as hung
+export const HEARTBEAT_MS = 500;
+export const HANG_AFTER_MS = 4000;
+// Longest a generated loop may keep the frame busy before the loop guard throws
+export const LOOP_BUDGET_MS = 1500;
+
+// The frame cannot fetch anything (connect-src 'none'), so the app sends the project's assets as Blobs, keyed by
+// their public/ path; the frame serves them to staticFile() through blob: URLs.
+// entry is the component to play, src/MyComp.tsx's MyComp when not given
+export type SandboxProject = Pick<Project, 'files' | 'width' | 'height' | 'fps' | 'durationInFrames'> & { assets?: Record<string, Blob>; entry?: { file: string; component: string } };
+
+export type PlayerOptions = { controls?: boolean; loop?: boolean; autoPlay?: boolean; showPlaybackRateControl?: boolean };
+
+// 'loop' = stopped by the loop guard, 'hang' = the frame stopped answering and was replaced
+export type SandboxErrorPhase = 'resolve' | 'compile' | 'evaluate' | 'render' | 'runtime' | 'loop' | 'hang';
+
+export type SandboxError = {
+  phase: SandboxErrorPhase;
+  message: string;
+  // Position in the project's source files, when the error could be traced back to one
+  file?: string;
+  line?: number;
+  column?: number;
+};
+
+export type ToSandbox =
+  | { channel: typeof SANDBOX_CHANNEL; type: 'load'; project: SandboxProject; inputProps: Record<string, any>; options: PlayerOptions }
+  | { channel: typeof SANDBOX_CHANNEL; type: 'props'; inputProps: Record<string, any> };
+
+export type FromSandbox =
+  | { channel: typeof SANDBOX_CHANNEL; type: 'ready' }
+  | { channel: typeof SANDBOX_CHANNEL; type: 'heartbeat' }
+  | { channel: typeof SANDBOX_CHANNEL; type: 'loaded' }
+  | { channel: typeof SANDBOX_CHANNEL; type: 'error'; error: SandboxError };
+
+export function isSandboxMessage(data: any): boolean {
+  return !!data && typeof data === 'object' && data.channel === SANDBOX_CHANNEL && typeof data.type === 'string';
+}
+
+type WithoutChannel<T> = T extends unknown ? Omit<T, 'channel'> : never;
+
+export function postToSandbox(frame: Window, message: WithoutChannel<ToSandbox>) {
+  frame.postMessage({ channel: SANDBOX_CHANNEL, ...message }, '*');
+}
+
+export function postFromSandbox(message: WithoutChannel<FromSandbox>) {
+  window.parent.postMessage({ channel: SANDBOX_CHANNEL, ...message }, '*');
+}
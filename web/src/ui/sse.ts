@@ -0,0 +1,33 @@
+// Minimal Server-Sent Events reader for fetch responses (EventSource cannot POST a body or be aborted per request)
+
+export type StreamEvent = { event: string; data: any };
+
+export async function readEventStream(resp: Response, onEvent: (e: StreamEvent) => void) {
+  if (!resp.body) throw new Error('Response has no body to stream');
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const flush = (chunk: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of chunk.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    if (!data.length) return;
+    let parsed: any = data.join('\n');
+    try { parsed = JSON.parse(parsed); } catch {}
+    onEvent({ event, data: parsed });
+  };
+  while (true) {
+    const {done, value} = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, {stream: true}).replace(/\r\n/g, '\n');
+    let sep;
+    while ((sep = buffer.indexOf('\n\n')) !== -1) {
+      flush(buffer.slice(0, sep));
+      buffer = buffer.slice(sep + 2);
+    }
+  }
+  if (buffer.trim()) flush(buffer);
+}
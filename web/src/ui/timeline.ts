@@ -0,0 +1,166 @@
+// Static timeline of a composition: finds the <Sequence> / <Series> / <Series.Sequence> elements in a source
+// file, works out where each one starts and how long it runs, and rewrites their numeric props. Only numeric
+// literals are edited; a prop written as an expression (e.g. `from={i * 30}`) leaves the clip read-only.
+
+export type NumericProp = { start: number; end: number; value: number }; // offsets of the literal in the source
+export type PropValue = NumericProp | 'expression';
+export type TimingProp = 'from' | 'durationInFrames' | 'offset';
+
+export type TimelineClip = {
+  id: number;
+  kind: 'sequence' | 'series-item';
+  label: string;
+  depth: number;
+  // Where new props are inserted (just after the tag name)
+  insertAt: number;
+  // Absolute frames; null when they depend on expressions. An open-ended duration runs to the end of the parent.
+  start: number | null;
+  duration: number | null;
+  // Start of the frame `from` / `offset` is relative to
+  origin: number | null;
+  props: Partial<Record<TimingProp, PropValue>>;
+};
+
+type Scope = { kind: 'sequence' | 'series'; clip?: TimelineClip; cursor?: number | null; end: number | null };
+
+const TAG = /<(\/?)(Series\.Sequence|Sequence|Series)(?![\w.$])/g;
+
+// Index of the `>` that closes the opening tag starting at `from`, skipping braces and strings
+function tagEnd(source: string, from: number) {
+  let depth = 0;
+  for (let i = from; i < source.length; i++) {
+    const c = source[i];
+    if (c === '"' || c === "'" || c === '`') {
+      const close = source.indexOf(c, i + 1);
+      if (close === -1) return -1;
+      i = close;
+    } else if (c === '{') depth++;
+    else if (c === '}') depth--;
+    else if (c === '>' && depth === 0) return i;
+  }
+  return -1;
+}
+
+// name="…" and name={…} attributes of an opening tag body
+function readAttributes(source: string, from: number, to: number) {
+  const attrs: Record<string, { text: string; start: number; end: number; braced: boolean }> = {};
+  const re = /([A-Za-z_$][\w$]*)\s*=\s*/g;
+  re.lastIndex = from;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(source)) && m.index < to) {
+    const valueStart = re.lastIndex;
+    const open = source[valueStart];
+    if (open === '"' || open === "'") {
+      const close = source.indexOf(open, valueStart + 1);
+      attrs[m[1]] = { text: source.slice(valueStart + 1, close), start: valueStart + 1, end: close, braced: false };
+      re.lastIndex = close + 1;
+    } else if (open === '{') {
+      let depth = 0, i = valueStart;
+      for (; i < to; i++) {
+        if (source[i] === '{') depth++;
+        else if (source[i] === '}' && --depth === 0) break;
+      }
+      attrs[m[1]] = { text: source.slice(valueStart + 1, i), start: valueStart + 1, end: i, braced: true };
+      re.lastIndex = i + 1;
+    }
+  }
+  return attrs;
+}
+
+function numericProp(attr?: { text: string; start: number; end: number; braced: boolean }): PropValue | undefined {
+  if (!attr) return undefined;
+  const m = /^(\s*)(-?\d+(?:\.\d+)?)\s*$/.exec(attr.text);
+  if (!attr.braced || !m) return 'expression';
+  const start = attr.start + m[1].length;
+  return { start, end: start + m[2].length, value: Number(m[2]) };
+}
+
+const valueOf = (p: PropValue | undefined, fallback: number | null) => p === undefined ? fallback : p === 'expression' ? null : p.value;
+
+export function parseTimeline(source: string, totalFrames: number): TimelineClip[] {
+  const clips: TimelineClip[] = [];
+  const stack: Scope[] = [];
+  const parentClip = () => { for (let i = stack.length - 1; i >= 0; i--) if (stack[i].clip) return stack[i]; return null; };
+  TAG.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = TAG.exec(source))) {
+    const [, closing, name] = m;
+    if (closing) {
+      const kind = name === 'Series' ? 'series' : 'sequence';
+      const at = stack.map(s => s.kind).lastIndexOf(kind);
+      if (at !== -1) stack.length = at;
+      continue;
+    }
+    const end = tagEnd(source, TAG.lastIndex);
+    if (end === -1) break;
+    const selfClosing = source[end - 1] === '/';
+    const attrs = readAttributes(source, TAG.lastIndex, end);
+    const parent = parentClip();
+    const parentStart = parent ? parent.clip!.start : 0;
+    const parentEnd = parent ? parent.end : totalFrames;
+
+    if (name === 'Series') {
+      if (!selfClosing) stack.push({ kind: 'series', cursor: parentStart, end: parentEnd });
+      continue;
+    }
+
+    const props: TimelineClip['props'] = {};
+    const series = name === 'Series.Sequence' ? stack[stack.length - 1] : undefined;
+    let origin: number | null, start: number | null;
+    if (series?.kind === 'series') {
+      props.offset = numericProp(attrs.offset);
+      origin = series.cursor ?? null;
+      const offset = valueOf(props.offset, 0);
+      start = origin === null || offset === null ? null : origin + offset;
+    } else {
+      props.from = numericProp(attrs.from);
+      origin = parentStart;
+      const from = valueOf(props.from, 0);
+      start = origin === null || from === null ? null : origin + from;
+    }
+    props.durationInFrames = numericProp(attrs.durationInFrames);
+    const ownDuration = valueOf(props.durationInFrames, Infinity);
+    const duration = start === null || ownDuration === null ? null
+      : ownDuration === Infinity ? (parentEnd === null ? null : Math.max(0, parentEnd - start)) : ownDuration;
+    if (series?.kind === 'series') series.cursor = start === null || ownDuration === null || ownDuration === Infinity ? null : start + ownDuration;
+
+    const child = /^\s*<(?!Sequence|Series)([A-Z][\w.]*)/.exec(source.slice(end + 1, end + 200));
+    const clip: TimelineClip = {
+      id: clips.length,
+      kind: series?.kind === 'series' ? 'series-item' : 'sequence',
+      label: attrs.name && !attrs.name.braced ? attrs.name.text : child && !selfClosing ? child[1] : `${name} ${clips.length + 1}`,
+      depth: stack.filter(s => s.clip).length,
+      insertAt: TAG.lastIndex,
+      start,
+      duration,
+      origin,
+      props,
+    };
+    clips.push(clip);
+    if (!selfClosing) stack.push({ kind: 'sequence', clip, end: start === null || duration === null ? null : start + duration });
+  }
+  return clips;
+}
+
+// Which prop moves a clip: `from` for sequences, `offset` for items of a <Series>
+export function moveProp(clip: TimelineClip): TimingProp {
+  return clip.kind === 'series-item' ? 'offset' : 'from';
+}
+
+export function canEdit(clip: TimelineClip, prop: TimingProp) {
+  return clip.start !== null && clip.props[prop] !== 'expression';
+}
+
+// Write new values for a clip's timing props, replacing literals in place or adding the prop after the tag name
+export function retimeClip(source: string, clip: TimelineClip, values: Partial<Record<TimingProp, number>>) {
+  const edits: { start: number; end: number; text: string }[] = [];
+  for (const [prop, value] of Object.entries(values) as [TimingProp, number][]) {
+    const current = clip.props[prop];
+    if (current === 'expression') continue;
+    const text = String(Math.round(value));
+    if (current) edits.push({ start: current.start, end: current.end, text });
+    else edits.push({ start: clip.insertAt, end: clip.insertAt, text: ` ${prop}={${text}}` });
+  }
+  edits.sort((a, b) => b.start - a.start);
+  return edits.reduce((out, e) => out.slice(0, e.start) + e.text + out.slice(e.end), source);
+}
@@ -1,18 +1,24 @@
-import {transform} from 'sucrase';
+import {transform, Transform} from 'sucrase';
+import {INJECTED_SCOPE} from '../shared/lint.js';
 
-export function transpileTSX(tsx: string) {
-  // Remove import lines because we'll inject React & Remotion manually at runtime
-  const noImports = tsx.replace(/^\s*import[^;]*;\s*$/gm, '');
-  const out = transform(noImports, {transforms:['typescript','jsx']}).code;
-  // Hoist commonly used Remotion APIs into scope so identifiers like useCurrentFrame resolve
-  const inject = `// Inject common React + Remotion APIs into scope for generated code without import lines\n` +
-                 `const { useState, useEffect, useMemo, useRef, useCallback, useLayoutEffect, Fragment, createElement, Suspense } = React;\n` +
-                 `const { useCurrentFrame, useVideoConfig, AbsoluteFill, Img, Audio, OffthreadVideo, staticFile, continueRender, delayRender } = Remotion;\n` +
-                 `const { interpolate, spring, random, Easing } = Remotion;\n` +
-                 `const { Sequence, Series } = Remotion;\n`;
-  // Convert ESM exports to assignments
-  const adjusted = out
-    .replace(/export\s+const\s+/g, 'const ')
-    .replace(/export\s+default\s+/g, 'exports.default = ');
-  return inject + adjusted + '\n;exports.MyComp = typeof MyComp!=="undefined" ? MyComp : (exports.default||undefined);';
+// Hoist commonly used React + Remotion APIs into scope so generated code without import lines still resolves.
+// Kept on a single line so that line N of the source file stays line N + 1 of the transpiled module.
+const inject = Object.entries(INJECTED_SCOPE).map(([from, names]) => `const { ${names.join(', ')} } = ${from};`).join(' ') + ' {';
+
+export function transformsFor(filename: string): Transform[] {
+  if (/\.tsx$/.test(filename)) return ['typescript', 'jsx', 'imports'];
+  if (/\.ts$/.test(filename)) return ['typescript', 'imports'];
+  return ['jsx', 'imports'];
+}
+
+// Plain sucrase output for one file (what the linter analyses)
+export function compileModule(tsx: string, filename: string) {
+  return transform(tsx, {transforms: transformsFor(filename), filePath: filename, production: true}).code;
+}
+
+// Compile one project file into a CommonJS module body. The module code runs inside a block so that local
+// declarations may shadow the injected names instead of colliding with them.
+export function transpileTSX(tsx: string, filename = 'src/MyComp.tsx') {
+  return inject + '\n' + compileModule(tsx, filename) +
+    '\n;if (exports.MyComp === undefined && typeof MyComp !== "undefined") exports.MyComp = MyComp;\n}';
 }
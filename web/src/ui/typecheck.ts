@@ -0,0 +1,48 @@
+import {Diagnostic} from './types';
+
+// Type errors of the project's .ts/.tsx files, from a TypeScript language service in a worker. The worker (with
+// the compiler and the react/remotion declarations, several megabytes) is only loaded on the first check.
+
+export type TypecheckRequest = { id: number; files: Record<string, string> };
+export type TypecheckResponse = { id: number; diagnostics: Diagnostic[]; error?: string };
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, (diagnostics: Diagnostic[]) => void>();
+
+function settleAll() {
+  for (const resolve of pending.values()) resolve([]);
+  pending.clear();
+}
+
+function start() {
+  worker = new Worker(new URL('./typecheck.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<TypecheckResponse>) => {
+    const { id, diagnostics, error } = event.data;
+    if (error) console.warn('Type check failed:', error);
+    pending.get(id)?.(diagnostics);
+    pending.delete(id);
+  };
+  // A worker that fails to load or crashes reports no type errors; the next check starts a new one
+  worker.onerror = (event) => {
+    console.warn('Type check worker failed:', event.message);
+    worker?.terminate();
+    worker = null;
+    settleAll();
+  };
+  return worker;
+}
+
+// Resolves with no diagnostics when the check cannot run, so callers never wait on a broken worker
+export function typeDiagnostics(files: Record<string, string>): Promise<Diagnostic[]> {
+  return new Promise(resolve => {
+    try {
+      const id = ++nextId;
+      pending.set(id, resolve);
+      (worker || start()).postMessage({ id, files } satisfies TypecheckRequest);
+    } catch {
+      settleAll();
+      resolve([]);
+    }
+  });
+}
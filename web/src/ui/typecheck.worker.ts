@@ -0,0 +1,97 @@
+import ts from 'typescript';
+import {INJECTED_SCOPE} from '../shared/lint.js';
+import {Diagnostic} from './types';
+import {TypecheckRequest, TypecheckResponse} from './typecheck';
+
+// A TypeScript language service over the project's files and the declarations of what the preview provides: the
+// standard library, react and remotion. Project files live under /src, declarations under /node_modules, as
+// module resolution expects them.
+
+const DECLARATIONS: Record<string, string> = {
+  ...import.meta.glob([
+    '/node_modules/typescript/lib/lib.{es5,es2015*,es2016*,es2017*,es2018*,es2019*,es2020*,es2021*,decorators*,dom*}.d.ts',
+    '/node_modules/@types/react/{index,global,jsx-runtime,jsx-dev-runtime}.d.ts',
+    '/node_modules/@types/prop-types/index.d.ts',
+    '/node_modules/csstype/index.d.ts',
+    '/node_modules/remotion/dist/cjs/**/*.d.ts',
+  ], { query: '?raw', import: 'default', eager: true, exhaustive: true }) as Record<string, string>,
+  '/node_modules/remotion/package.json': JSON.stringify({ types: 'dist/cjs/index.d.ts' }),
+  // The names the preview injects into every module (see transpile.ts); React itself is the UMD global
+  '/scope.d.ts': 'export {};\ndeclare global {\n' +
+    INJECTED_SCOPE.React.map(name => `  const ${name}: typeof import('react').${name};\n`).join('') +
+    "  const Remotion: typeof import('remotion');\n" +
+    INJECTED_SCOPE.Remotion.map(name => `  const ${name}: typeof import('remotion').${name};\n`).join('') +
+    '}\n',
+};
+
+// Generated code is loose JavaScript as often as not, so only what would fail at runtime is worth reporting
+const OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  lib: ['lib.es2021.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  jsx: ts.JsxEmit.ReactJSX,
+  allowJs: true,
+  allowUmdGlobalAccess: true,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+// Already reported by the lint rules (undeclared names) and the import checks (unresolved modules)
+const SKIPPED_CODES = new Set([2304, 2552, 2580, 2591, 2307, 2792, 7016]);
+
+let files: Record<string, string> = {};
+const versions = new Map<string, number>();
+
+const read = (path: string) => (path.startsWith('/src/') ? files[path.slice(1)] : DECLARATIONS[path]);
+
+const host: ts.LanguageServiceHost = {
+  getCompilationSettings: () => OPTIONS,
+  getScriptFileNames: () => ['/scope.d.ts', ...Object.keys(files).filter(f => /\.(tsx?|jsx?)$/.test(f)).map(f => '/' + f)],
+  getScriptVersion: path => String(versions.get(path) || 0),
+  getScriptSnapshot: path => {
+    const text = read(path);
+    return typeof text === 'string' ? ts.ScriptSnapshot.fromString(text) : undefined;
+  },
+  getCurrentDirectory: () => '/',
+  getDefaultLibFileName: () => '/node_modules/typescript/lib/lib.d.ts',
+  fileExists: path => typeof read(path) === 'string',
+  readFile: read,
+};
+
+const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+function check(next: Record<string, string>): Diagnostic[] {
+  for (const file of Object.keys(next)) {
+    if (next[file] !== files[file]) versions.set('/' + file, (versions.get('/' + file) || 0) + 1);
+  }
+  files = next;
+  const out: Diagnostic[] = [];
+  for (const file of Object.keys(files)) {
+    if (!/\.tsx?$/.test(file)) continue;
+    for (const d of service.getSemanticDiagnostics('/' + file)) {
+      if (SKIPPED_CODES.has(d.code) || !d.file || d.file.fileName !== '/' + file) continue;
+      const { line, character } = d.file.getLineAndCharacterOfPosition(d.start || 0);
+      out.push({
+        file, line: line + 1, column: character + 1,
+        severity: d.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+        message: ts.flattenDiagnosticMessageText(d.messageText, '\n').replace(/\s*\n\s*/g, ' '),
+        code: 'type',
+      });
+    }
+  }
+  return out;
+}
+
+self.onmessage = (event: MessageEvent<TypecheckRequest>) => {
+  const { id, files } = event.data;
+  let response: TypecheckResponse;
+  try {
+    response = { id, diagnostics: check(files) };
+  } catch (e: any) {
+    response = { id, diagnostics: [], error: String(e?.message || e) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,41 @@
+export type Diagnostic = { file: string; line: number; column: number; severity: 'error'|'warning'; message: string; code?: string; fixed?: boolean };
+export type Validation = { ok: boolean; attempts: number; diagnostics: Diagnostic[] };
+export type Project = {
+  kind: 'remotion-project';
+  files: Record<string, string>;
+  compositionId: string;
+  width: number; height: number; fps: number; durationInFrames: number;
+  validation?: Validation;
+  // Props src/MyComp.tsx accepts (set for block projects); the preview passes their values as inputProps
+  props?: ParamDef[];
+  // Binary files served under public/, keyed by path
+  assets?: Record<string, ProjectAsset>;
+  // Every composition of src/Root.tsx once the project was adapted to more output formats, its own one first
+  compositions?: ProjectComposition[];
+};
+// A composition of src/Root.tsx and the component it plays (`component` exported by `file`)
+export type ProjectComposition = { id: string; width: number; height: number; file: string; component: string };
+// data is a data: URL or the /api/assets/<hash> URL of a stored upload
+export type ProjectAsset = { type: string; data: string; size?: number };
+
+// An image or attachment of a generation request, with what the model actually received of it
+export type ModelInput = { label: string; kind: 'image' | 'text'; status: 'sent' | 'downscaled' | 'extracted' | 'truncated' | 'skipped'; detail: string };
+
+export type ProviderInfo = { id: string; label: string; available: boolean; model: string; fastModel: string };
+export type ParamType = 'color'|'text'|'number'|'select'|'boolean'|'font'|'easing'|'duration'|'image';
+export type ParamDef = {
+  key: string; label: string; type: ParamType; default: any; description?: string; bound?: boolean;
+  // number and duration (seconds): range, slider step and display unit
+  min?: number; max?: number; step?: number; unit?: string;
+  // select: the allowed values
+  options?: string[];
+};
+export type BlockDef = { id: string; name: string; params: ParamDef[]; hue?: number };
+export type Block = { def: BlockDef; project: Project; tags?: string[]; version?: number; usageCount?: number; versionCount?: number };
+export type TextSeg = { type: 'text'; id: string; value: string };
+export type Transition = 'cut' | 'fade' | 'slide' | 'wipe';
+// seconds and transition are used in storyboard mode, where every block segment becomes its own scene
+export type BlockSeg = { type: 'block'; id: string; blockId: string; values: Record<string, any>; contextUrl?: string; contextData?: string; seconds?: number; transition?: Transition };
+export type PromptSeg = TextSeg | BlockSeg;
+// A scene of the last storyboard run, sent back as `previous` so unchanged scenes are reused
+export type StoryboardScene = { id: string; key: string; source: 'block' | 'generated' | 'cached'; files: Record<string, string> };
@@ -1,5 +1,6 @@
 import {defineConfig} from 'vite';
 import react from '@vitejs/plugin-react';
+import {fileURLToPath} from 'node:url';
 
 export default defineConfig({
   plugins: [react()],
@@ -7,7 +8,16 @@ export default defineConfig({
     port: 5173,
     proxy: {
       '/api': 'http://localhost:3003'
-    }
+    },
+    // The preview sandbox has an opaque origin, so its module requests arrive with `Origin: null`
+    cors: { origin: [/^https?:\/\/(?:localhost|127\.0\.0\.1|\[::1\])(?::\d+)?$/, 'null'] },
+  },
+  build: {
+    rollupOptions: {
+      input: {
+        main: fileURLToPath(new URL('./index.html', import.meta.url)),
+        sandbox: fileURLToPath(new URL('./sandbox.html', import.meta.url)),
+      },
+    },
   },
 });
-